@@ -0,0 +1,342 @@
+import React from 'react';
+import { act, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { I18nProvider } from './components/I18nProvider';
+import { setAiProvider } from './services/aiProvider';
+import { printStylistBrief } from './services/stylistBrief';
+import { AiProvider, AnalysisResult, FaceShape } from './types';
+
+// Keep consultations in memory; jsdom has no IndexedDB
+vi.mock('./services/historyStore', () => ({
+  saveSession: async () => {},
+  listSessions: async () => [],
+  getSession: async () => undefined,
+  deleteSession: async () => {},
+  clearSessions: async () => {},
+}));
+
+// jsdom can't print; each test scripts the outcome
+vi.mock('./services/stylistBrief', async importOriginal => ({
+  ...await importOriginal<typeof import('./services/stylistBrief')>(),
+  printStylistBrief: vi.fn(),
+}));
+
+const CAPTURE = 'data:image/jpeg;base64,Q0FQVFVSRQ==';
+const RENDER = 'data:image/png;base64,UkVOREVS';
+
+const analysis: AnalysisResult = {
+  faceShape: FaceShape.HEART,
+  suggestions: ['Pixie Cut', 'Long Layers', 'Textured Bob', 'Curtain Bangs', 'Shag'].map(name => ({
+    name,
+    description: `${name} description`,
+    reasoning: `${name} reasoning`,
+  })),
+};
+
+let provider: { analyzeFace: ReturnType<typeof vi.fn>; generateHairstyleImage: ReturnType<typeof vi.fn> };
+let stopTrack: ReturnType<typeof vi.fn>;
+let getUserMedia: ReturnType<typeof vi.fn>;
+
+const renderApp = () => render(
+  <I18nProvider initialLocale="en">
+    <App />
+  </I18nProvider>
+);
+
+// Camera screen through all three angles to the preview
+const captureAllAngles = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.click(screen.getByRole('button', { name: /start analysis/i }));
+  expect(await screen.findByRole('heading', { name: 'Front View' })).toBeInTheDocument();
+  await waitFor(() => expect(getUserMedia).toHaveBeenCalled());
+
+  await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+  expect(await screen.findByRole('heading', { name: 'Left Profile' })).toBeInTheDocument();
+  await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+  expect(await screen.findByRole('heading', { name: 'Right Profile' })).toBeInTheDocument();
+  await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+  expect(await screen.findByRole('heading', { name: 'Review Capture' })).toBeInTheDocument();
+};
+
+// Analyze on the review screen, then agree to the upload in the consent dialog
+const uploadWithConsent = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.click(screen.getByRole('button', { name: 'Analyze' }));
+  await user.click(await screen.findByRole('checkbox', { name: /agrees to them being uploaded/i }));
+  await user.click(screen.getByRole('button', { name: 'Upload & Analyze' }));
+};
+
+const analyze = async (user: ReturnType<typeof userEvent.setup>) => {
+  await captureAllAngles(user);
+  await uploadWithConsent(user);
+  expect(await screen.findByRole('heading', { name: 'Select Styles' })).toBeInTheDocument();
+};
+
+describe('App consultation flow', () => {
+  beforeEach(() => {
+    provider = {
+      analyzeFace: vi.fn().mockResolvedValue(analysis),
+      generateHairstyleImage: vi.fn().mockResolvedValue(RENDER),
+    };
+    setAiProvider({ name: 'stub', ...provider } as AiProvider);
+
+    // A fake camera: one track whose stop() we can observe
+    stopTrack = vi.fn();
+    getUserMedia = vi.fn().mockResolvedValue({ getTracks: () => [{ stop: stopTrack }] });
+    Object.defineProperty(navigator, 'mediaDevices', { value: { getUserMedia }, configurable: true });
+
+    // jsdom has no canvas backend; captures only need a context that records the drawing calls
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage: vi.fn(), scale: vi.fn() } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(CAPTURE);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setAiProvider(null);
+  });
+
+  it('goes from the camera to the results and back through the browser history', async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await captureAllAngles(user);
+    // Leaving the camera screen releases the stream
+    expect(stopTrack).toHaveBeenCalled();
+    expect(window.location.hash).toBe('#/preview');
+
+    await uploadWithConsent(user);
+    expect(await screen.findByRole('heading', { name: 'Select Styles' })).toBeInTheDocument();
+    expect(provider.analyzeFace).toHaveBeenCalledWith([CAPTURE, CAPTURE, CAPTURE], { constraints: {}, locale: 'en', onModelCall: expect.any(Function) }, expect.any(AbortSignal));
+    expect(screen.getByText('Your face shape is Heart')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Textured Bob'));
+    await user.click(screen.getByRole('button', { name: /generate visualizations/i }));
+
+    expect(await screen.findByRole('heading', { name: 'Your New Look' })).toBeInTheDocument();
+    expect(provider.generateHairstyleImage).toHaveBeenCalledTimes(1);
+    expect(provider.generateHairstyleImage.mock.calls[0].slice(0, 3)).toEqual([CAPTURE, 'Textured Bob', 'Textured Bob description']);
+    expect(screen.getByRole('img', { name: 'Textured Bob (Front)' })).toHaveAttribute('src', RENDER);
+    expect(window.location.hash).toMatch(/^#\/results\/.+/);
+
+    // The generating step shares the styles entry, so back lands on the selection
+    act(() => window.history.back());
+    expect(await screen.findByRole('heading', { name: 'Select Styles' })).toBeInTheDocument();
+    act(() => window.history.back());
+    expect(await screen.findByRole('heading', { name: 'Review Capture' })).toBeInTheDocument();
+  });
+
+  it('caps the selection at the configured number of styles', async () => {
+    const user = userEvent.setup();
+    renderApp();
+    await analyze(user);
+
+    await user.click(screen.getByText('Pixie Cut'));
+    await user.click(screen.getByText('Long Layers'));
+    expect(screen.getByText('2 / 2 Selected')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Shag'));
+    expect(screen.getByText('2 / 2 Selected')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /generate 2 visualizations/i }));
+    expect(await screen.findByRole('heading', { name: 'Your New Look' })).toBeInTheDocument();
+    const styles = provider.generateHairstyleImage.mock.calls.map(call => call[1]);
+    expect(styles.sort()).toEqual(['Long Layers', 'Pixie Cut']);
+  });
+
+  it('shows the error screen when the analysis fails and resets from it', async () => {
+    provider.analyzeFace.mockRejectedValue(new Error('The model is unavailable.'));
+    const user = userEvent.setup();
+    renderApp();
+
+    await captureAllAngles(user);
+    await uploadWithConsent(user);
+
+    expect(await screen.findByRole('heading', { name: 'Something went wrong' })).toBeInTheDocument();
+    expect(screen.getByText('The model is unavailable.')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Try Again' }));
+    expect(screen.getByRole('button', { name: /start analysis/i })).toBeInTheDocument();
+    expect(window.location.hash).toBe('#/');
+  });
+
+  it.each([
+    ['NotAllowedError', 'Camera access was denied. Allow the camera in your browser settings and try again.'],
+    ['NotFoundError', 'No camera was found. Connect a camera or upload photos instead.'],
+    ['NotReadableError', 'The camera is in use by another app. Close it and try again.'],
+    ['UnknownError', 'Could not access camera. Please ensure permissions are granted.'],
+  ])('explains a camera failure (%s) on the error screen', async (name, message) => {
+    getUserMedia.mockRejectedValue(new DOMException('Camera failed', name));
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.click(screen.getByRole('button', { name: /start analysis/i }));
+
+    expect(await screen.findByRole('heading', { name: 'Something went wrong' })).toBeInTheDocument();
+    expect(screen.getByText(message)).toBeInTheDocument();
+  });
+
+  it('switches between the front and rear camera', async () => {
+    const enumerateDevices = vi.fn().mockResolvedValue([
+      { kind: 'videoinput', deviceId: 'front', label: 'Front Camera' },
+      { kind: 'videoinput', deviceId: 'rear', label: 'Back Camera' },
+      { kind: 'audioinput', deviceId: 'mic', label: 'Microphone' },
+    ]);
+    Object.defineProperty(navigator, 'mediaDevices', { value: { getUserMedia, enumerateDevices }, configurable: true });
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.click(screen.getByRole('button', { name: /start analysis/i }));
+    expect(getUserMedia.mock.calls[0][0].video.facingMode).toBe('user');
+
+    await user.click(await screen.findByRole('button', { name: 'Switch camera' }));
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(2));
+    expect(getUserMedia.mock.calls[1][0].video.facingMode).toBe('environment');
+    // The old stream is released before the other camera opens
+    expect(stopTrack).toHaveBeenCalledTimes(1);
+
+    // Picking a camera from the list asks for that exact device
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['Front Camera', 'Back Camera']);
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Camera' }), 'rear');
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(3));
+    expect(getUserMedia.mock.calls[2][0].video.deviceId).toEqual({ exact: 'rear' });
+    expect(JSON.parse(localStorage.getItem('styleai.camera')!)).toMatchObject({ deviceId: 'rear', facingMode: 'environment' });
+  });
+
+  it('mirrors only the preview, never the capture', async () => {
+    const user = userEvent.setup();
+    const { container } = renderApp();
+
+    await user.click(screen.getByRole('button', { name: /start analysis/i }));
+    const video = container.querySelector('video')!;
+    expect(video).not.toHaveClass('-scale-x-100');
+
+    await user.click(screen.getByRole('button', { name: 'Mirror' }));
+    expect(video).toHaveClass('-scale-x-100');
+    expect(screen.getByRole('button', { name: 'Mirror' })).toHaveAttribute('aria-pressed', 'true');
+
+    await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+    expect(await screen.findByRole('heading', { name: 'Left Profile' })).toBeInTheDocument();
+    const context = vi.mocked(HTMLCanvasElement.prototype.getContext).mock.results[0].value;
+    expect(context.drawImage).toHaveBeenCalledWith(video, 0, 0, 0, 0);
+    expect(context.scale).not.toHaveBeenCalled();
+  });
+
+  it('takes the photo when the self-timer runs out', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    try {
+      localStorage.setItem('styleai.camera', JSON.stringify({ countdown: 3 }));
+      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+      renderApp();
+
+      await user.click(screen.getByRole('button', { name: /start analysis/i }));
+      expect(await screen.findByRole('button', { name: '3s timer' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+      expect(screen.getByText('3')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Front View' })).toBeInTheDocument();
+
+      // Pressing the shutter again cancels the timer
+      await user.click(screen.getByRole('button', { name: 'Cancel timer' }));
+      act(() => vi.advanceTimersByTime(4000));
+      expect(screen.getByRole('heading', { name: 'Front View' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+      for (let i = 0; i < 3; i++) act(() => vi.advanceTimersByTime(1000));
+      expect(await screen.findByRole('heading', { name: 'Left Profile' })).toBeInTheDocument();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('adds the back of the head as an optional fourth capture', async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.click(screen.getByRole('button', { name: /start analysis/i }));
+    await user.click(await screen.findByRole('button', { name: 'Back of head' }));
+    for (const next of ['Left Profile', 'Right Profile', 'Back of Head']) {
+      await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+      expect(await screen.findByRole('heading', { name: next })).toBeInTheDocument();
+    }
+    await user.click(screen.getByRole('button', { name: 'Take Photo' }));
+    expect(await screen.findByRole('heading', { name: 'Review Capture' })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Back of Head' })).toBeInTheDocument();
+
+    await uploadWithConsent(user);
+    expect(await screen.findByRole('heading', { name: 'Select Styles' })).toBeInTheDocument();
+    expect(provider.analyzeFace.mock.calls[0][0]).toHaveLength(4);
+  });
+
+  it('starts over with a clean slate', async () => {
+    const user = userEvent.setup();
+    renderApp();
+    await analyze(user);
+    await user.click(screen.getByText('Pixie Cut'));
+    await user.click(screen.getByRole('button', { name: /generate visualizations/i }));
+    expect(await screen.findByRole('heading', { name: 'Your New Look' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Start Over' }));
+    expect(screen.getByRole('button', { name: /start analysis/i })).toBeInTheDocument();
+
+    // The old analysis is gone: a new capture starts from the front view again
+    await captureAllAngles(user);
+    await uploadWithConsent(user);
+    expect(await screen.findByRole('heading', { name: 'Select Styles' })).toBeInTheDocument();
+    expect(screen.getByText('0 / 2 Selected')).toBeInTheDocument();
+    expect(provider.analyzeFace).toHaveBeenCalledTimes(2);
+  });
+
+  it('tells the user when the stylist brief cannot be printed', async () => {
+    vi.mocked(printStylistBrief).mockRejectedValue(new Error('Could not prepare the brief for printing.'));
+    const user = userEvent.setup();
+    renderApp();
+    await analyze(user);
+    await user.click(screen.getByText('Pixie Cut'));
+    await user.click(screen.getByRole('button', { name: /generate visualizations/i }));
+    expect(await screen.findByRole('heading', { name: 'Your New Look' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Print / PDF' }));
+    expect(await screen.findByText('Could not open the print dialog for the brief. Please try again.')).toBeInTheDocument();
+    expect(printStylistBrief).toHaveBeenCalledWith(expect.stringContaining('Pixie Cut'));
+  });
+
+  it('uploads nothing until the consent box is ticked', async () => {
+    const user = userEvent.setup();
+    renderApp();
+    await captureAllAngles(user);
+
+    await user.click(screen.getByRole('button', { name: 'Analyze' }));
+    const dialog = await screen.findByRole('dialog', { name: 'Before we upload' });
+    expect(within(dialog).getAllByRole('img')).toHaveLength(3);
+    await waitFor(() => expect(within(dialog).getByRole('button', { name: 'Upload & Analyze' })).toBeDisabled());
+
+    await user.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(provider.analyzeFace).not.toHaveBeenCalled();
+
+    await uploadWithConsent(user);
+    expect(await screen.findByRole('heading', { name: 'Select Styles' })).toBeInTheDocument();
+    expect(provider.analyzeFace).toHaveBeenCalledTimes(1);
+  });
+
+  it('deletes all data from the start screen after confirming', async () => {
+    localStorage.setItem('styleai.camera', JSON.stringify({ facingMode: 'environment', mirror: true }));
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.click(screen.getByRole('button', { name: 'Delete all my data' }));
+    await user.click(screen.getByRole('button', { name: 'Delete Everything' }));
+
+    await waitFor(() => expect(localStorage.getItem('styleai.camera')).toBeNull());
+    expect(screen.getByRole('button', { name: 'Delete all my data' })).toBeInTheDocument();
+  });
+
+  it('does not open a screen from the URL without the data it needs', async () => {
+    window.history.replaceState(null, '', '/#/preview');
+    renderApp();
+
+    expect(await screen.findByRole('button', { name: /start analysis/i })).toBeInTheDocument();
+    await waitFor(() => expect(window.location.hash).toBe('#/'));
+  });
+});
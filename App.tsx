@@ -1,48 +1,167 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { CameraIcon, RefreshCwIcon, CheckIcon, SparklesIcon, XIcon, DownloadIcon } from './components/Icons';
+import { CameraIcon, RefreshCwIcon, CheckIcon, SparklesIcon, XIcon, ClockIcon, TrashIcon, ChevronLeftIcon, UploadIcon, WifiOffIcon, BarChartIcon, UsersIcon } from './components/Icons';
 import Loader from './components/Loader';
-import { analyzeFace, generateHairstyleImage } from './services/geminiService';
-import { AppState, AnalysisResult, GeneratedImage } from './types';
+import ConstraintsForm from './components/ConstraintsForm';
+import CompareView from './components/CompareView';
+import ResultCard from './components/ResultCard';
+import PhotoDropZone from './components/PhotoDropZone';
+import GenerationProgress from './components/GenerationProgress';
+import UsageDashboard from './components/UsageDashboard';
+import ConsentDialog from './components/ConsentDialog';
+import ClientList from './components/ClientList';
+import ClientDetail from './components/ClientDetail';
+import { ClientDraft } from './components/ClientForm';
+import { useI18n } from './components/I18nProvider';
+import { isAbortError } from './services/abort';
+import { FlowContext, Route, canEnter, canTransition, getRoutePath, getTransientBase, isTransient, parseRoute } from './services/appFlow';
+import { analyzeFace, generateHairstyleImage } from './services/aiProvider';
+import { AnalysisValidationError } from './services/analysisValidator';
+import { ClientArchiveError, buildClientArchive, downloadClientArchive, parseClientArchive } from './services/clientArchive';
+import { deleteClient, listClients, saveClient, saveClientArchive } from './services/clientStore';
+import { COUNTDOWN_OPTIONS, CameraSettings, DEFAULT_CAMERA_SETTINGS, getCameraErrorMessage, getStreamDeviceId, listCameras, loadCameraSettings, openCamera, saveCameraSettings } from './services/camera';
+import { CaptureFeedback, assessCapture, measureFrame } from './services/faceDetection';
+import { ImageImportError, importImageFile } from './services/imageImport';
+import { DAILY_BUDGET_USD, MAX_SELECTED_STYLES } from './services/config';
+import { createId } from './services/db';
+import { describeError } from './services/errorMessages';
+import { deleteSession, getSession, listSessions, saveSession } from './services/historyStore';
+import { HAIR_COLORS, MAX_COLOR_SELECTION, formatColorLabel, getHairColor } from './services/hairColors';
+import { LOCALE_NAMES, Locale, MessageKey, SUPPORTED_LOCALES, formatAppliedColor, formatColorName, formatFaceShape, formatHairDensity, formatHairLength, formatHairTexture, formatHairline, formatList, formatMaintenance, formatPercent, formatProportion } from './services/i18n';
+import { ANGLE_LABELS, BACK_CAPTURE_INDEX, CAPTURE_ANGLES, getAngle, getCaptureIndex, getRenderKey, getVariantKey, getVersions } from './services/renders';
+import { BackgroundMode, deleteAllData, loadBackgroundMode, prepareForUpload, saveBackgroundMode } from './services/privacy';
+import { hasConstraints } from './services/styleConstraints';
+import { DEFAULT_STYLE_FILTERS, STYLE_SORTS, StyleFilters, StyleSort, applyStyleFilters, hasStyleFilters } from './services/styleFilters';
+import { buildStylistBrief, getBriefFileName, printStylistBrief, shareStylistBrief } from './services/stylistBrief';
+import { UsageRecord } from './services/usage';
+import { clearUsage, listUsage } from './services/usageStore';
+import { AppState, AnalysisResult, AppliedColor, CaptureAngle, ClientProfile, ColorTechnique, ConsultationSession, GeneratedImage, GenerationStatus, HairLength, HairTexture, HairstyleSuggestion, MaintenanceLevel, StyleConstraints } from './types';
+
+// Frame checks run every FRAME_CHECK_INTERVAL_MS; the shutter fires automatically
+// once the pose has been held for AUTO_CAPTURE_STREAK consecutive checks.
+const FRAME_CHECK_INTERVAL_MS = 250;
+const AUTO_CAPTURE_STREAK = 4;
+
+interface NavigateOptions {
+  replace?: boolean; // Reuse the current history entry
+  context?: Partial<FlowContext>; // Data set in the same tick, before the next render
+}
 
 const App: React.FC = () => {
+  const { locale, t, setLocale } = useI18n();
+
   // State
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   
-  // Now storing multiple images: [Front, Left, Right]
+  // Now storing multiple images: [Front, Left, Right, Back?]
   const [capturedImages, setCapturedImages] = useState<string[]>([]);
-  const [captureStep, setCaptureStep] = useState<number>(0); // 0: Front, 1: Left, 2: Right
+  const [captureStep, setCaptureStep] = useState<number>(0); // 0: Front, 1: Left, 2: Right, 3: Back
+  const [captureFeedback, setCaptureFeedback] = useState<CaptureFeedback | null>(null);
+  const [autoCapture, setAutoCapture] = useState<boolean>(true);
+  const [readyStreak, setReadyStreak] = useState<number>(0);
+
+  // Which camera to open and how to shoot; saved across visits
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | undefined>(undefined);
+  const [countdown, setCountdown] = useState<number | null>(null); // Seconds left on the self-timer
+
+  // Upload path: where the current captures came from and the three upload slots
+  const [captureSource, setCaptureSource] = useState<'camera' | 'upload'>('camera');
+  const [uploadSlots, setUploadSlots] = useState<(string | null)[]>([null, null, null]);
+  const [uploadingSlot, setUploadingSlot] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [cropToFace, setCropToFace] = useState<boolean>(true);
 
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
+  // Client preferences and "try my own style" input
+  const [constraints, setConstraints] = useState<StyleConstraints>({});
+  const [showConstraints, setShowConstraints] = useState<boolean>(false);
+  const [customStyle, setCustomStyle] = useState<{ name: string; description: string }>({ name: '', description: '' });
+
+  // Selection screen filters and sort order, applied to the suggestions' tags
+  const [styleFilters, setStyleFilters] = useState<StyleFilters>(DEFAULT_STYLE_FILTERS);
+
+  // Optional color variants applied on top of each selected style
+  const [selectedColorIds, setSelectedColorIds] = useState<string[]>([]);
+  const [colorTechnique, setColorTechnique] = useState<ColorTechnique>(ColorTechnique.SOLID);
+
+  // Also render each variant from the left/right profile captures
+  const [includeSideViews, setIncludeSideViews] = useState<boolean>(false);
+
+  // Skip cached responses and ask the model again, for a fresh variation
+  const [freshResults, setFreshResults] = useState<boolean>(false);
+
+  // Results compare mode: variant keys picked for the side-by-side view
+  const [compareKeys, setCompareKeys] = useState<string[]>([]);
+  const [showCompare, setShowCompare] = useState<boolean>(false);
+
+  // History: the session currently being worked on and the saved list
+  const [session, setSession] = useState<{ id: string; createdAt: number; consentedAt?: number; clientId?: string } | null>(null);
+  const [history, setHistory] = useState<ConsultationSession[]>([]);
+
+  // Client profiles: new consultations attach to the active client
+  const [clients, setClients] = useState<ClientProfile[]>([]);
+  const [activeClient, setActiveClient] = useState<ClientProfile | null>(null);
+  const [openClientId, setOpenClientId] = useState<string | null>(null); // Shown in detail on the clients screen
+  const [clientNotice, setClientNotice] = useState<{ text: string; error: boolean } | null>(null);
+
+  // Consent step before the photos are uploaded, showing them as they will be sent
+  const [showConsent, setShowConsent] = useState<boolean>(false);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>(loadBackgroundMode);
+  const [uploadImages, setUploadImages] = useState<string[] | null>(null);
+  const [prepareError, setPrepareError] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<boolean>(false);
+
+  // Recorded model requests, loaded when the usage screen opens
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+
+  // Render keys of the generation round in progress, for the progress screen
+  const [generationBatch, setGenerationBatch] = useState<string[]>([]);
+
+  // Offline, capture and saved consultations still work; analysis and renders don't
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const abortRef = useRef<AbortController | null>(null); // Cancels the running analysis or generation round
 
-  // --- Camera Logic ---
+  // Latest values for navigation, which runs from async callbacks and popstate
+  const appStateRef = useRef<AppState>(appState);
+  const flowRef = useRef<FlowContext>({ captureCount: 0, hasAnalysis: false, renderCount: 0 });
+  flowRef.current = { captureCount: capturedImages.length, hasAnalysis: !!analysisResult, renderCount: generatedImages.length };
+  const sessionIdRef = useRef<string | undefined>(undefined);
+  sessionIdRef.current = session?.id;
 
-  const startCamera = useCallback(async () => {
-    try {
-      setAppState(AppState.CAMERA);
-      setCaptureStep(0);
-      setCapturedImages([]);
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } } 
-      });
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
-    } catch (err) {
-      console.error("Error accessing camera:", err);
-      setErrorMsg("Could not access camera. Please ensure permissions are granted.");
-      setAppState(AppState.ERROR);
+  // --- Navigation ---
+
+  // Moves to another screen if the flow allows it, recording it in the browser history.
+  // Returns false (and stays put) when the transition is blocked.
+  const navigate = useCallback((to: AppState, options: NavigateOptions = {}): boolean => {
+    const from = appStateRef.current;
+    if (!canTransition(from, to, { ...flowRef.current, ...options.context })) {
+      console.warn(`Blocked transition ${from} -> ${to}`);
+      return false;
     }
+
+    // Running steps take over their screen's entry and hand it back on cancel
+    const replace = options.replace || from === to || isTransient(to) || getTransientBase(from) === to;
+    const path = getRoutePath(to, sessionIdRef.current);
+    if (replace) window.history.replaceState({ appState: to }, '', path);
+    else window.history.pushState({ appState: to }, '', path);
+
+    appStateRef.current = to;
+    setAppState(to);
+    return true;
   }, []);
 
+  // --- Camera Logic ---
+
   const stopCamera = useCallback(() => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
@@ -50,6 +169,77 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const startCamera = useCallback(() => navigate(AppState.CAMERA), [navigate]);
+
+  // Saved on change only, so defaults are never written back after "delete all my data"
+  const updateCameraSettings = useCallback((update: (prev: CameraSettings) => Partial<CameraSettings>) => {
+    setCameraSettings(prev => {
+      const next = { ...prev, ...update(prev) };
+      saveCameraSettings(next);
+      return next;
+    });
+  }, []);
+
+  // Front/back toggle for phones; drops a specific device pick in favour of the facing mode
+  const flipCamera = useCallback(() => {
+    updateCameraSettings(prev => ({ facingMode: prev.facingMode === 'user' ? 'environment' : 'user', deviceId: undefined }));
+  }, [updateCameraSettings]);
+
+  const captureTotal = CAPTURE_ANGLES.length + (cameraSettings.captureBack ? 1 : 0);
+
+  // Every visit to the camera screen starts a fresh capture
+  useEffect(() => {
+    if (appState !== AppState.CAMERA) return;
+
+    setCaptureSource('camera');
+    setCaptureStep(0);
+    setCapturedImages([]);
+
+    return () => setCountdown(null);
+  }, [appState]);
+
+  // The stream lives exactly as long as the camera screen; picking another camera reopens it
+  useEffect(() => {
+    if (appState !== AppState.CAMERA) return;
+
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        const stream = await openCamera({ facingMode: cameraSettings.facingMode, deviceId: cameraSettings.deviceId });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        setActiveDeviceId(getStreamDeviceId(stream));
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+
+        // Device labels are only available once permission has been granted
+        const devices = await listCameras();
+        if (!cancelled) setCameras(devices);
+      } catch (err) {
+        if (cancelled) return;
+        if (streamRef.current) {
+          // The camera opened; only the device list failed
+          console.warn("Could not list cameras:", err);
+          return;
+        }
+        console.error("Error accessing camera:", err);
+        setErrorMsg(t(getCameraErrorMessage(err)));
+        navigate(AppState.ERROR);
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [appState, cameraSettings.facingMode, cameraSettings.deviceId, navigate, stopCamera, t]);
+
   const capturePhoto = useCallback(() => {
     if (videoRef.current && canvasRef.current) {
       const video = videoRef.current;
@@ -60,34 +250,134 @@ const App: React.FC = () => {
         canvas.width = video.videoWidth;
         canvas.height = video.videoHeight;
         
-        // Flip horizontally for mirror effect if needed, but usually better to keep raw for analysis
-        // Drawing raw image
+        // Always the raw frame, even when the preview is mirrored: the analysis and
+        // the profile checks expect the camera's own view
         context.drawImage(video, 0, 0, canvas.width, canvas.height);
         
         const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
         
-        setCapturedImages(prev => {
-          const newImages = [...prev, dataUrl];
-          
-          // If we just took the 3rd photo (index 2)
-          if (newImages.length === 3) {
-            stopCamera();
-            setAppState(AppState.PREVIEW);
-          } else {
-            // Move to next step
-            setCaptureStep(prevStep => prevStep + 1);
-          }
-          return newImages;
-        });
+        const newImages = [...capturedImages, dataUrl];
+        setCapturedImages(newImages);
+
+        // If we just took the last photo; leaving the camera screen stops the stream
+        if (newImages.length >= captureTotal) {
+          navigate(AppState.PREVIEW, { context: { captureCount: newImages.length } });
+        } else {
+          // Move to next step
+          setCaptureStep(newImages.length);
+        }
       }
     }
-  }, [stopCamera]);
+  }, [capturedImages, captureTotal, navigate]);
+
+  // The shutter button: takes the photo now, or starts the self-timer. Pressing it
+  // again while the timer runs cancels it.
+  const pressShutter = useCallback(() => {
+    if (countdown !== null) {
+      setCountdown(null);
+    } else if (cameraSettings.countdown > 0) {
+      setCountdown(cameraSettings.countdown);
+    } else {
+      capturePhoto();
+    }
+  }, [countdown, cameraSettings.countdown, capturePhoto]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      capturePhoto();
+      return;
+    }
+    const timer = window.setTimeout(() => setCountdown(prev => (prev === null ? null : prev - 1)), 1000);
+    return () => window.clearTimeout(timer);
+  }, [countdown, capturePhoto]);
+
+  // The auto shutter waits while the self-timer runs
+  const autoShutter = autoCapture && countdown === null;
+
+  // Live face/pose/quality checks while the camera is open
+  useEffect(() => {
+    if (appState !== AppState.CAMERA) return;
+
+    let cancelled = false;
+    let busy = false;
+    let streak = 0;
+    setCaptureFeedback(null);
+    setReadyStreak(0);
+
+    // No face to check on the back of the head; that photo is always taken by hand
+    if (captureStep >= CAPTURE_ANGLES.length) return;
+
+    const timer = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (busy || !video) return;
+      busy = true;
+      try {
+        const metrics = await measureFrame(video);
+        if (cancelled || !metrics) return;
+
+        const feedback = assessCapture(metrics, CAPTURE_ANGLES[captureStep]);
+        setCaptureFeedback(feedback);
+        streak = feedback.canAutoCapture ? streak + 1 : 0;
+        setReadyStreak(streak);
+
+        if (autoShutter && streak >= AUTO_CAPTURE_STREAK) {
+          streak = 0;
+          capturePhoto();
+        }
+      } catch (err) {
+        console.error("Frame check failed:", err);
+      } finally {
+        busy = false;
+      }
+    }, FRAME_CHECK_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [appState, captureStep, autoShutter, capturePhoto]);
+
+  // --- Upload Logic ---
+
+  const openUpload = useCallback(() => {
+    setUploadError(null);
+    navigate(AppState.UPLOAD);
+  }, [navigate]);
+
+  // Fills slots starting at `slot`, one file per slot, so a multi-file drop
+  // on the Front slot fills Front, Left and Right in order.
+  const handleUploadFiles = useCallback(async (files: File[], slot: number) => {
+    setUploadError(null);
+    for (let i = 0; i < files.length && slot + i < 3; i++) {
+      const target = slot + i;
+      setUploadingSlot(target);
+      try {
+        const dataUrl = await importImageFile(files[i], { cropToFace });
+        setUploadSlots(prev => prev.map((img, idx) => (idx === target ? dataUrl : img)));
+      } catch (err: any) {
+        console.error("Upload failed:", err);
+        setUploadError(err instanceof ImageImportError ? describeError(t, locale, err, 'upload.failed') : t('upload.failed'));
+      }
+    }
+    setUploadingSlot(null);
+  }, [cropToFace, t, locale]);
+
+  const continueFromUpload = useCallback(() => {
+    if (uploadSlots.some(img => !img)) return;
+    setCapturedImages(uploadSlots as string[]);
+    setCaptureSource('upload');
+    setAnalysisResult(null);
+    setGeneratedImages([]);
+    setSession(null);
+    navigate(AppState.PREVIEW, { context: { captureCount: uploadSlots.length } });
+  }, [uploadSlots, navigate]);
 
   const retakePhoto = useCallback(() => {
-    setCapturedImages([]);
-    setCaptureStep(0);
     setAnalysisResult(null);
     setGeneratedImages([]);
+    setSession(null);
     startCamera();
   }, [startCamera]);
 
@@ -97,66 +387,328 @@ const App: React.FC = () => {
     setAnalysisResult(null);
     setGeneratedImages([]);
     setSelectedIndices([]);
-    setAppState(AppState.IDLE);
-    stopCamera();
-  }, [stopCamera]);
+    setSession(null);
+    setUploadSlots([null, null, null]);
+    setUploadError(null);
+    setConstraints({});
+    setCustomStyle({ name: '', description: '' });
+    setStyleFilters(DEFAULT_STYLE_FILTERS);
+    setSelectedColorIds([]);
+    setIncludeSideViews(false);
+    setCompareKeys([]);
+    setShowCompare(false);
+    setShowConsent(false);
+    setGenerationBatch([]);
+    abortRef.current?.abort();
+    abortRef.current = null;
+    navigate(AppState.IDLE);
+  }, [navigate]);
 
   // --- Analysis & Generation Logic ---
 
-  const performAnalysis = useCallback(async () => {
-    if (capturedImages.length === 0) return;
+  const getRequestError = useCallback((err: unknown, fallback: MessageKey): string =>
+    describeError(t, locale, err, fallback), [t, locale]);
 
+  // Runs on the photos the user consented to upload; they replace the raw captures
+  // so renders and history only ever use what was sent.
+  const performAnalysis = useCallback(async (images: string[], consentedAt: number) => {
+    if (images.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
       // 1. Analyze (Send all 3 images)
-      setAppState(AppState.ANALYZING);
-      const analysis = await analyzeFace(capturedImages);
+      setCapturedImages(images);
+      navigate(AppState.ANALYZING);
+      // Created up front so the analysis's usage is recorded against this consultation
+      const sessionId = createId();
+      const analysis = await analyzeFace(images, { constraints, locale }, controller.signal, { bypassCache: freshResults, sessionId });
       setAnalysisResult(analysis);
+      setGeneratedImages([]);
+      setSession({ id: sessionId, createdAt: Date.now(), consentedAt, clientId: activeClient?.id });
       setSelectedIndices([]); // Reset selection
-      setAppState(AppState.SELECTION); // Move to selection screen
+      setStyleFilters(DEFAULT_STYLE_FILTERS);
+      navigate(AppState.SELECTION, { context: { hasAnalysis: true, renderCount: 0 } }); // Move to selection screen
     } catch (err: any) {
+      if (isAbortError(err)) return; // Cancelled, or the user navigated away
       console.error("Analysis failed:", err);
-      setErrorMsg(err.message || "Failed to analyze face.");
-      setAppState(AppState.ERROR);
+      setErrorMsg(err instanceof AnalysisValidationError
+        ? t('analysis.incomplete')
+        : getRequestError(err, 'analysis.failed'));
+      navigate(AppState.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [constraints, locale, freshResults, activeClient, t, getRequestError, navigate]);
+
+  // --- Privacy ---
+
+  const changeBackgroundMode = useCallback((mode: BackgroundMode) => {
+    saveBackgroundMode(mode);
+    setBackgroundMode(mode);
+  }, []);
+
+  // Prepared again whenever the dialog opens or the background mode changes
+  useEffect(() => {
+    if (!showConsent) return;
+    let cancelled = false;
+    setUploadImages(null);
+    setPrepareError(null);
+    prepareForUpload(capturedImages, backgroundMode)
+      .then(images => { if (!cancelled) setUploadImages(images); })
+      .catch(err => {
+        console.error("Failed to prepare photos:", err);
+        if (!cancelled) setPrepareError(t('privacy.prepareFailed'));
+      });
+    return () => { cancelled = true; };
+  }, [showConsent, capturedImages, backgroundMode, t]);
+
+  const confirmConsent = useCallback(() => {
+    if (!uploadImages) return;
+    setShowConsent(false);
+    performAnalysis(uploadImages, Date.now());
+  }, [uploadImages, performAnalysis]);
+
+  const deleteEverything = useCallback(async () => {
+    setConfirmingDelete(false);
+    try {
+      await deleteAllData();
+    } catch (err) {
+      console.error("Failed to delete data:", err);
+      setErrorMsg(t('privacy.deleteFailed'));
+      navigate(AppState.ERROR);
+      return;
     }
-  }, [capturedImages]);
+    setHistory([]);
+    setUsageRecords([]);
+    setClients([]);
+    setActiveClient(null);
+    setOpenClientId(null);
+    setCameraSettings(DEFAULT_CAMERA_SETTINGS);
+    setBackgroundMode(loadBackgroundMode());
+    resetApp();
+  }, [resetApp, t, navigate]);
 
   const toggleSelection = (index: number) => {
     setSelectedIndices(prev => {
       if (prev.includes(index)) {
         return prev.filter(i => i !== index);
       } else {
-        if (prev.length >= 2) return prev; // Max 2
+        if (prev.length >= MAX_SELECTED_STYLES) return prev;
         return [...prev, index];
       }
     });
   };
 
-  const generateSelected = useCallback(async () => {
-    if (!analysisResult || selectedIndices.length === 0) return;
+  const toggleColor = (id: string) => {
+    setSelectedColorIds(prev => {
+      if (prev.includes(id)) return prev.filter(c => c !== id);
+      if (prev.length >= MAX_COLOR_SELECTION) return prev;
+      return [...prev, id];
+    });
+  };
 
-    try {
-      setAppState(AppState.GENERATING);
-      const frontImage = capturedImages[0];
-      
-      // Filter suggestions based on selection
-      const selectedSuggestions = analysisResult.suggestions.filter((_, idx) => selectedIndices.includes(idx));
+  const toggleCompare = (variantKey: string) => {
+    setCompareKeys(prev => {
+      if (prev.includes(variantKey)) return prev.filter(k => k !== variantKey);
+      return [...prev, variantKey].slice(-2); // Original + up to two renders
+    });
+  };
 
-      // Generate images in parallel
-      const promises = selectedSuggestions.map(async (suggestion) => {
-        const url = await generateHairstyleImage(frontImage, suggestion.name, suggestion.description);
-        return { hairstyleName: suggestion.name, imageUrl: url };
-      });
+  const updateGenerated = useCallback((renderKey: string, patch: Partial<GeneratedImage>) => {
+    setGeneratedImages(prev => prev.map(g => getRenderKey(g) === renderKey ? { ...g, ...patch } : g));
+  }, []);
 
-      const images = await Promise.all(promises);
-      setGeneratedImages(images);
-      setAppState(AppState.RESULTS);
+  // Renders one style/color variant from one angle and records its outcome on its
+  // own entry; never throws, so one failed render can't discard its siblings.
+  // Side views pass the finished front render as a reference to keep the style consistent.
+  const renderStyle = useCallback(async (
+    suggestion: HairstyleSuggestion,
+    color?: AppliedColor,
+    angle: CaptureAngle = CaptureAngle.FRONT,
+    referenceImage?: string,
+    signal?: AbortSignal
+  ): Promise<string | undefined> => {
+    const key = getRenderKey({ hairstyleName: suggestion.name, color, angle });
+    if (angle !== CaptureAngle.FRONT && !referenceImage) {
+      updateGenerated(key, { status: GenerationStatus.FAILED, error: t('generation.frontFirst') });
+      return undefined;
+    }
 
+    updateGenerated(key, { status: GenerationStatus.PENDING, error: undefined });
+    try {
+      const url = await generateHairstyleImage(
+        capturedImages[getCaptureIndex(angle)],
+        suggestion.name,
+        suggestion.description,
+        { constraints, color, angle, referenceImage },
+        signal,
+        { bypassCache: freshResults, sessionId: sessionIdRef.current }
+      );
+      updateGenerated(key, {
+        status: GenerationStatus.DONE,
+        imageUrl: url,
+        versions: [{ imageUrl: url, createdAt: Date.now() }],
+        versionIndex: 0,
+      });
+      return url;
     } catch (err: any) {
-      console.error("Generation failed:", err);
-      setErrorMsg(err.message || "Failed to generate images.");
-      setAppState(AppState.ERROR);
+      // Cancelled renders are removed by cancelGeneration, not marked failed
+      if (isAbortError(err)) return undefined;
+      console.error(`Generation failed for ${key}:`, err);
+      updateGenerated(key, {
+        status: GenerationStatus.FAILED,
+        error: getRequestError(err, 'generation.failed'),
+      });
+      return undefined;
+    }
+  }, [capturedImages, constraints, freshResults, updateGenerated, getRequestError, t]);
+
+  const addCustomStyle = useCallback(() => {
+    const name = customStyle.name.trim();
+    if (!analysisResult || !name) return;
+
+    // Names are how renders are matched back to suggestions, so keep them unique
+    const taken = analysisResult.suggestions.map(s => s.name.toLowerCase());
+    let uniqueName = name;
+    for (let n = 2; taken.includes(uniqueName.toLowerCase()); n++) {
+      uniqueName = `${name} ${n}`;
     }
-  }, [analysisResult, selectedIndices, capturedImages]);
+
+    const suggestion: HairstyleSuggestion = {
+      name: uniqueName,
+      description: customStyle.description.trim() || name,
+      reasoning: t('selection.ownReasoning'),
+      custom: true,
+    };
+    const newIndex = analysisResult.suggestions.length;
+    setAnalysisResult({ ...analysisResult, suggestions: [...analysisResult.suggestions, suggestion] });
+    setSelectedIndices(prev => (prev.length >= MAX_SELECTED_STYLES ? prev : [...prev, newIndex]));
+    setCustomStyle({ name: '', description: '' });
+  }, [analysisResult, customStyle, t]);
+
+  const generateStyles = useCallback(async (indices: number[]) => {
+    if (!analysisResult || indices.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    navigate(AppState.GENERATING);
+
+    // Filter suggestions based on selection, then expand into style x color variants
+    const selectedSuggestions = analysisResult.suggestions.filter((_, idx) => indices.includes(idx));
+    const colors: (AppliedColor | undefined)[] = selectedColorIds.length > 0
+      ? selectedColorIds.map(id => ({ id, name: getHairColor(id)?.name ?? id, technique: colorTechnique }))
+      : [undefined];
+    const variants = selectedSuggestions.flatMap(suggestion => colors.map(color => ({ suggestion, color })));
+    const variantKeys = variants.map(v => getVariantKey({ hairstyleName: v.suggestion.name, color: v.color }));
+    const angles = includeSideViews ? CAPTURE_ANGLES : [CaptureAngle.FRONT];
+
+    const batch: GeneratedImage[] = variants.flatMap(v => angles.map(angle => ({
+      hairstyleName: v.suggestion.name,
+      color: v.color,
+      angle: angle === CaptureAngle.FRONT ? undefined : angle,
+      status: GenerationStatus.PENDING,
+    })));
+
+    // Keep renders from earlier rounds (e.g. a reopened session) alongside the new ones
+    setGeneratedImages(prev => [...prev.filter(g => !variantKeys.includes(getVariantKey(g))), ...batch]);
+    setGenerationBatch(batch.map(getRenderKey));
+
+    // Generate variants in parallel; each settles independently and shows up on
+    // the progress screen as it lands. Side views wait for their front render so
+    // they can be matched against it.
+    await Promise.all(variants.map(async v => {
+      const front = await renderStyle(v.suggestion, v.color, CaptureAngle.FRONT, undefined, controller.signal);
+      if (angles.length > 1 && !controller.signal.aborted) {
+        await Promise.all(angles.slice(1).map(angle =>
+          renderStyle(v.suggestion, v.color, angle, front, controller.signal)
+        ));
+      }
+    }));
+
+    if (controller.signal.aborted) return;
+    if (abortRef.current === controller) abortRef.current = null;
+    // The user may already have moved on to the results (or elsewhere)
+    if (appStateRef.current === AppState.GENERATING) navigate(AppState.RESULTS);
+  }, [analysisResult, selectedColorIds, colorTechnique, includeSideViews, renderStyle, navigate]);
+
+  const generateSelected = useCallback(() => generateStyles(selectedIndices), [generateStyles, selectedIndices]);
+
+  // Every suggestion in one round, regardless of the selection limit
+  const generateAll = useCallback(() => {
+    if (!analysisResult) return;
+    generateStyles(analysisResult.suggestions.map((_, idx) => idx));
+  }, [analysisResult, generateStyles]);
+
+  // Stops the running analysis or generation round. Finished renders are kept,
+  // unfinished ones of the round are dropped.
+  const stopRunningStep = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setGeneratedImages(prev => prev.filter(g =>
+      !(g.status === GenerationStatus.PENDING && generationBatch.includes(getRenderKey(g)))
+    ));
+  }, [generationBatch]);
+
+  const cancelAnalysis = useCallback(() => {
+    stopRunningStep();
+    navigate(AppState.PREVIEW);
+  }, [stopRunningStep, navigate]);
+
+  const cancelGeneration = useCallback(() => {
+    stopRunningStep();
+    navigate(AppState.SELECTION);
+  }, [stopRunningStep, navigate]);
+
+  const retryGeneration = useCallback((generated: GeneratedImage) => {
+    const suggestion = analysisResult?.suggestions.find(s => s.name === generated.hairstyleName);
+    if (!suggestion) return;
+
+    const angle = getAngle(generated);
+    const front = generatedImages.find(g => getRenderKey(g) === getVariantKey(generated));
+    renderStyle(suggestion, generated.color, angle, angle === CaptureAngle.FRONT ? undefined : front?.imageUrl);
+  }, [analysisResult, generatedImages, renderStyle]);
+
+  // --- Refinement ---
+
+  // Edits the shown version of a render and appends the result to its history.
+  // Rejects on failure so the card can keep the instruction and show the error.
+  const refineRender = useCallback(async (generated: GeneratedImage, instruction: string) => {
+    if (!generated.imageUrl) return;
+    const suggestion = analysisResult?.suggestions.find(s => s.name === generated.hairstyleName);
+    const angle = getAngle(generated);
+
+    let url: string;
+    try {
+      url = await generateHairstyleImage(
+        capturedImages[getCaptureIndex(angle)],
+        generated.hairstyleName,
+        suggestion?.description ?? generated.hairstyleName,
+        { constraints, color: generated.color, angle, refinement: { instruction, currentImage: generated.imageUrl } },
+        undefined,
+        { bypassCache: freshResults, sessionId: sessionIdRef.current }
+      );
+    } catch (err) {
+      throw new Error(getRequestError(err, 'refine.failed'));
+    }
+
+    const key = getRenderKey(generated);
+    setGeneratedImages(prev => prev.map(g => {
+      if (getRenderKey(g) !== key) return g;
+      const versions = [...getVersions(g), { imageUrl: url, instruction, createdAt: Date.now() }];
+      return { ...g, imageUrl: url, versions, versionIndex: versions.length - 1 };
+    }));
+  }, [analysisResult, capturedImages, constraints, freshResults, getRequestError]);
+
+  const selectVersion = useCallback((generated: GeneratedImage, index: number) => {
+    const key = getRenderKey(generated);
+    setGeneratedImages(prev => prev.map(g => {
+      if (getRenderKey(g) !== key) return g;
+      const versions = getVersions(g);
+      if (!versions[index]) return g;
+      return { ...g, imageUrl: versions[index].imageUrl, versions, versionIndex: index };
+    }));
+  }, []);
 
   const downloadImage = useCallback((dataUrl: string, filename: string) => {
     const link = document.createElement('a');
@@ -167,10 +719,277 @@ const App: React.FC = () => {
     document.body.removeChild(link);
   }, []);
 
-  // --- Cleanup ---
+  const downloadRender = useCallback((generated: GeneratedImage) => {
+    if (!generated.imageUrl) return;
+    const angle = getAngle(generated);
+    const parts = [
+      generated.hairstyleName,
+      generated.color ? formatColorLabel(generated.color) : null,
+      angle === CaptureAngle.FRONT ? null : ANGLE_LABELS[angle],
+      generated.versionIndex ? `v${generated.versionIndex + 1}` : null,
+    ];
+    const slug = parts.filter(Boolean).join('-').replace(/\s+/g, '-').toLowerCase();
+    downloadImage(generated.imageUrl, `styleai-${slug}.png`);
+  }, [downloadImage]);
+
+  // --- Stylist Brief ---
+
+  const exportBrief = useCallback(async (front: GeneratedImage, action: 'print' | 'share') => {
+    const suggestion = analysisResult?.suggestions.find(s => s.name === front.hairstyleName);
+    if (!analysisResult || !suggestion || !front.imageUrl) return;
+
+    const variantKey = getVariantKey(front);
+    const input = {
+      capture: capturedImages[0],
+      faceShape: analysisResult.faceShape,
+      suggestion,
+      render: front,
+      sideViews: generatedImages.filter(g =>
+        getVariantKey(g) === variantKey && getAngle(g) !== CaptureAngle.FRONT && g.status === GenerationStatus.DONE
+      ),
+      constraints,
+      createdAt: session?.createdAt,
+      locale,
+    };
+    const html = buildStylistBrief(input);
+
+    try {
+      if (action === 'print') {
+        await printStylistBrief(html);
+      } else {
+        await shareStylistBrief(html, getBriefFileName(input), t('brief.documentTitle', { style: suggestion.name }));
+      }
+    } catch (err) {
+      console.error("Failed to export stylist brief:", err);
+      throw new Error(t(action === 'print' ? 'brief.printFailed' : 'brief.shareFailed'));
+    }
+  }, [analysisResult, capturedImages, generatedImages, constraints, session, locale, t]);
+
+  // --- History ---
+
+  // Persist the active consultation whenever its analysis or renders change
+  useEffect(() => {
+    if (!session || !analysisResult) return;
+    saveSession({
+      id: session.id,
+      createdAt: session.createdAt,
+      consentedAt: session.consentedAt,
+      clientId: session.clientId,
+      capturedImages,
+      analysis: analysisResult,
+      generatedImages,
+      constraints,
+    }).catch(err => console.error("Failed to save session:", err));
+  }, [session, analysisResult, capturedImages, generatedImages, constraints]);
+
+  const openHistory = useCallback(() => navigate(AppState.HISTORY), [navigate]);
+
+  // The saved lists are read every time the history or clients screen is entered;
+  // history shows which client each consultation belongs to
+  useEffect(() => {
+    if (appState !== AppState.HISTORY) return;
+    let cancelled = false;
+    listSessions()
+      .then(sessions => { if (!cancelled) setHistory(sessions); })
+      .catch(err => {
+        console.error("Failed to load history:", err);
+        if (!cancelled) setHistory([]);
+      });
+    return () => { cancelled = true; };
+  }, [appState]);
+
   useEffect(() => {
-    return () => stopCamera();
-  }, [stopCamera]);
+    if (appState !== AppState.HISTORY && appState !== AppState.CLIENTS) return;
+    let cancelled = false;
+    listClients()
+      .then(list => { if (!cancelled) setClients(list); })
+      .catch(err => {
+        console.error("Failed to load clients:", err);
+        if (!cancelled) setClients([]);
+      });
+    return () => { cancelled = true; };
+  }, [appState]);
+
+  // --- Clients ---
+
+  const openClients = useCallback(() => {
+    setOpenClientId(null);
+    setClientNotice(null);
+    navigate(AppState.CLIENTS);
+  }, [navigate]);
+
+  const storeClient = useCallback(async (client: ClientProfile) => {
+    try {
+      await saveClient(client);
+      setClients(prev => [...prev.filter(c => c.id !== client.id), client]
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })));
+      setActiveClient(prev => (prev?.id === client.id ? client : prev));
+    } catch (err) {
+      console.error("Failed to save client:", err);
+    }
+  }, []);
+
+  const createClient = useCallback((draft: ClientDraft) => {
+    const now = Date.now();
+    const client: ClientProfile = { id: createId(), ...draft, createdAt: now, updatedAt: now };
+    storeClient(client);
+    setOpenClientId(client.id);
+  }, [storeClient]);
+
+  const updateClient = useCallback((client: ClientProfile, draft: ClientDraft) => {
+    storeClient({ ...client, ...draft, updatedAt: Date.now() });
+  }, [storeClient]);
+
+  const removeClient = useCallback(async (id: string) => {
+    try {
+      await deleteClient(id);
+      setClients(prev => prev.filter(c => c.id !== id));
+      setActiveClient(prev => (prev?.id === id ? null : prev));
+      setSession(prev => (prev?.clientId === id ? null : prev));
+      setOpenClientId(null);
+    } catch (err) {
+      console.error("Failed to delete client:", err);
+    }
+  }, []);
+
+  const exportClient = useCallback((client: ClientProfile, sessions: ConsultationSession[]) => {
+    downloadClientArchive(buildClientArchive(client, sessions));
+  }, []);
+
+  const importClient = useCallback(async (file: File) => {
+    try {
+      const archive = parseClientArchive(await file.text());
+      await saveClientArchive(archive);
+      setClients(await listClients());
+      setClientNotice({ text: t('clients.imported', { name: archive.client.name, count: archive.sessions.length }), error: false });
+    } catch (err) {
+      console.error("Failed to import client:", err);
+      setClientNotice({ text: err instanceof ClientArchiveError ? t('clients.invalidArchive') : t('clients.importFailed'), error: true });
+    }
+  }, [t]);
+
+  // New captures attach to this client until another one is picked or it's cleared
+  const startClientConsultation = useCallback((client: ClientProfile) => {
+    resetApp();
+    setActiveClient(client);
+    startCamera();
+  }, [resetApp, startCamera]);
+
+  // --- Usage ---
+
+  const openUsage = useCallback(() => navigate(AppState.USAGE), [navigate]);
+
+  useEffect(() => {
+    if (appState !== AppState.USAGE) return;
+    let cancelled = false;
+    listUsage()
+      .then(records => { if (!cancelled) setUsageRecords(records); })
+      .catch(err => {
+        console.error("Failed to load usage:", err);
+        if (!cancelled) setUsageRecords([]);
+      });
+    return () => { cancelled = true; };
+  }, [appState]);
+
+  const resetUsage = useCallback(async () => {
+    try {
+      await clearUsage();
+      setUsageRecords([]);
+    } catch (err) {
+      console.error("Failed to clear usage:", err);
+    }
+  }, []);
+
+  const loadSession = useCallback((saved: ConsultationSession) => {
+    // A round still running in the background belongs to the previous session
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setCapturedImages(saved.capturedImages);
+    setCaptureStep(0);
+    setAnalysisResult(saved.analysis);
+    setGeneratedImages(saved.generatedImages);
+    setConstraints(saved.constraints ?? {});
+    setSelectedIndices([]);
+    setStyleFilters(DEFAULT_STYLE_FILTERS);
+    setSession({ id: saved.id, createdAt: saved.createdAt, consentedAt: saved.consentedAt, clientId: saved.clientId });
+    sessionIdRef.current = saved.id;
+  }, []);
+
+  const openSession = useCallback((saved: ConsultationSession, target: AppState.SELECTION | AppState.RESULTS) => {
+    loadSession(saved);
+    navigate(target, { context: { captureCount: saved.capturedImages.length, hasAnalysis: true, renderCount: saved.generatedImages.length } });
+  }, [loadSession, navigate]);
+
+  const removeSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      setHistory(prev => prev.filter(h => h.id !== id));
+      setSession(prev => (prev?.id === id ? null : prev));
+    } catch (err) {
+      console.error("Failed to delete session:", err);
+    }
+  }, []);
+
+  // --- Routing ---
+
+  // Shows the screen a URL points to (back/forward or a deep link) when the data
+  // for it is available; otherwise puts the URL back to the current screen.
+  const applyRoute = useCallback(async (route: Route | null) => {
+    const from = appStateRef.current;
+    let context = flowRef.current;
+
+    if (route?.sessionId && route.sessionId !== sessionIdRef.current) {
+      const saved = await getSession(route.sessionId).catch(() => undefined);
+      if (saved) {
+        loadSession(saved);
+        context = { captureCount: saved.capturedImages.length, hasAnalysis: true, renderCount: saved.generatedImages.length };
+      } else {
+        route = null;
+      }
+    }
+
+    if (!route || !canEnter(route.state, context)) {
+      window.history.replaceState({ appState: from }, '', getRoutePath(from, sessionIdRef.current));
+      return;
+    }
+    if (route.state === from) return;
+
+    // Leaving a running step through the history cancels it
+    if (isTransient(from)) stopRunningStep();
+    appStateRef.current = route.state;
+    setAppState(route.state);
+  }, [loadSession, stopRunningStep]);
+
+  useEffect(() => {
+    const onPopState = () => applyRoute(parseRoute(window.location.hash));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [applyRoute]);
+
+  // Deep link on first load only; later URL changes arrive through popstate
+  const initialRouteRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (initialRouteRef.current) return;
+    initialRouteRef.current = true;
+    applyRoute(parseRoute(window.location.hash));
+  }, [applyRoute]);
+
+  // Keep the URL in step with the screen, e.g. once an analysis has created a session id
+  useEffect(() => {
+    const path = getRoutePath(appState, session?.id);
+    if (window.location.hash !== path) window.history.replaceState({ appState }, '', path);
+  }, [appState, session?.id]);
+
+  // --- Connectivity ---
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
 
 
   // --- Renders ---
@@ -184,71 +1003,300 @@ const App: React.FC = () => {
         Style<span className="font-semibold">AI</span>
       </h1>
       <p className="text-zinc-400 max-w-md text-lg font-light mb-12">
-        Discover your perfect look. We analyze your face shape from 3 angles to visualize tailored hairstyles instantly.
+        {t('idle.tagline')}
       </p>
+      {activeClient && (
+        <div className="-mt-6 mb-8 flex items-center gap-3 px-4 py-2 rounded-full bg-zinc-900 border border-zinc-800 text-sm text-zinc-300">
+          <UsersIcon className="w-4 h-4 text-zinc-500" />
+          {t('idle.forClient', { name: activeClient.name })}
+          <button onClick={openClients} className="text-zinc-500 hover:text-white transition-colors">{t('idle.changeClient')}</button>
+          <button onClick={() => setActiveClient(null)} className="text-zinc-500 hover:text-white" aria-label={t('idle.clearClient')}>
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {!isOnline && (
+        <div className="-mt-6 mb-10 flex items-center gap-3 max-w-md px-4 py-3 rounded-xl bg-zinc-900 border border-zinc-800 text-start text-sm text-zinc-400">
+          <WifiOffIcon className="w-5 h-5 flex-shrink-0 text-zinc-500" />
+          {t('idle.offline')}
+        </div>
+      )}
       <button
         onClick={startCamera}
         className="group relative px-8 py-4 bg-white text-black font-medium rounded-full overflow-hidden transition-all hover:scale-105 focus:outline-none focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-black"
       >
         <span className="relative z-10 flex items-center gap-2">
           <CameraIcon className="w-5 h-5" />
-          Start Analysis
+          {t('idle.start')}
         </span>
       </button>
+      <button
+        onClick={openHistory}
+        className="mt-6 flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+      >
+        <ClockIcon className="w-4 h-4" />
+        {t('idle.history')}
+      </button>
+      <button
+        onClick={openClients}
+        className="mt-3 flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+      >
+        <UsersIcon className="w-4 h-4" />
+        {t('idle.clients')}
+      </button>
+      <button
+        onClick={openUpload}
+        className="mt-3 flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+      >
+        <UploadIcon className="w-4 h-4" />
+        {t('idle.upload')}
+      </button>
+      <button
+        onClick={openUsage}
+        className="mt-3 flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+      >
+        <BarChartIcon className="w-4 h-4" />
+        {t('idle.usage')}
+      </button>
+      <label className="mt-10 flex items-center gap-2 text-xs text-zinc-500">
+        {t('idle.language')}
+        <select
+          value={locale}
+          onChange={e => setLocale(e.target.value as Locale)}
+          className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-sm text-zinc-300 focus:outline-none focus:border-zinc-500"
+        >
+          {SUPPORTED_LOCALES.map(l => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+        </select>
+      </label>
+      {confirmingDelete ? (
+        <div className="mt-6 flex flex-col items-center gap-3 max-w-xs text-xs text-zinc-400">
+          <p>{t('privacy.deleteConfirm')}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={deleteEverything}
+              className="px-4 py-1.5 rounded-full bg-red-500/90 text-white font-medium hover:bg-red-500 transition-colors"
+            >
+              {t('privacy.deleteNow')}
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(false)}
+              className="px-4 py-1.5 rounded-full border border-zinc-700 text-zinc-300 hover:text-white transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setConfirmingDelete(true)}
+          className="mt-6 flex items-center gap-2 text-xs text-zinc-500 hover:text-red-400 transition-colors"
+        >
+          <TrashIcon className="w-3.5 h-3.5" />
+          {t('privacy.deleteAll')}
+        </button>
+      )}
     </div>
   );
 
+  const renderUpload = () => {
+    const labels = [t('angle.FRONT'), t('angle.leftProfile'), t('angle.rightProfile')];
+    const complete = uploadSlots.every(Boolean);
+
+    return (
+      <div className="min-h-[100dvh] flex flex-col bg-zinc-950">
+        <header className="p-4 flex items-center gap-3 border-b border-zinc-800">
+          <button onClick={resetApp} className="p-1 text-zinc-400 hover:text-white" aria-label={t('common.back')}>
+            <ChevronLeftIcon className="w-6 h-6 rtl:rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-xl font-light text-white">{t('upload.title')}</h2>
+            <p className="text-xs text-zinc-400">{t('upload.subtitle')}</p>
+          </div>
+        </header>
+
+        <main className="flex-1 max-w-3xl w-full mx-auto p-6 flex flex-col gap-6">
+          <div className="grid grid-cols-3 gap-3">
+            {labels.map((label, idx) => (
+              <PhotoDropZone
+                key={idx}
+                label={label}
+                image={uploadSlots[idx]}
+                busy={uploadingSlot === idx}
+                onFiles={files => handleUploadFiles(files, idx)}
+                onClear={() => setUploadSlots(prev => prev.map((img, i) => (i === idx ? null : img)))}
+              />
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-white w-4 h-4"
+              checked={cropToFace}
+              onChange={e => setCropToFace(e.target.checked)}
+            />
+            {t('upload.cropToFace')}
+          </label>
+
+          {uploadError && <p className="text-sm text-red-400">{uploadError}</p>}
+        </main>
+
+        <div className="p-8 bg-zinc-900 border-t border-zinc-800 flex justify-center safe-area-pb">
+          <button
+            onClick={continueFromUpload}
+            disabled={!complete || uploadingSlot !== null}
+            className="w-full max-w-xs py-3 px-6 rounded-lg bg-white text-black font-medium hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2 disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed"
+          >
+            <CheckIcon className="w-4 h-4" />
+            {t('common.continue')}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   const renderCamera = () => {
     const instructions = [
-      { text: "Front View", sub: "Look straight at the camera" },
-      { text: "Left Profile", sub: "Turn your head slightly to the right" },
-      { text: "Right Profile", sub: "Turn your head slightly to the left" }
+      { text: t('angle.frontView'), sub: t('camera.frontHint') },
+      { text: t('angle.leftProfile'), sub: t('camera.leftHint') },
+      { text: t('angle.rightProfile'), sub: t('camera.rightHint') },
+      { text: t('angle.backView'), sub: t('camera.backHint') }
     ];
     
     const currentInstruction = instructions[captureStep];
+    const onBackStep = captureStep >= CAPTURE_ANGLES.length;
+    const nextCountdown = COUNTDOWN_OPTIONS[(COUNTDOWN_OPTIONS.indexOf(cameraSettings.countdown) + 1) % COUNTDOWN_OPTIONS.length];
+    const toggleClass = (active: boolean) => `px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+      active ? 'bg-white text-black border-white' : 'bg-black/40 text-zinc-300 border-white/20'
+    }`;
 
+    // The camera overlay lines up with what the lens sees, so it stays left-to-right
     return (
-      <div className="relative h-[100dvh] w-full bg-black overflow-hidden flex flex-col">
+      <div dir="ltr" className="relative h-[100dvh] w-full bg-black overflow-hidden flex flex-col">
         <video
           ref={videoRef}
           autoPlay
           playsInline
           muted
-          className="flex-1 w-full h-full object-cover"
+          className={`flex-1 w-full h-full object-cover ${cameraSettings.mirror ? '-scale-x-100' : ''}`}
         />
         <canvas ref={canvasRef} className="hidden" />
         
         {/* Visual Guide Overlay */}
         <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
            {/* Face Guide Oval */}
-           <div className="w-64 h-80 md:w-80 md:h-96 rounded-[50%] border-2 border-white/40 shadow-[0_0_100px_rgba(0,0,0,0.5)_inset] bg-transparent backdrop-grayscale-0" />
+           <div className={`w-64 h-80 md:w-80 md:h-96 rounded-[50%] border-2 transition-colors shadow-[0_0_100px_rgba(0,0,0,0.5)_inset] bg-transparent backdrop-grayscale-0 ${
+             captureFeedback?.ready ? 'border-green-400/80' : 'border-white/40'
+           }`} />
+           {!!countdown && (
+             <span className="absolute text-8xl font-light text-white drop-shadow-lg" aria-live="assertive">{countdown}</span>
+           )}
         </div>
 
         {/* Top Instructions */}
         <div className="absolute top-0 left-0 w-full pt-12 pb-6 flex flex-col items-center bg-gradient-to-b from-black/80 to-transparent z-10">
            <div className="flex gap-2 mb-3">
-             {[0, 1, 2].map(step => (
+             {Array.from({ length: captureTotal }, (_, step) => (
                <div key={step} className={`w-2 h-2 rounded-full transition-colors ${step === captureStep ? 'bg-white' : step < captureStep ? 'bg-green-500' : 'bg-zinc-600'}`} />
              ))}
            </div>
            <h2 className="text-2xl font-semibold text-white drop-shadow-md">{currentInstruction.text}</h2>
            <p className="text-zinc-300 text-sm drop-shadow-md">{currentInstruction.sub}</p>
+           {captureFeedback && (
+             <div className={`mt-3 px-3 py-1 rounded-full text-sm font-medium backdrop-blur-md ${
+               captureFeedback.ready ? 'bg-green-500/20 text-green-300' : 'bg-black/50 text-amber-300'
+             }`}>
+               {t(captureFeedback.message)}
+             </div>
+           )}
         </div>
         
         {/* Bottom Controls */}
-        <div className="absolute bottom-0 left-0 w-full p-10 flex justify-center items-center bg-gradient-to-t from-black/80 to-transparent z-10 safe-area-pb">
-          <button
-            onClick={capturePhoto}
-            className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center transition-transform hover:scale-95 active:scale-90"
-            aria-label="Take Photo"
-          >
-             <div className="w-16 h-16 bg-white rounded-full" />
-          </button>
+        <div className="absolute bottom-0 left-0 w-full px-6 pt-10 pb-8 flex flex-col items-center gap-6 bg-gradient-to-t from-black/80 to-transparent z-10 safe-area-pb">
+          {/* Capture settings */}
+          <div className="flex flex-wrap justify-center gap-2">
+            {cameras.length > 1 && (
+              <select
+                value={activeDeviceId ?? ''}
+                onChange={e => updateCameraSettings(() => ({ deviceId: e.target.value || undefined }))}
+                aria-label={t('camera.select')}
+                className="max-w-[10rem] truncate px-3 py-1.5 rounded-full text-xs bg-black/40 text-zinc-300 border border-white/20 focus:outline-none focus:border-white/60"
+              >
+                {cameras.map((camera, idx) => (
+                  <option key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || t('camera.deviceName', { number: idx + 1 })}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => updateCameraSettings(prev => ({ mirror: !prev.mirror }))}
+              className={toggleClass(cameraSettings.mirror)}
+              aria-pressed={cameraSettings.mirror}
+              title={t('camera.mirrorTitle')}
+            >
+              {t('camera.mirror')}
+            </button>
+            <button
+              onClick={() => updateCameraSettings(() => ({ countdown: nextCountdown }))}
+              className={toggleClass(cameraSettings.countdown > 0)}
+            >
+              {cameraSettings.countdown > 0 ? t('camera.timer', { seconds: cameraSettings.countdown }) : t('camera.timerOff')}
+            </button>
+            <button
+              onClick={() => updateCameraSettings(prev => ({ captureBack: !prev.captureBack }))}
+              disabled={onBackStep}
+              className={`${toggleClass(cameraSettings.captureBack)} disabled:opacity-50`}
+              aria-pressed={cameraSettings.captureBack}
+              title={t('camera.backOfHeadTitle')}
+            >
+              {t('camera.backOfHead')}
+            </button>
+          </div>
+
+          <div className="relative w-full flex justify-center items-center">
+            {!onBackStep && (
+              <button
+                onClick={() => setAutoCapture(prev => !prev)}
+                className={`absolute left-0 ${toggleClass(autoCapture)}`}
+                title={t('camera.autoTitle')}
+              >
+                {autoCapture ? t('camera.autoOn') : t('camera.autoOff')}
+              </button>
+            )}
+            <button
+              onClick={pressShutter}
+              className="relative w-20 h-20 rounded-full border-4 border-white flex items-center justify-center transition-transform hover:scale-95 active:scale-90"
+              aria-label={countdown !== null ? t('camera.cancelTimer') : t('camera.shutter')}
+            >
+               <div className={countdown !== null ? 'w-8 h-8 bg-red-500 rounded-md' : 'w-16 h-16 bg-white rounded-full'} />
+               {/* Auto-shutter progress */}
+               {autoShutter && readyStreak > 0 && (
+                 <svg className="absolute -inset-1 w-[88px] h-[88px] -rotate-90" viewBox="0 0 88 88">
+                   <circle
+                     cx="44" cy="44" r="42" fill="none" stroke="#4ade80" strokeWidth="4"
+                     strokeDasharray={2 * Math.PI * 42}
+                     strokeDashoffset={2 * Math.PI * 42 * (1 - Math.min(readyStreak, AUTO_CAPTURE_STREAK) / AUTO_CAPTURE_STREAK)}
+                   />
+                 </svg>
+               )}
+            </button>
+            {cameras.length > 1 && (
+              <button
+                onClick={flipCamera}
+                className="absolute right-0 p-3 rounded-full bg-black/40 border border-white/20 text-white hover:bg-black/60 transition-colors"
+                aria-label={t('camera.flip')}
+              >
+                <RefreshCwIcon className="w-5 h-5" />
+              </button>
+            )}
+          </div>
         </div>
         
         <button 
           onClick={resetApp}
           className="absolute top-6 right-6 p-2 bg-black/50 backdrop-blur-md rounded-full text-white hover:bg-black/70 z-20"
+          aria-label={t('common.close')}
         >
           <XIcon className="w-6 h-6" />
         </button>
@@ -256,84 +1304,240 @@ const App: React.FC = () => {
     );
   };
 
+  // Shared by the preview (analysis) and selection (renders) screens
+  const renderFreshToggle = (className: string) => (
+    <label className={`flex items-start gap-3 cursor-pointer ${className}`}>
+      <input
+        type="checkbox"
+        className="accent-white w-4 h-4 mt-1"
+        checked={freshResults}
+        onChange={e => setFreshResults(e.target.checked)}
+      />
+      <span>
+        <span className="block text-white font-medium">{t('common.freshResults')}</span>
+        <span className="block text-xs text-zinc-400">{t('common.freshResultsHint')}</span>
+      </span>
+    </label>
+  );
+
   const renderPreview = () => (
     <div className="min-h-[100dvh] flex flex-col bg-zinc-950">
-      <div className="flex-1 overflow-hidden p-6 flex flex-col items-center justify-center gap-6">
-         <h2 className="text-xl font-light text-zinc-300">Review Capture</h2>
+      <div className="flex-1 overflow-y-auto p-6 flex flex-col items-center justify-center gap-6">
+         <h2 className="text-xl font-light text-zinc-300">{t('preview.title')}</h2>
          
          {/* Main Image (Front) */}
          <div className="relative w-full max-w-sm aspect-[3/4] rounded-2xl overflow-hidden border border-zinc-800 shadow-2xl">
            {capturedImages[0] && (
              <img 
                src={capturedImages[0]} 
-               alt="Front View" 
+               alt={t('angle.frontView')} 
                className="w-full h-full object-cover" 
              />
            )}
-           <div className="absolute bottom-2 left-2 px-2 py-1 bg-black/60 rounded text-xs text-white">Front</div>
+           <div className="absolute bottom-2 start-2 px-2 py-1 bg-black/60 rounded text-xs text-white">{t('angle.FRONT')}</div>
          </div>
 
          {/* Side Images */}
          <div className="flex gap-4">
             <div className="relative w-24 h-32 rounded-lg overflow-hidden border border-zinc-800 opacity-80">
-               {capturedImages[1] && <img src={capturedImages[1]} alt="Left" className="w-full h-full object-cover" />}
-               <div className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-black/60 rounded text-[10px] text-white">Left</div>
+               {capturedImages[1] && <img src={capturedImages[1]} alt={t('angle.LEFT')} className="w-full h-full object-cover" />}
+               <div className="absolute bottom-1 start-1 px-1.5 py-0.5 bg-black/60 rounded text-[10px] text-white">{t('angle.LEFT')}</div>
             </div>
             <div className="relative w-24 h-32 rounded-lg overflow-hidden border border-zinc-800 opacity-80">
-               {capturedImages[2] && <img src={capturedImages[2]} alt="Right" className="w-full h-full object-cover" />}
-               <div className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-black/60 rounded text-[10px] text-white">Right</div>
+               {capturedImages[2] && <img src={capturedImages[2]} alt={t('angle.RIGHT')} className="w-full h-full object-cover" />}
+               <div className="absolute bottom-1 start-1 px-1.5 py-0.5 bg-black/60 rounded text-[10px] text-white">{t('angle.RIGHT')}</div>
             </div>
+            {capturedImages[BACK_CAPTURE_INDEX] && (
+              <div className="relative w-24 h-32 rounded-lg overflow-hidden border border-zinc-800 opacity-80">
+                 <img src={capturedImages[BACK_CAPTURE_INDEX]} alt={t('angle.backView')} className="w-full h-full object-cover" />
+                 <div className="absolute bottom-1 start-1 px-1.5 py-0.5 bg-black/60 rounded text-[10px] text-white">{t('angle.BACK')}</div>
+              </div>
+            )}
          </div>
+
+         {/* Optional client constraints for the analysis */}
+         <div className="w-full max-w-sm">
+           <button
+             onClick={() => setShowConstraints(prev => !prev)}
+             className="w-full text-sm text-zinc-400 hover:text-white transition-colors"
+           >
+             {showConstraints ? t('preview.hidePreferences') : hasConstraints(constraints) ? t('preview.editPreferences') : t('preview.addPreferences')}
+           </button>
+           {showConstraints && (
+             <div className="mt-4 p-4 rounded-xl border border-zinc-800 bg-zinc-900/50">
+               <ConstraintsForm value={constraints} onChange={setConstraints} />
+             </div>
+           )}
+         </div>
+
+         {renderFreshToggle('w-full max-w-sm')}
       </div>
       
       <div className="p-8 bg-zinc-900 border-t border-zinc-800 flex justify-center gap-6 safe-area-pb">
         <button
-          onClick={retakePhoto}
+          onClick={captureSource === 'upload' ? openUpload : retakePhoto}
           className="flex-1 max-w-[160px] py-3 px-6 rounded-lg border border-zinc-600 text-zinc-300 font-medium hover:bg-zinc-800 hover:text-white transition-colors flex items-center justify-center gap-2"
         >
           <RefreshCwIcon className="w-4 h-4" />
-          Retake
+          {captureSource === 'upload' ? t('preview.change') : t('preview.retake')}
         </button>
         <button
-          onClick={performAnalysis}
-          className="flex-1 max-w-[160px] py-3 px-6 rounded-lg bg-white text-black font-medium hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2"
+          onClick={() => setShowConsent(true)}
+          disabled={!isOnline}
+          title={isOnline ? undefined : t('preview.needsConnection')}
+          className="flex-1 max-w-[160px] py-3 px-6 rounded-lg bg-white text-black font-medium hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
         >
-          <CheckIcon className="w-4 h-4" />
-          Analyze
+          {isOnline ? <CheckIcon className="w-4 h-4" /> : <WifiOffIcon className="w-4 h-4" />}
+          {t('preview.analyze')}
         </button>
       </div>
+
+      {showConsent && (
+        <ConsentDialog
+          images={uploadImages}
+          labels={capturedImages.map((_, i) => t(`angle.${i === BACK_CAPTURE_INDEX ? 'BACK' : CAPTURE_ANGLES[i]}`))}
+          mode={backgroundMode}
+          error={prepareError}
+          onModeChange={changeBackgroundMode}
+          onCancel={() => setShowConsent(false)}
+          onConfirm={confirmConsent}
+        />
+      )}
     </div>
   );
 
   const renderSelection = () => {
     if (!analysisResult) return null;
 
-    const canGenerate = selectedIndices.length > 0 && selectedIndices.length <= 2;
+    const canGenerate = isOnline && selectedIndices.length > 0 && selectedIndices.length <= MAX_SELECTED_STYLES;
+    const rendersPerStyle = Math.max(1, selectedColorIds.length) * (includeSideViews ? CAPTURE_ANGLES.length : 1);
+    const variantCount = selectedIndices.length * rendersPerStyle;
+    const allCount = analysisResult.suggestions.length * rendersPerStyle;
+    const { features } = analysisResult;
+    const visibleIndices = applyStyleFilters(analysisResult.suggestions, styleFilters);
+    const hasTags = analysisResult.suggestions.some(s => s.tags);
+
+    // Rows without a reading are left out, so partial features still show what's known
+    const featureRows = features ? ([
+      ['selection.featureTexture', features.hairTexture && formatHairTexture(t, features.hairTexture)],
+      ['selection.featureDensity', features.hairDensity && formatHairDensity(t, features.hairDensity)],
+      ['selection.featureLength', features.currentLength && formatHairLength(t, features.currentLength)],
+      ['selection.featureHairline', features.hairline && formatHairline(t, features.hairline)],
+      ['selection.featureForehead', features.forehead && formatProportion(t, features.forehead)],
+      ['selection.featureCheekbones', features.cheekbones && formatProportion(t, features.cheekbones)],
+      ['selection.featureJaw', features.jaw && formatProportion(t, features.jaw)],
+    ] as [MessageKey, string | undefined][]).filter(([, value]) => value) : [];
+
+    const filterSelect = <T extends string>(label: string, value: T | undefined, options: [T, string][], onChange: (value: T | undefined) => void) => (
+      <label className="space-y-1 text-xs text-zinc-500">
+        <span className="block">{label}</span>
+        <select
+          value={value ?? ''}
+          onChange={e => onChange((e.target.value || undefined) as T | undefined)}
+          className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-400"
+        >
+          <option value="">{t('selection.filterAny')}</option>
+          {options.map(([option, optionLabel]) => <option key={option} value={option}>{optionLabel}</option>)}
+        </select>
+      </label>
+    );
 
     return (
       <div className="min-h-[100dvh] bg-zinc-950 text-zinc-100 flex flex-col">
         <header className="sticky top-0 z-20 bg-zinc-950/80 backdrop-blur-md border-b border-zinc-800 p-4 flex justify-between items-center">
            <div>
-             <h2 className="text-xl font-medium">Select Styles</h2>
-             <p className="text-xs text-zinc-400">Choose 1 or 2 styles to generate</p>
+             <h2 className="text-xl font-medium">{t('selection.title')}</h2>
+             <p className="text-xs text-zinc-400">
+               {MAX_SELECTED_STYLES === 1 ? t('selection.chooseOne') : t('selection.chooseUpTo', { max: MAX_SELECTED_STYLES })}
+             </p>
            </div>
            <div className="text-sm font-medium bg-zinc-800 px-3 py-1 rounded-full">
-             {selectedIndices.length} / 2 Selected
+             {t('selection.counter', { count: selectedIndices.length, max: MAX_SELECTED_STYLES })}
            </div>
         </header>
 
         <main className="flex-1 max-w-5xl mx-auto p-6 w-full">
            <div className="mb-6 text-center">
              <h3 className="text-2xl font-light text-zinc-200 mb-2">
-               Your face shape is <span className="text-white font-normal">{analysisResult.faceShape}</span>
+               {t('selection.faceShape', { shape: formatFaceShape(t, analysisResult.faceShape) })}
              </h3>
-             <p className="text-zinc-500">We found 5 styles that match your features perfectly.</p>
+             {features && (
+               <p className="text-sm text-zinc-400 mb-2">
+                 {t('selection.confidence', { percent: formatPercent(locale, features.faceShapeConfidence) })}
+                 {features.runnerUpShapes.length > 0 && <> · {t('selection.runnerUps', {
+                   shapes: formatList(locale, features.runnerUpShapes.map(m => `${formatFaceShape(t, m.shape)} (${formatPercent(locale, m.confidence)})`)),
+                 })}</>}
+               </p>
+             )}
+             <p className="text-zinc-500">{t('selection.found', { count: analysisResult.suggestions.filter(s => !s.custom).length })}</p>
            </div>
 
-           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pb-24">
-             {analysisResult.suggestions.map((suggestion, index) => {
+           {featureRows.length > 0 && (
+             <section className="mb-6">
+               <h3 className="text-xs uppercase tracking-wider font-semibold text-zinc-600 mb-2">{t('selection.features')}</h3>
+               <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                 {featureRows.map(([label, value]) => (
+                   <div key={label} className="px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-800">
+                     <dt className="text-xs text-zinc-500">{t(label)}</dt>
+                     <dd className="text-sm text-zinc-200">{value}</dd>
+                   </div>
+                 ))}
+               </dl>
+             </section>
+           )}
+
+           {/* Filters and sort order, on the suggestions' tags */}
+           {hasTags && (
+             <div className="flex flex-wrap items-end gap-3 mb-6">
+               {filterSelect(
+                 t('selection.filterLength'),
+                 styleFilters.length,
+                 Object.values(HairLength).map(l => [l, formatHairLength(t, l)]),
+                 length => setStyleFilters(prev => ({ ...prev, length })),
+               )}
+               {filterSelect(
+                 t('selection.filterMaintenance'),
+                 styleFilters.maxMaintenance,
+                 Object.values(MaintenanceLevel).map(m => [m, t('constraints.maintenanceAtMost', { level: formatMaintenance(t, m) })]),
+                 maxMaintenance => setStyleFilters(prev => ({ ...prev, maxMaintenance })),
+               )}
+               {filterSelect(
+                 t('selection.filterHairType'),
+                 styleFilters.hairType,
+                 Object.values(HairTexture).map(x => [x, formatHairTexture(t, x)]),
+                 hairType => setStyleFilters(prev => ({ ...prev, hairType })),
+               )}
+               <label className="space-y-1 text-xs text-zinc-500">
+                 <span className="block">{t('selection.sortBy')}</span>
+                 <select
+                   value={styleFilters.sort}
+                   onChange={e => setStyleFilters(prev => ({ ...prev, sort: e.target.value as StyleSort }))}
+                   className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-400"
+                 >
+                   {STYLE_SORTS.map(sort => <option key={sort} value={sort}>{t(`selection.sort.${sort}`)}</option>)}
+                 </select>
+               </label>
+               {hasStyleFilters(styleFilters) && (
+                 <button
+                   onClick={() => setStyleFilters(prev => ({ ...DEFAULT_STYLE_FILTERS, sort: prev.sort }))}
+                   className="px-3 py-2 text-sm text-zinc-400 hover:text-white transition-colors"
+                 >
+                   {t('selection.clearFilters')}
+                 </button>
+               )}
+             </div>
+           )}
+
+           {visibleIndices.length === 0 && (
+             <p className="text-center text-zinc-500 mb-6">{t('selection.noMatches')}</p>
+           )}
+
+           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-10">
+             {visibleIndices.map(index => {
+               const suggestion = analysisResult.suggestions[index];
+               const { tags } = suggestion;
                const isSelected = selectedIndices.includes(index);
-               const isDisabled = !isSelected && selectedIndices.length >= 2;
+               const isDisabled = !isSelected && selectedIndices.length >= MAX_SELECTED_STYLES;
 
                return (
                  <div 
@@ -359,14 +1563,116 @@ const App: React.FC = () => {
                       </div>
                     </div>
                     <p className="text-sm text-zinc-300 mb-4 leading-relaxed">{suggestion.description}</p>
+                    {tags && (
+                      <div className="mb-4 space-y-2">
+                        <div className="flex flex-wrap gap-1.5">
+                          {[
+                            formatHairLength(t, tags.length),
+                            t('selection.maintenanceTag', { level: formatMaintenance(t, tags.maintenance) }),
+                            t('selection.stylingTime', { minutes: tags.stylingMinutes }),
+                          ].map(label => (
+                            <span key={label} className="px-2 py-0.5 rounded-full bg-zinc-800 text-xs text-zinc-300">{label}</span>
+                          ))}
+                        </div>
+                        {tags.hairTypes.length > 0 && (
+                          <p className="text-xs text-zinc-500">{t('selection.worksWith', { types: formatList(locale, tags.hairTypes.map(x => formatHairTexture(t, x))) })}</p>
+                        )}
+                        {tags.products.length > 0 && (
+                          <p className="text-xs text-zinc-500">{t('selection.products', { products: formatList(locale, tags.products) })}</p>
+                        )}
+                      </div>
+                    )}
                     <div className="text-xs text-zinc-500 border-t border-zinc-800 pt-3 mt-auto">
-                      <span className="uppercase tracking-wider font-semibold text-zinc-600 block mb-1">Match Reason</span>
+                      <span className="uppercase tracking-wider font-semibold text-zinc-600 block mb-1">{suggestion.custom ? t('selection.customStyle') : t('selection.matchReason')}</span>
                       {suggestion.reasoning}
                     </div>
                  </div>
                );
              })}
+
+             {/* Try my own style */}
+             <div className="p-6 rounded-xl border-2 border-dashed border-zinc-800 bg-zinc-900/30 flex flex-col gap-3">
+               <h4 className="text-lg font-medium text-white">{t('selection.ownTitle')}</h4>
+               <input
+                 type="text"
+                 value={customStyle.name}
+                 onChange={e => setCustomStyle(prev => ({ ...prev, name: e.target.value }))}
+                 placeholder={t('selection.ownName')}
+                 className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-400"
+               />
+               <textarea
+                 value={customStyle.description}
+                 onChange={e => setCustomStyle(prev => ({ ...prev, description: e.target.value }))}
+                 placeholder={t('selection.ownDescription')}
+                 rows={3}
+                 className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 placeholder-zinc-600 resize-none focus:outline-none focus:border-zinc-400"
+               />
+               <button
+                 onClick={addCustomStyle}
+                 disabled={!customStyle.name.trim()}
+                 className="mt-auto py-2 rounded-lg border border-zinc-600 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+               >
+                 {t('selection.ownAdd')}
+               </button>
+             </div>
            </div>
+
+           {/* Color variants */}
+           <section className="mb-10">
+             <div className="flex flex-wrap justify-between items-end gap-3 mb-4">
+               <div>
+                 <h3 className="text-lg font-medium text-white">{t('selection.colorTitle')} <span className="text-sm font-normal text-zinc-500">{t('common.optional')}</span></h3>
+                 <p className="text-xs text-zinc-400">{t('selection.colorHint', { max: MAX_COLOR_SELECTION })}</p>
+               </div>
+               <select
+                 value={colorTechnique}
+                 onChange={e => setColorTechnique(e.target.value as ColorTechnique)}
+                 className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-400"
+               >
+                 {Object.values(ColorTechnique).map(technique => <option key={technique} value={technique}>{t(`technique.${technique}`)}</option>)}
+               </select>
+             </div>
+             {(['natural', 'fashion'] as const).map(category => (
+               <div key={category} className="mb-4">
+                 <h4 className="text-xs uppercase tracking-wider font-semibold text-zinc-600 mb-2">{category === 'natural' ? t('selection.naturalShades') : t('selection.fashionColors')}</h4>
+                 <div className="flex flex-wrap gap-2">
+                   {HAIR_COLORS.filter(c => c.category === category).map(color => {
+                     const isSelected = selectedColorIds.includes(color.id);
+                     const isDisabled = !isSelected && selectedColorIds.length >= MAX_COLOR_SELECTION;
+                     return (
+                       <button
+                         key={color.id}
+                         onClick={() => toggleColor(color.id)}
+                         disabled={isDisabled}
+                         className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                           isSelected ? 'border-white bg-zinc-800 text-white' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'
+                         } disabled:opacity-40 disabled:cursor-not-allowed`}
+                       >
+                         <span className="w-4 h-4 rounded-full border border-white/30" style={{ backgroundColor: color.swatch }} />
+                         {formatColorName(t, color)}
+                       </button>
+                     );
+                   })}
+                 </div>
+               </div>
+             ))}
+           </section>
+
+           {/* Multi-angle renders */}
+           <label className="flex items-start gap-3 cursor-pointer">
+             <input
+               type="checkbox"
+               className="accent-white w-4 h-4 mt-1"
+               checked={includeSideViews}
+               onChange={e => setIncludeSideViews(e.target.checked)}
+             />
+             <span>
+               <span className="block text-white font-medium">{t('selection.sideViews')}</span>
+               <span className="block text-xs text-zinc-400">{t('selection.sideViewsHint')}</span>
+             </span>
+           </label>
+
+           {renderFreshToggle('pb-24')}
         </main>
 
         <div className="fixed bottom-0 left-0 w-full p-6 bg-gradient-to-t from-zinc-950 via-zinc-950 to-transparent pointer-events-none safe-area-pb">
@@ -382,7 +1688,14 @@ const App: React.FC = () => {
               `}
             >
               <SparklesIcon className="w-5 h-5" />
-              Generate Visualizations
+              {variantCount > 1 ? t('selection.generateCount', { count: variantCount }) : t('selection.generate')}
+            </button>
+            <button
+              onClick={generateAll}
+              disabled={!isOnline}
+              className="w-full mt-3 py-2 text-sm text-zinc-400 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t('selection.generateAll', { styles: analysisResult.suggestions.length, renders: allCount })}
             </button>
           </div>
         </div>
@@ -392,93 +1705,244 @@ const App: React.FC = () => {
 
   const renderLoading = () => (
     <div className="min-h-[100dvh] w-full flex flex-col items-center justify-center bg-zinc-950">
-      <Loader text={appState === AppState.ANALYZING ? "ANALYZING FACE GEOMETRY..." : "GENERATING YOUR LOOK..."} />
+      <Loader text={t('analysis.loading')} />
+      <button
+        onClick={cancelAnalysis}
+        className="mt-8 px-6 py-2 rounded-full border border-zinc-700 text-sm text-zinc-400 hover:text-white hover:border-zinc-500 transition-colors"
+      >
+        {t('common.cancel')}
+      </button>
     </div>
   );
 
+  const renderGenerating = () => (
+    <GenerationProgress
+      renders={generatedImages.filter(g => generationBatch.includes(getRenderKey(g)))}
+      onCancel={cancelGeneration}
+      onViewResults={() => navigate(AppState.RESULTS)}
+    />
+  );
+
   const renderResults = () => {
     if (!analysisResult) return null;
 
+    const failedCount = generatedImages.filter(g => g.status === GenerationStatus.FAILED).length;
+    // Compare mode uses the front render of each picked variant
+    const compareImages = compareKeys
+      .map(key => generatedImages.find(g => getRenderKey(g) === key && g.imageUrl))
+      .filter((g): g is GeneratedImage => !!g);
+
+    // One card per style/color variant, color variants of a style next to each other
+    const suggestionOrder = (name: string) => analysisResult.suggestions.findIndex(s => s.name === name);
+    const cardKeys = [...new Set(generatedImages.map(getVariantKey))];
+    const cards = cardKeys
+      .map(key => generatedImages.filter(g => getVariantKey(g) === key))
+      .sort((a, b) => suggestionOrder(a[0].hairstyleName) - suggestionOrder(b[0].hairstyleName));
+    // One or two cards side by side; more than that switches to a denser gallery
+    const isGallery = cards.length > 2;
+    const gridClass = cards.length === 1
+      ? 'max-w-md mx-auto gap-12'
+      : isGallery ? 'sm:grid-cols-2 xl:grid-cols-3 gap-6' : 'lg:grid-cols-2 gap-12';
+
     return (
       <div className="min-h-[100dvh] bg-zinc-950 text-zinc-100 pb-20">
         <header className="sticky top-0 z-10 bg-zinc-950/80 backdrop-blur-md border-b border-zinc-800 p-4 flex justify-between items-center">
-          <h2 className="text-xl font-light">Your New Look</h2>
-          <button onClick={resetApp} className="text-sm text-zinc-400 hover:text-white">Start Over</button>
+          <h2 className="text-xl font-light">{t('results.title')}</h2>
+          <button onClick={resetApp} className="text-sm text-zinc-400 hover:text-white">{t('results.startOver')}</button>
         </header>
 
-        <main className="max-w-5xl mx-auto p-6 space-y-12">
+        <main className={`${isGallery ? 'max-w-7xl' : 'max-w-5xl'} mx-auto p-6 space-y-12`}>
           
           <section className="text-center space-y-4 animate-fade-in-up">
              <p className="text-zinc-400 max-w-2xl mx-auto leading-relaxed">
-               Here are the AI-generated visualizations for your selected hairstyles.
+               {t('results.intro')}
              </p>
+             {failedCount > 0 && (
+               <p className="text-sm text-red-400">
+                 {t('results.failedCount', { failed: failedCount, total: generatedImages.length })}
+               </p>
+             )}
           </section>
 
           {/* Comparison Grid */}
-          <div className={`grid grid-cols-1 ${generatedImages.length > 1 ? 'lg:grid-cols-2' : 'max-w-md mx-auto'} gap-12`}>
-            {generatedImages.map((generated, idx) => {
-               const suggestion = analysisResult.suggestions.find(s => s.name === generated.hairstyleName);
-               
-               return (
-                 <div key={idx} className="group bg-zinc-900 rounded-2xl overflow-hidden border border-zinc-800 shadow-xl hover:border-zinc-700 transition-all duration-500">
-                    <div className="aspect-[4/5] relative bg-zinc-800 overflow-hidden">
-                      <img 
-                        src={generated.imageUrl} 
-                        alt={generated.hairstyleName}
-                        className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-                      />
-                      <button
-                        onClick={() => downloadImage(generated.imageUrl, `styleai-${generated.hairstyleName.replace(/\s+/g, '-').toLowerCase()}.png`)}
-                        className="absolute top-4 right-4 p-3 bg-black/30 backdrop-blur-md text-white rounded-full border border-white/10 transition-all duration-300 hover:bg-white hover:text-black hover:scale-110 active:scale-95"
-                        title="Download Image"
-                      >
-                        <DownloadIcon className="w-5 h-5" />
-                      </button>
-                      
-                      <div className="absolute bottom-0 left-0 w-full bg-gradient-to-t from-black/90 via-black/50 to-transparent p-6 pt-20 pointer-events-none">
-                        <h3 className="text-2xl font-semibold text-white mb-1">{generated.hairstyleName}</h3>
-                        <p className="text-sm text-zinc-300 font-light opacity-90">{suggestion?.description}</p>
-                      </div>
-                    </div>
-                    {suggestion && (
-                      <div className="p-6">
-                        <h4 className="text-xs uppercase tracking-widest text-zinc-500 mb-2 font-semibold">Why it works</h4>
-                        <p className="text-zinc-400 text-sm leading-relaxed">
-                          {suggestion.reasoning}
-                        </p>
-                      </div>
-                    )}
-                 </div>
-               );
+          <div className={`grid grid-cols-1 ${gridClass}`}>
+            {cards.map(renders => {
+              const variantKey = getVariantKey(renders[0]);
+              return (
+                <ResultCard
+                  key={variantKey}
+                  suggestion={analysisResult.suggestions.find(s => s.name === renders[0].hairstyleName)}
+                  renders={renders}
+                  originals={capturedImages}
+                  isComparing={compareKeys.includes(variantKey)}
+                  compact={isGallery}
+                  onToggleCompare={() => toggleCompare(variantKey)}
+                  onRetry={retryGeneration}
+                  onDownload={downloadRender}
+                  onRefine={refineRender}
+                  onSelectVersion={selectVersion}
+                  onBrief={exportBrief}
+                />
+              );
             })}
           </div>
           
-          <div className="flex justify-center pt-8 safe-area-pb">
+          <div className="flex flex-wrap justify-center gap-4 pt-8 safe-area-pb">
+            <button
+               onClick={() => { setSelectedIndices([]); navigate(AppState.SELECTION); }}
+               className="px-8 py-3 border border-zinc-700 rounded-full text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+             >
+               {t('results.tryMore')}
+             </button>
             <button
                onClick={resetApp}
                className="px-8 py-3 border border-zinc-700 rounded-full text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
              >
-               Try Another Photo
+               {t('results.tryAnotherPhoto')}
              </button>
           </div>
 
         </main>
+
+        {compareImages.length > 0 && !showCompare && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 ps-5 pe-2 py-2 bg-zinc-900 border border-zinc-700 rounded-full shadow-2xl">
+            <span className="text-sm text-zinc-300">{t('results.compareSelected', { count: compareImages.length })}</span>
+            <button
+              onClick={() => setShowCompare(true)}
+              className="px-4 py-1.5 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200"
+            >
+              {t('results.compare')}
+            </button>
+            <button onClick={() => setCompareKeys([])} className="p-1.5 text-zinc-400 hover:text-white" aria-label={t('results.clearCompare')}>
+              <XIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {showCompare && (
+          <CompareView
+            panels={[
+              { label: t('results.original'), src: capturedImages[0] },
+              ...compareImages.map(g => ({
+                label: g.color ? `${g.hairstyleName} · ${formatAppliedColor(t, g.color)}` : g.hairstyleName,
+                src: g.imageUrl!,
+              })),
+            ]}
+            onClose={() => setShowCompare(false)}
+          />
+        )}
       </div>
     );
   };
 
+  const renderHistory = () => (
+    <div className="min-h-[100dvh] bg-zinc-950 text-zinc-100 pb-20">
+      <header className="sticky top-0 z-10 bg-zinc-950/80 backdrop-blur-md border-b border-zinc-800 p-4 flex items-center gap-3">
+        <button onClick={resetApp} className="p-1 text-zinc-400 hover:text-white" aria-label={t('common.back')}>
+          <ChevronLeftIcon className="w-6 h-6 rtl:rotate-180" />
+        </button>
+        <h2 className="text-xl font-light">{t('history.title')}</h2>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-4">
+        {history.length === 0 && (
+          <p className="text-center text-zinc-500 pt-16">{t('history.empty')}</p>
+        )}
+
+        {history.map(saved => {
+          const renderCount = saved.generatedImages.length;
+          const owner = saved.clientId ? clients.find(c => c.id === saved.clientId) : undefined;
+
+          return (
+            <div key={saved.id} className="flex gap-4 p-4 bg-zinc-900 rounded-xl border border-zinc-800">
+              <div className="w-20 h-24 flex-shrink-0 rounded-lg overflow-hidden bg-zinc-800">
+                {saved.capturedImages[0] && (
+                  <img src={saved.capturedImages[0]} alt={t('angle.frontView')} className="w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <h3 className="text-white font-medium">{t('history.faceShape', { shape: formatFaceShape(t, saved.analysis.faceShape) })}</h3>
+                    <p className="text-xs text-zinc-500">
+                      {new Date(saved.createdAt).toLocaleString(locale)} · {t('history.rendered', { count: renderCount })}
+                      {owner && <> · {owner.name}</>}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => removeSession(saved.id)}
+                    className="p-2 text-zinc-500 hover:text-red-400 transition-colors"
+                    title={t('history.delete')}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-auto pt-3">
+                  {renderCount > 0 && (
+                    <button
+                      onClick={() => openSession(saved, AppState.RESULTS)}
+                      className="px-4 py-1.5 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200 transition-colors"
+                    >
+                      {t('history.viewResults')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => openSession(saved, AppState.SELECTION)}
+                    className="px-4 py-1.5 border border-zinc-600 text-zinc-300 rounded-full text-sm hover:bg-zinc-800 hover:text-white transition-colors"
+                  >
+                    {renderCount > 0 ? t('history.generateMore') : t('history.chooseStyles')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </main>
+    </div>
+  );
+
+  const renderClients = () => {
+    const client = clients.find(c => c.id === openClientId);
+    if (client) {
+      return (
+        <ClientDetail
+          key={client.id}
+          client={client}
+          isActive={activeClient?.id === client.id}
+          onBack={() => setOpenClientId(null)}
+          onSave={draft => updateClient(client, draft)}
+          onStart={() => startClientConsultation(client)}
+          onExport={sessions => exportClient(client, sessions)}
+          onDelete={() => removeClient(client.id)}
+          onOpenSession={openSession}
+        />
+      );
+    }
+    return (
+      <ClientList
+        clients={clients}
+        activeClientId={activeClient?.id}
+        notice={clientNotice}
+        onBack={resetApp}
+        onCreate={createClient}
+        onOpen={c => { setClientNotice(null); setOpenClientId(c.id); }}
+        onImport={importClient}
+      />
+    );
+  };
+
   const renderError = () => (
     <div className="min-h-[100dvh] flex flex-col items-center justify-center bg-zinc-950 text-center p-8">
       <div className="text-red-400 mb-4">
         <XIcon className="w-12 h-12 mx-auto" />
       </div>
-      <h3 className="text-xl text-white font-medium mb-2">Something went wrong</h3>
+      <h3 className="text-xl text-white font-medium mb-2">{t('error.title')}</h3>
       <p className="text-zinc-500 max-w-md mb-8">{errorMsg}</p>
       <button
         onClick={resetApp}
         className="px-6 py-3 bg-white text-black rounded-lg font-medium hover:bg-zinc-200"
       >
-        Try Again
+        {t('error.tryAgain')}
       </button>
     </div>
   );
@@ -487,11 +1951,15 @@ const App: React.FC = () => {
   switch (appState) {
     case AppState.IDLE: return renderIdle();
     case AppState.CAMERA: return renderCamera();
+    case AppState.UPLOAD: return renderUpload();
     case AppState.PREVIEW: return renderPreview();
     case AppState.ANALYZING: return renderLoading();
     case AppState.SELECTION: return renderSelection();
-    case AppState.GENERATING: return renderLoading();
+    case AppState.GENERATING: return renderGenerating();
     case AppState.RESULTS: return renderResults();
+    case AppState.HISTORY: return renderHistory();
+    case AppState.CLIENTS: return renderClients();
+    case AppState.USAGE: return <UsageDashboard records={usageRecords} budget={DAILY_BUDGET_USD} onBack={resetApp} onClear={resetUsage} />;
     case AppState.ERROR: return renderError();
     default: return renderIdle();
   }
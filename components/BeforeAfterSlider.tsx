@@ -0,0 +1,89 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { useI18n } from './I18nProvider';
+
+interface BeforeAfterSliderProps {
+  beforeSrc: string;
+  afterSrc: string;
+  alt: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+/**
+ * Wipe comparison: the "before" image is revealed from the left up to the
+ * handle, the "after" image fills the rest. Drag anywhere or use the arrow keys.
+ * Always laid out left-to-right so the wipe matches the pointer in RTL pages too.
+ */
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ beforeSrc, afterSrc, alt, beforeLabel, afterLabel }) => {
+  const { t } = useI18n();
+  const [position, setPosition] = useState<number>(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<boolean>(false);
+
+  const moveTo = useCallback((clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(clamp(((clientX - rect.left) / rect.width) * 100));
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveTo(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) moveTo(e.clientX);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = false;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      dir="ltr"
+      className="absolute inset-0 select-none touch-none cursor-ew-resize"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img src={afterSrc} alt={alt} draggable={false} className="absolute inset-0 w-full h-full object-cover" />
+      <img
+        src={beforeSrc}
+        alt={t('results.original')}
+        draggable={false}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      />
+
+      {/* Divider + handle */}
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white/90 pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white text-black shadow-lg flex items-center justify-center text-xs font-semibold">
+          ⇆
+        </div>
+      </div>
+
+      <div className="absolute top-4 left-4 px-2 py-1 bg-black/60 rounded text-xs text-white pointer-events-none">{beforeLabel ?? t('results.before')}</div>
+      <div className="absolute top-4 right-16 px-2 py-1 bg-black/60 rounded text-xs text-white pointer-events-none">{afterLabel ?? t('results.after')}</div>
+
+      {/* Keyboard / screen reader control */}
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={Math.round(position)}
+        onChange={e => setPosition(clamp(Number(e.target.value)))}
+        aria-label={t('results.sliderLabel')}
+        className="absolute inset-0 w-full h-full opacity-0 pointer-events-none"
+      />
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import ClientForm, { ClientDraft } from './ClientForm';
+import CompareView from './CompareView';
+import { ChevronLeftIcon, DownloadIcon, TrashIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { listClientSessions } from '../services/clientStore';
+import { formatFaceShape, formatHairTexture } from '../services/i18n';
+import { AppState, ClientProfile, ConsultationSession } from '../types';
+
+interface ClientDetailProps {
+  client: ClientProfile;
+  isActive: boolean; // New consultations already attach to this client
+  onBack: () => void;
+  onSave: (draft: ClientDraft) => void;
+  onStart: () => void;
+  onExport: (sessions: ConsultationSession[]) => void;
+  onDelete: () => void;
+  onOpenSession: (saved: ConsultationSession, target: AppState.SELECTION | AppState.RESULTS) => void;
+}
+
+/**
+ * One client's folder: profile, past consultations and a side-by-side of the
+ * front photos from two visits to track progress.
+ */
+const ClientDetail: React.FC<ClientDetailProps> = ({ client, isActive, onBack, onSave, onStart, onExport, onDelete, onOpenSession }) => {
+  const { locale, t } = useI18n();
+  const [sessions, setSessions] = useState<ConsultationSession[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  // Ids of the visits to compare; default to the latest against the one before it
+  const [beforeId, setBeforeId] = useState<string | undefined>(undefined);
+  const [afterId, setAfterId] = useState<string | undefined>(undefined);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listClientSessions(client.id)
+      .then(list => {
+        if (cancelled) return;
+        setSessions(list);
+        setAfterId(list[0]?.id);
+        setBeforeId(list[1]?.id);
+      })
+      .catch(err => {
+        console.error("Failed to load client consultations:", err);
+        if (!cancelled) setSessions([]);
+      });
+    return () => { cancelled = true; };
+  }, [client.id]);
+
+  const formatDate = (time: number) => new Date(time).toLocaleString(locale);
+  const before = sessions.find(s => s.id === beforeId);
+  const after = sessions.find(s => s.id === afterId);
+
+  const visitSelect = (value: string | undefined, onChange: (id: string) => void, label: string) => (
+    <label className="flex-1 space-y-1 text-xs text-zinc-500">
+      <span className="block">{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value)}
+        className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-zinc-400"
+      >
+        {sessions.map(s => <option key={s.id} value={s.id}>{formatDate(s.createdAt)}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="min-h-[100dvh] bg-zinc-950 text-zinc-100 pb-20">
+      <header className="sticky top-0 z-10 bg-zinc-950/80 backdrop-blur-md border-b border-zinc-800 p-4 flex items-center gap-3">
+        <button onClick={onBack} className="p-1 text-zinc-400 hover:text-white" aria-label={t('common.back')}>
+          <ChevronLeftIcon className="w-6 h-6 rtl:rotate-180" />
+        </button>
+        <h2 className="text-xl font-light truncate">{client.name}</h2>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-8">
+        {editing ? (
+          <ClientForm
+            initial={client}
+            onSave={draft => { onSave(draft); setEditing(false); }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <section className="space-y-3">
+            <p className="text-sm text-zinc-400">
+              {t('clients.hairType')}: {client.hairTexture ? formatHairTexture(t, client.hairTexture) : t('constraints.notSpecified')}
+            </p>
+            {client.notes && <p className="text-sm text-zinc-300 whitespace-pre-line">{client.notes}</p>}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={onStart}
+                className="px-4 py-1.5 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200 transition-colors"
+              >
+                {isActive ? t('clients.continueConsultation') : t('clients.startConsultation')}
+              </button>
+              <button
+                onClick={() => setEditing(true)}
+                className="px-4 py-1.5 border border-zinc-600 text-zinc-300 rounded-full text-sm hover:bg-zinc-800 hover:text-white transition-colors"
+              >
+                {t('clients.edit')}
+              </button>
+              <button
+                onClick={() => onExport(sessions)}
+                className="flex items-center gap-2 px-4 py-1.5 border border-zinc-600 text-zinc-300 rounded-full text-sm hover:bg-zinc-800 hover:text-white transition-colors"
+              >
+                <DownloadIcon className="w-4 h-4" />
+                {t('clients.export')}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {sessions.length >= 2 && (
+          <section className="space-y-3">
+            <h3 className="text-sm uppercase tracking-wider text-zinc-500">{t('clients.progress')}</h3>
+            <p className="text-sm text-zinc-400">{t('clients.progressHint')}</p>
+            <div className="flex gap-3 items-end">
+              {visitSelect(beforeId, setBeforeId, t('clients.before'))}
+              {visitSelect(afterId, setAfterId, t('clients.after'))}
+              <button
+                onClick={() => setComparing(true)}
+                disabled={!before || !after || before.id === after.id}
+                className="px-4 py-1.5 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200 transition-colors disabled:opacity-40"
+              >
+                {t('clients.compare')}
+              </button>
+            </div>
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <h3 className="text-sm uppercase tracking-wider text-zinc-500">{t('clients.consultations')}</h3>
+          {sessions.length === 0 && <p className="text-sm text-zinc-500">{t('clients.noConsultations')}</p>}
+          {sessions.map(saved => (
+            <div key={saved.id} className="flex gap-4 p-3 bg-zinc-900 rounded-xl border border-zinc-800 items-center">
+              <div className="w-14 h-16 flex-shrink-0 rounded-lg overflow-hidden bg-zinc-800">
+                <img src={saved.capturedImages[0]} alt={t('angle.frontView')} className="w-full h-full object-cover" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white">{t('history.faceShape', { shape: formatFaceShape(t, saved.analysis.faceShape) })}</p>
+                <p className="text-xs text-zinc-500">
+                  {formatDate(saved.createdAt)} · {t('history.rendered', { count: saved.generatedImages.length })}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpenSession(saved, saved.generatedImages.length > 0 ? AppState.RESULTS : AppState.SELECTION)}
+                className="px-3 py-1 border border-zinc-600 text-zinc-300 rounded-full text-xs hover:bg-zinc-800 hover:text-white transition-colors"
+              >
+                {t('clients.open')}
+              </button>
+            </div>
+          ))}
+        </section>
+
+        {confirmingDelete ? (
+          <div className="space-y-3 text-sm text-zinc-400">
+            <p>{t('clients.deleteConfirm', { name: client.name })}</p>
+            <div className="flex gap-2">
+              <button
+                onClick={onDelete}
+                className="px-4 py-1.5 rounded-full bg-red-500/90 text-white font-medium hover:bg-red-500 transition-colors"
+              >
+                {t('clients.delete')}
+              </button>
+              <button
+                onClick={() => setConfirmingDelete(false)}
+                className="px-4 py-1.5 rounded-full border border-zinc-700 text-zinc-300 hover:text-white transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            className="flex items-center gap-2 text-sm text-zinc-500 hover:text-red-400 transition-colors"
+          >
+            <TrashIcon className="w-4 h-4" />
+            {t('clients.delete')}
+          </button>
+        )}
+      </main>
+
+      {comparing && before && after && (
+        <CompareView
+          panels={[
+            { label: formatDate(before.createdAt), src: before.capturedImages[0] },
+            { label: formatDate(after.createdAt), src: after.capturedImages[0] },
+          ]}
+          onClose={() => setComparing(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ClientDetail;
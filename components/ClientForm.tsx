@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { useI18n } from './I18nProvider';
+import { ClientProfile, HairTexture } from '../types';
+
+export type ClientDraft = Pick<ClientProfile, 'name' | 'notes' | 'hairTexture'>;
+
+interface ClientFormProps {
+  initial?: ClientDraft;
+  onSave: (draft: ClientDraft) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-zinc-400';
+
+/**
+ * Name, hair type and notes for a new or existing client profile.
+ */
+const ClientForm: React.FC<ClientFormProps> = ({ initial, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(initial?.name ?? '');
+  const [notes, setNotes] = useState(initial?.notes ?? '');
+  const [hairTexture, setHairTexture] = useState<HairTexture | ''>(initial?.hairTexture ?? '');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), notes: notes.trim() || undefined, hairTexture: hairTexture || undefined });
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 p-4 bg-zinc-900 rounded-xl border border-zinc-800">
+      <label className="block space-y-1 text-sm text-zinc-400">
+        <span className="block">{t('clients.name')}</span>
+        <input value={name} onChange={e => setName(e.target.value)} className={inputClass} autoFocus required />
+      </label>
+      <label className="block space-y-1 text-sm text-zinc-400">
+        <span className="block">{t('clients.hairType')}</span>
+        <select value={hairTexture} onChange={e => setHairTexture(e.target.value as HairTexture | '')} className={inputClass}>
+          <option value="">{t('constraints.notSpecified')}</option>
+          {Object.values(HairTexture).map(x => <option key={x} value={x}>{t(`texture.${x}`)}</option>)}
+        </select>
+      </label>
+      <label className="block space-y-1 text-sm text-zinc-400">
+        <span className="block">{t('clients.notes')}</span>
+        <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} className={inputClass} />
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-4 py-1.5 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200 transition-colors disabled:opacity-40"
+        >
+          {t('clients.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-1.5 border border-zinc-600 text-zinc-300 rounded-full text-sm hover:bg-zinc-800 hover:text-white transition-colors"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ClientForm;
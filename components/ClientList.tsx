@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import ClientForm, { ClientDraft } from './ClientForm';
+import { CheckIcon, ChevronLeftIcon, UploadIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { formatHairTexture } from '../services/i18n';
+import { ClientProfile } from '../types';
+
+interface ClientListProps {
+  clients: ClientProfile[];
+  activeClientId?: string;
+  notice: { text: string; error: boolean } | null; // Outcome of the last import
+  onBack: () => void;
+  onCreate: (draft: ClientDraft) => void;
+  onOpen: (client: ClientProfile) => void;
+  onImport: (file: File) => void;
+}
+
+const matches = (client: ClientProfile, query: string): boolean => {
+  const q = query.trim().toLocaleLowerCase();
+  return !q || client.name.toLocaleLowerCase().includes(q) || !!client.notes?.toLocaleLowerCase().includes(q);
+};
+
+/**
+ * Client list with search by name or notes, plus adding and importing clients.
+ */
+const ClientList: React.FC<ClientListProps> = ({ clients, activeClientId, notice, onBack, onCreate, onOpen, onImport }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [creating, setCreating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const visible = clients.filter(c => matches(c, query));
+
+  return (
+    <div className="min-h-[100dvh] bg-zinc-950 text-zinc-100 pb-20">
+      <header className="sticky top-0 z-10 bg-zinc-950/80 backdrop-blur-md border-b border-zinc-800 p-4 flex items-center gap-3">
+        <button onClick={onBack} className="p-1 text-zinc-400 hover:text-white" aria-label={t('common.back')}>
+          <ChevronLeftIcon className="w-6 h-6 rtl:rotate-180" />
+        </button>
+        <h2 className="text-xl font-light flex-1">{t('clients.title')}</h2>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-3 py-1.5 border border-zinc-700 text-zinc-300 rounded-full text-sm hover:bg-zinc-800 hover:text-white transition-colors"
+        >
+          <UploadIcon className="w-4 h-4" />
+          {t('clients.import')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          data-testid="client-import"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-4">
+        {notice && (
+          <p className={`text-sm ${notice.error ? 'text-red-400' : 'text-emerald-400'}`}>{notice.text}</p>
+        )}
+
+        {creating ? (
+          <ClientForm
+            onSave={draft => { onCreate(draft); setCreating(false); }}
+            onCancel={() => setCreating(false)}
+          />
+        ) : (
+          <div className="flex gap-3">
+            <input
+              type="search"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={t('clients.search')}
+              aria-label={t('clients.search')}
+              className="flex-1 bg-zinc-900 border border-zinc-800 rounded-full px-4 py-2 text-sm text-white focus:outline-none focus:border-zinc-500"
+            />
+            <button
+              onClick={() => setCreating(true)}
+              className="px-4 py-2 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200 transition-colors"
+            >
+              {t('clients.new')}
+            </button>
+          </div>
+        )}
+
+        {clients.length === 0 && !creating && (
+          <p className="text-center text-zinc-500 pt-16">{t('clients.empty')}</p>
+        )}
+        {clients.length > 0 && visible.length === 0 && (
+          <p className="text-center text-zinc-500 pt-8">{t('clients.noMatches', { query: query.trim() })}</p>
+        )}
+
+        {visible.map(client => (
+          <button
+            key={client.id}
+            onClick={() => onOpen(client)}
+            className="w-full flex items-center gap-3 p-4 bg-zinc-900 rounded-xl border border-zinc-800 hover:border-zinc-600 text-start transition-colors"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-white font-medium truncate">{client.name}</p>
+              <p className="text-xs text-zinc-500 truncate">
+                {[client.hairTexture ? formatHairTexture(t, client.hairTexture) : null, client.notes].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            {client.id === activeClientId && (
+              <span className="flex items-center gap-1 text-xs text-emerald-400">
+                <CheckIcon className="w-3 h-3" />
+                {t('clients.active')}
+              </span>
+            )}
+          </button>
+        ))}
+      </main>
+    </div>
+  );
+};
+
+export default ClientList;
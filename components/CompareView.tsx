@@ -0,0 +1,143 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { XIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+
+export interface ComparePanel {
+  label: string;
+  src: string;
+}
+
+interface CompareViewProps {
+  panels: ComparePanel[];
+  onClose: () => void;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Full-screen side-by-side view. Zoom (wheel or buttons) and pan (drag)
+ * are shared by every panel so the same region of each image stays lined up.
+ */
+const CompareView: React.FC<CompareViewProps> = ({ panels, onClose }) => {
+  const { locale, t } = useI18n();
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
+
+  // Keep the image covering its panel: the pan range grows with the zoom level.
+  const clampTransform = useCallback((next: Transform, width: number, height: number): Transform => {
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, next.scale));
+    const maxX = ((scale - 1) * width) / 2;
+    const maxY = ((scale - 1) * height) / 2;
+    return {
+      scale,
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  }, []);
+
+  const panelSize = () => {
+    const panel = gridRef.current?.firstElementChild as HTMLElement | null;
+    return { width: panel?.clientWidth ?? 0, height: panel?.clientHeight ?? 0 };
+  };
+
+  const zoomBy = useCallback((factor: number) => {
+    const { width, height } = panelSize();
+    setTransform(prev => clampTransform({ ...prev, scale: prev.scale * factor }, width, height));
+  }, [clampTransform]);
+
+  // Non-passive wheel listener so zooming doesn't also scroll the page
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.1 : 1 / 1.1);
+    };
+    grid.addEventListener('wheel', onWheel, { passive: false });
+    return () => grid.removeEventListener('wheel', onWheel);
+  }, [zoomBy]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const { width, height } = panelSize();
+    dragRef.current = { x: e.clientX, y: e.clientY, width, height };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+    setTransform(prev => clampTransform({ ...prev, x: prev.x + dx, y: prev.y + dy }, drag.width, drag.height));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const controlClass = "w-9 h-9 rounded-full bg-zinc-800 text-white hover:bg-zinc-700 transition-colors text-lg leading-none";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      <header className="flex justify-between items-center p-4 border-b border-zinc-800">
+        <h2 className="text-lg font-light text-white">{t('compare.title')}</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => zoomBy(1 / 1.25)} className={controlClass} aria-label={t('compare.zoomOut')}>−</button>
+          <span className="w-12 text-center text-sm text-zinc-400">{new Intl.NumberFormat(locale, { style: 'percent' }).format(transform.scale)}</span>
+          <button onClick={() => zoomBy(1.25)} className={controlClass} aria-label={t('compare.zoomIn')}>+</button>
+          <button onClick={() => setTransform(IDENTITY)} className="px-3 h-9 rounded-full bg-zinc-800 text-sm text-zinc-300 hover:bg-zinc-700">{t('compare.reset')}</button>
+          <button onClick={onClose} className="ms-2 p-2 rounded-full text-white hover:bg-zinc-800" aria-label={t('compare.close')}>
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </header>
+
+      <div
+        ref={gridRef}
+        dir="ltr"
+        className="flex-1 grid gap-1 p-1 touch-none select-none cursor-grab active:cursor-grabbing"
+        style={{ gridTemplateColumns: `repeat(${panels.length}, minmax(0, 1fr))` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {panels.map(panel => (
+          <div key={panel.label} className="relative overflow-hidden bg-zinc-900">
+            <img
+              src={panel.src}
+              alt={panel.label}
+              draggable={false}
+              className="absolute inset-0 w-full h-full object-cover"
+              style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+            />
+            <div className="absolute bottom-3 left-3 px-2 py-1 bg-black/60 rounded text-xs text-white pointer-events-none">{panel.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import Loader from './Loader';
+import { CheckIcon, XIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { MessageKey } from '../services/i18n';
+import { BACKGROUND_MODES, BackgroundMode } from '../services/privacy';
+
+interface ConsentDialogProps {
+  images: string[] | null; // The photos as they will be uploaded; null while they're prepared
+  labels: string[]; // One per photo
+  mode: BackgroundMode;
+  error: string | null; // Preparing the photos failed
+  onModeChange: (mode: BackgroundMode) => void;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+const MODE_LABELS: Record<BackgroundMode, MessageKey> = {
+  off: 'privacy.mode.off',
+  crop: 'privacy.mode.crop',
+  blur: 'privacy.mode.blur',
+};
+
+/**
+ * Consent step before photos leave the device: shows exactly what will be
+ * uploaded and only continues once the consent box is ticked.
+ */
+const ConsentDialog: React.FC<ConsentDialogProps> = ({ images, labels, mode, error, onModeChange, onCancel, onConfirm }) => {
+  const { t } = useI18n();
+  const [agreed, setAgreed] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-labelledby="consent-title">
+      <div className="w-full max-w-lg max-h-[100dvh] overflow-y-auto bg-zinc-900 border border-zinc-800 sm:rounded-2xl p-6 space-y-5">
+        <div className="flex justify-between items-start gap-4">
+          <h2 id="consent-title" className="text-xl font-light text-white">{t('privacy.title')}</h2>
+          <button onClick={onCancel} className="p-1 text-zinc-400 hover:text-white" aria-label={t('common.close')}>
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div>
+          <p className="text-sm text-zinc-400 mb-2">{t('privacy.background')}</p>
+          <div className="flex gap-2">
+            {BACKGROUND_MODES.map(m => (
+              <button
+                key={m}
+                onClick={() => onModeChange(m)}
+                aria-pressed={mode === m}
+                className={`flex-1 px-3 py-2 rounded-lg text-sm border transition-colors ${
+                  mode === m ? 'bg-white text-black border-white' : 'border-zinc-700 text-zinc-300 hover:border-zinc-500'
+                }`}
+              >
+                {t(MODE_LABELS[m])}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-2 min-h-[7rem] items-center justify-center">
+          {error ? (
+            <p className="text-sm text-red-400">{error}</p>
+          ) : images ? (
+            images.map((src, i) => (
+              <div key={i} className="relative w-20 h-28 rounded-lg overflow-hidden border border-zinc-800 bg-zinc-950">
+                <img src={src} alt={labels[i]} className="w-full h-full object-contain" />
+                <div className="absolute bottom-1 start-1 px-1.5 py-0.5 bg-black/60 rounded text-[10px] text-white">{labels[i]}</div>
+              </div>
+            ))
+          ) : (
+            <Loader />
+          )}
+        </div>
+
+        <ul className="text-sm text-zinc-400 space-y-2 list-disc ps-5">
+          <li>{t('privacy.sent', { count: labels.length })}</li>
+          <li>{t('privacy.metadata')}</li>
+          <li>{t('privacy.stored')}</li>
+        </ul>
+
+        <label className="flex items-start gap-3 text-sm text-zinc-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={agreed}
+            onChange={e => setAgreed(e.target.checked)}
+            className="mt-0.5 accent-white"
+          />
+          {t('privacy.agree')}
+        </label>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-lg border border-zinc-600 text-zinc-300 font-medium hover:bg-zinc-800 hover:text-white transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!agreed || !images}
+            className="flex-1 py-3 rounded-lg bg-white text-black font-medium hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <CheckIcon className="w-4 h-4" />
+            {t('privacy.upload')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentDialog;
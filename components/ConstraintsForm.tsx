@@ -0,0 +1,62 @@
+import React from 'react';
+import { useI18n } from './I18nProvider';
+import { HairLength, HairTexture, MaintenanceLevel, StyleConstraints } from '../types';
+
+interface ConstraintsFormProps {
+  value: StyleConstraints;
+  onChange: (value: StyleConstraints) => void;
+}
+
+const selectClass = "w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-400";
+
+// Empty string in a <select> means "no preference" and maps back to undefined.
+const optional = <T extends string>(raw: string): T | undefined => (raw ? raw as T : undefined);
+
+const ConstraintsForm: React.FC<ConstraintsFormProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<StyleConstraints>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="grid grid-cols-2 gap-3 text-start">
+      <label className="text-xs text-zinc-400 space-y-1">
+        <span className="block">{t('constraints.minLength')}</span>
+        <select className={selectClass} value={value.minLength ?? ''} onChange={e => update({ minLength: optional<HairLength>(e.target.value) })}>
+          <option value="">{t('common.any')}</option>
+          {Object.values(HairLength).map(l => <option key={l} value={l}>{t(`length.${l}`)}</option>)}
+        </select>
+      </label>
+      <label className="text-xs text-zinc-400 space-y-1">
+        <span className="block">{t('constraints.maxLength')}</span>
+        <select className={selectClass} value={value.maxLength ?? ''} onChange={e => update({ maxLength: optional<HairLength>(e.target.value) })}>
+          <option value="">{t('common.any')}</option>
+          {Object.values(HairLength).map(l => <option key={l} value={l}>{t(`length.${l}`)}</option>)}
+        </select>
+      </label>
+      <label className="text-xs text-zinc-400 space-y-1">
+        <span className="block">{t('constraints.texture')}</span>
+        <select className={selectClass} value={value.texture ?? ''} onChange={e => update({ texture: optional<HairTexture>(e.target.value) })}>
+          <option value="">{t('constraints.notSpecified')}</option>
+          {Object.values(HairTexture).map(x => <option key={x} value={x}>{t(`texture.${x}`)}</option>)}
+        </select>
+      </label>
+      <label className="text-xs text-zinc-400 space-y-1">
+        <span className="block">{t('constraints.maintenance')}</span>
+        <select className={selectClass} value={value.maxMaintenance ?? ''} onChange={e => update({ maxMaintenance: optional<MaintenanceLevel>(e.target.value) })}>
+          <option value="">{t('common.any')}</option>
+          {Object.values(MaintenanceLevel).map(m => <option key={m} value={m}>{t('constraints.maintenanceAtMost', { level: t(`maintenance.${m}`) })}</option>)}
+        </select>
+      </label>
+      <label className="col-span-2 flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+        <input
+          type="checkbox"
+          className="accent-white w-4 h-4"
+          checked={!!value.workplaceAppropriate}
+          onChange={e => update({ workplaceAppropriate: e.target.checked || undefined })}
+        />
+        {t('constraints.workplace')}
+      </label>
+    </div>
+  );
+};
+
+export default ConstraintsForm;
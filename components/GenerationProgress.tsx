@@ -0,0 +1,110 @@
+import React from 'react';
+import Loader from './Loader';
+import { CheckIcon, XIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { formatAppliedColor } from '../services/i18n';
+import { getAngle, getCaptureIndex, getVariantKey } from '../services/renders';
+import { GeneratedImage, GenerationStatus } from '../types';
+
+interface GenerationProgressProps {
+  renders: GeneratedImage[]; // Every render in the running batch, in their current state
+  onCancel: () => void;
+  onViewResults: () => void;
+}
+
+const StatusDot: React.FC<{ status: GenerationStatus }> = ({ status }) => {
+  if (status === GenerationStatus.DONE) return <CheckIcon className="w-3 h-3 text-emerald-400" />;
+  if (status === GenerationStatus.FAILED) return <XIcon className="w-3 h-3 text-red-400" />;
+  return <span className="w-2 h-2 rounded-full bg-zinc-500 animate-pulse" />;
+};
+
+/**
+ * Generation screen: overall progress, then one tile per style/color variant
+ * that shows its front render as soon as it finishes.
+ */
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ renders, onCancel, onViewResults }) => {
+  const { t } = useI18n();
+  const finished = renders.filter(r => r.status !== GenerationStatus.PENDING).length;
+  const anyDone = renders.some(r => r.status === GenerationStatus.DONE);
+
+  // Group angles under their variant, front first
+  const variants = new Map<string, GeneratedImage[]>();
+  renders.forEach(r => {
+    const key = getVariantKey(r);
+    variants.set(key, [...(variants.get(key) ?? []), r]);
+  });
+
+  return (
+    <div className="min-h-[100dvh] w-full bg-zinc-950 flex flex-col">
+      <header className="p-6 pt-10 text-center">
+        <h2 className="text-2xl font-light text-white mb-2">{t('generation.title')}</h2>
+        <p className="text-sm text-zinc-500">{t('generation.progress', { done: finished, total: renders.length })}</p>
+        <div className="mt-4 mx-auto max-w-xs h-1 rounded-full bg-zinc-800 overflow-hidden">
+          <div
+            className="h-full bg-white transition-all duration-500"
+            style={{ width: `${renders.length ? (finished / renders.length) * 100 : 0}%` }}
+          />
+        </div>
+      </header>
+
+      <main className="flex-1 px-6 pb-36 max-w-4xl mx-auto w-full grid grid-cols-2 md:grid-cols-3 gap-4 content-start">
+        {[...variants.entries()].map(([key, views]) => {
+          const sorted = [...views].sort((a, b) => getCaptureIndex(getAngle(a)) - getCaptureIndex(getAngle(b)));
+          const front = sorted[0];
+          return (
+            <div key={key} className="bg-zinc-900 rounded-xl overflow-hidden border border-zinc-800">
+              <div className="aspect-[4/5] relative bg-zinc-800">
+                {front.status === GenerationStatus.DONE && front.imageUrl && (
+                  <img src={front.imageUrl} alt={front.hairstyleName} className="absolute inset-0 w-full h-full object-cover animate-in fade-in duration-500" />
+                )}
+                {front.status === GenerationStatus.PENDING && (
+                  <div className="absolute inset-0 flex items-center justify-center scale-75">
+                    <Loader />
+                  </div>
+                )}
+                {front.status === GenerationStatus.FAILED && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center">
+                    <XIcon className="w-8 h-8 text-red-400" />
+                    <p className="text-xs text-zinc-500">{front.error}</p>
+                  </div>
+                )}
+              </div>
+              <div className="p-3">
+                <p className="text-sm text-white truncate">{front.hairstyleName}</p>
+                {front.color && <p className="text-xs text-zinc-500 truncate">{formatAppliedColor(t, front.color)}</p>}
+                {sorted.length > 1 && (
+                  <div className="mt-2 flex gap-3">
+                    {sorted.map(view => (
+                      <span key={getAngle(view)} className="flex items-center gap-1 text-[10px] uppercase tracking-wider text-zinc-400">
+                        <StatusDot status={view.status} />
+                        {t(`angle.${getAngle(view)}`)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </main>
+
+      <div className="fixed bottom-0 start-0 w-full p-6 bg-gradient-to-t from-zinc-950 via-zinc-950 to-transparent flex justify-center gap-4 safe-area-pb">
+        <button
+          onClick={onCancel}
+          className="flex-1 max-w-[180px] py-3 px-6 rounded-full border border-zinc-600 text-zinc-300 font-medium hover:bg-zinc-800 hover:text-white transition-colors"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={onViewResults}
+          disabled={!anyDone}
+          className="flex-1 max-w-[180px] py-3 px-6 rounded-full bg-white text-black font-medium hover:bg-zinc-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('generation.viewResults')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationProgress;
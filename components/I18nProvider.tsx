@@ -0,0 +1,44 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, Translate, createTranslator, detectLocale, getTextDirection, saveLocale } from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  t: Translate;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/**
+ * Holds the UI language and mirrors it onto <html lang dir>, which is what
+ * flips the layout for right-to-left languages.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode; initialLocale?: Locale }> = ({ children, initialLocale }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => initialLocale ?? detectLocale());
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    dir: getTextDirection(locale),
+    t: createTranslator(locale),
+    setLocale,
+  }), [locale, setLocale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = value.dir;
+  }, [locale, value.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside an I18nProvider");
+  return context;
+};
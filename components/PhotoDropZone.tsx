@@ -0,0 +1,76 @@
+import React, { useRef, useState } from 'react';
+import { UploadIcon, XIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { ACCEPTED_IMAGE_INPUT } from '../services/imageImport';
+
+interface PhotoDropZoneProps {
+  label: string;
+  image?: string | null;
+  busy?: boolean;
+  onFiles: (files: File[]) => void;
+  onClear: () => void;
+}
+
+/**
+ * One photo slot on the upload screen: click to pick files or drop them onto it.
+ */
+const PhotoDropZone: React.FC<PhotoDropZoneProps> = ({ label, image, busy, onFiles, onClear }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState<boolean>(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      onClick={() => !busy && inputRef.current?.click()}
+      onDragOver={e => { e.preventDefault(); setDragOver(true); }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+      className={`relative aspect-[3/4] rounded-xl overflow-hidden border-2 cursor-pointer transition-colors flex items-center justify-center ${
+        dragOver ? 'border-white bg-zinc-800' : image ? 'border-zinc-700' : 'border-dashed border-zinc-700 hover:border-zinc-500 bg-zinc-900/50'
+      }`}
+    >
+      {image ? (
+        <img src={image} alt={label} className="absolute inset-0 w-full h-full object-cover" />
+      ) : (
+        <div className="flex flex-col items-center gap-2 text-zinc-500 text-sm p-4 text-center">
+          <UploadIcon className="w-6 h-6" />
+          {busy ? t('upload.processing') : t('upload.drop')}
+        </div>
+      )}
+
+      <div className="absolute bottom-2 start-2 px-2 py-1 bg-black/60 rounded text-xs text-white pointer-events-none">{label}</div>
+
+      {image && (
+        <button
+          onClick={e => { e.stopPropagation(); onClear(); }}
+          className="absolute top-2 end-2 p-1.5 bg-black/60 rounded-full text-white hover:bg-black/80"
+          aria-label={t('upload.remove', { label })}
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_INPUT}
+        multiple
+        className="hidden"
+        onChange={e => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = '';
+          if (files.length > 0) onFiles(files);
+        }}
+      />
+    </div>
+  );
+};
+
+export default PhotoDropZone;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ChevronLeftIcon, SparklesIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { MessageKey } from '../services/i18n';
+import { getVersionIndex, getVersions } from '../services/renders';
+import { GeneratedImage } from '../types';
+
+interface RefinePanelProps {
+  render: GeneratedImage;
+  onRefine: (instruction: string) => Promise<void>; // Rejects when the refinement fails
+  onSelectVersion: (index: number) => void;
+}
+
+const QUICK_INSTRUCTIONS: MessageKey[] = [
+  'refine.quick.shorterSides',
+  'refine.quick.lessVolume',
+  'refine.quick.longerFringe',
+  'refine.quick.moreTexture',
+  'refine.quick.softerColor',
+];
+const MAX_INSTRUCTION_LENGTH = 500;
+
+/**
+ * Follow-up edits for one render plus stepping through its earlier versions.
+ */
+const RefinePanel: React.FC<RefinePanelProps> = ({ render, onRefine, onSelectVersion }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [instruction, setInstruction] = useState<string>('');
+  const [isRefining, setIsRefining] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const versions = getVersions(render);
+  const index = getVersionIndex(render);
+  const version = versions[index];
+
+  const submit = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isRefining) return;
+    setIsRefining(true);
+    setError(null);
+    try {
+      await onRefine(trimmed);
+      setInstruction('');
+      setIsOpen(false);
+    } catch (err: any) {
+      setError(err?.message || t('refine.failed'));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  return (
+    <div className="px-6 pt-4 space-y-3">
+      {versions.length > 1 && (
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onSelectVersion(index - 1)}
+            disabled={index === 0}
+            className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent"
+            aria-label={t('refine.previousVersion')}
+          >
+            <ChevronLeftIcon className="w-4 h-4 rtl:rotate-180" />
+          </button>
+          <div className="flex-1 min-w-0 text-center">
+            <p className="text-xs uppercase tracking-widest text-zinc-500 font-semibold">{t('refine.version', { index: index + 1, total: versions.length })}</p>
+            <p className="text-sm text-zinc-400 truncate">{version?.instruction ? `“${version.instruction}”` : t('refine.originalRender')}</p>
+          </div>
+          <button
+            onClick={() => onSelectVersion(index + 1)}
+            disabled={index === versions.length - 1}
+            className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent"
+            aria-label={t('refine.nextVersion')}
+          >
+            <ChevronLeftIcon className="w-4 h-4 rotate-180 rtl:rotate-0" />
+          </button>
+        </div>
+      )}
+
+      {!isOpen ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="w-full py-2 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors flex items-center justify-center gap-2"
+        >
+          <SparklesIcon className="w-4 h-4" />
+          {t('refine.open')}
+        </button>
+      ) : (
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            submit(instruction);
+          }}
+          className="space-y-2"
+        >
+          <div className="flex flex-wrap gap-1.5">
+            {QUICK_INSTRUCTIONS.map(quick => (
+              <button
+                key={quick}
+                type="button"
+                onClick={() => setInstruction(t(quick))}
+                disabled={isRefining}
+                className="px-2.5 py-1 rounded-full bg-zinc-800 text-xs text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors"
+              >
+                {t(quick)}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={instruction}
+            onChange={e => setInstruction(e.target.value)}
+            maxLength={MAX_INSTRUCTION_LENGTH}
+            disabled={isRefining}
+            autoFocus
+            placeholder={t('refine.placeholder')}
+            className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-400"
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              disabled={isRefining}
+              className="flex-1 py-2 rounded-lg text-sm text-zinc-400 hover:text-white"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={isRefining || !instruction.trim()}
+              className="flex-1 py-2 rounded-lg bg-white text-black text-sm font-medium hover:bg-zinc-200 transition-colors disabled:opacity-40"
+            >
+              {isRefining ? t('refine.applying') : t('refine.apply')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default RefinePanel;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import BeforeAfterSlider from './BeforeAfterSlider';
+import Loader from './Loader';
+import RefinePanel from './RefinePanel';
+import { DownloadIcon, RefreshCwIcon, XIcon, ChevronLeftIcon, FileTextIcon, ShareIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { getHairColor } from '../services/hairColors';
+import { formatAppliedColor } from '../services/i18n';
+import { CAPTURE_ANGLES, getAngle, getCaptureIndex } from '../services/renders';
+import { GeneratedImage, GenerationStatus, HairstyleSuggestion } from '../types';
+
+interface ResultCardProps {
+  suggestion?: HairstyleSuggestion;
+  renders: GeneratedImage[]; // One style/color variant, one entry per angle
+  originals: string[]; // [Front, Left, Right] captures
+  isComparing: boolean;
+  compact?: boolean; // Gallery layout: smaller text, reasoning collapsed
+  onToggleCompare: () => void;
+  onRetry: (render: GeneratedImage) => void;
+  onDownload: (render: GeneratedImage) => void;
+  onRefine: (render: GeneratedImage, instruction: string) => Promise<void>;
+  onSelectVersion: (render: GeneratedImage, index: number) => void;
+  onBrief: (render: GeneratedImage, action: 'print' | 'share') => Promise<void>; // Stylist brief for this variant; rejects with a message to show
+}
+
+/**
+ * One result card. When side views were rendered the image area becomes a
+ * Front / Left / Right carousel, each view with its own before/after slider
+ * and its own refinement history.
+ */
+const ResultCard: React.FC<ResultCardProps> = ({ suggestion, renders, originals, isComparing, compact = false, onToggleCompare, onRetry, onDownload, onRefine, onSelectVersion, onBrief }) => {
+  const { t } = useI18n();
+  const views = [...renders].sort((a, b) => getCaptureIndex(getAngle(a)) - getCaptureIndex(getAngle(b)));
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const [briefError, setBriefError] = useState<string | null>(null);
+  const current = views[Math.min(activeIndex, views.length - 1)];
+  if (!current) return null;
+
+  const angle = getAngle(current);
+  const isFront = angle === CAPTURE_ANGLES[0];
+  const variantLabel = current.color ? formatAppliedColor(t, current.color) : null;
+  const front = views.find(v => getAngle(v) === CAPTURE_ANGLES[0]);
+  const step = (delta: number) => setActiveIndex((activeIndex + delta + views.length) % views.length);
+
+  const exportBrief = async (render: GeneratedImage, action: 'print' | 'share') => {
+    setBriefError(null);
+    try {
+      await onBrief(render, action);
+    } catch (err: any) {
+      setBriefError(err?.message || t(action === 'print' ? 'brief.printFailed' : 'brief.shareFailed'));
+    }
+  };
+
+  return (
+    <div className="group bg-zinc-900 rounded-2xl overflow-hidden border border-zinc-800 shadow-xl hover:border-zinc-700 transition-all duration-500">
+      <div className="aspect-[4/5] relative bg-zinc-800 overflow-hidden">
+        {current.status === GenerationStatus.DONE && current.imageUrl && (
+          <>
+            <BeforeAfterSlider
+              key={angle}
+              beforeSrc={originals[getCaptureIndex(angle)] ?? originals[0]}
+              afterSrc={current.imageUrl}
+              alt={`${current.hairstyleName} (${t(`angle.${angle}`)})`}
+            />
+            <button
+              onClick={() => onDownload(current)}
+              className="absolute top-4 end-4 p-3 bg-black/30 backdrop-blur-md text-white rounded-full border border-white/10 transition-all duration-300 hover:bg-white hover:text-black hover:scale-110 active:scale-95"
+              title={t('results.download')}
+            >
+              <DownloadIcon className="w-5 h-5" />
+            </button>
+            {isFront && (
+              <button
+                onClick={onToggleCompare}
+                className={`absolute bottom-28 end-4 px-3 py-1.5 rounded-full text-xs font-medium border backdrop-blur-md transition-colors ${
+                  isComparing
+                    ? 'bg-white text-black border-white'
+                    : 'bg-black/30 text-white border-white/10 hover:bg-black/50'
+                }`}
+              >
+                {isComparing ? t('results.comparing') : t('results.compare')}
+              </button>
+            )}
+          </>
+        )}
+
+        {current.status === GenerationStatus.PENDING && (
+          <div className="absolute inset-0 flex items-center justify-center pb-24">
+            <Loader text={t('results.rendering')} />
+          </div>
+        )}
+
+        {current.status === GenerationStatus.FAILED && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-8 pb-32 text-center">
+            <XIcon className="w-10 h-10 text-red-400" />
+            <p className="text-sm text-zinc-400 max-w-xs">{current.error}</p>
+            <button
+              onClick={() => onRetry(current)}
+              className="px-5 py-2 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200 transition-colors flex items-center gap-2"
+            >
+              <RefreshCwIcon className="w-4 h-4" />
+              {t('results.retry')}
+            </button>
+          </div>
+        )}
+
+        {/* View carousel controls */}
+        {views.length > 1 && (
+          <>
+            <button
+              onClick={() => step(-1)}
+              className="absolute start-2 top-1/2 -translate-y-1/2 p-2 bg-black/40 rounded-full text-white hover:bg-black/60 z-10"
+              aria-label={t('results.previousView')}
+            >
+              <ChevronLeftIcon className="w-5 h-5 rtl:rotate-180" />
+            </button>
+            <button
+              onClick={() => step(1)}
+              className="absolute end-2 top-1/2 -translate-y-1/2 p-2 bg-black/40 rounded-full text-white hover:bg-black/60 z-10"
+              aria-label={t('results.nextView')}
+            >
+              <ChevronLeftIcon className="w-5 h-5 rotate-180 rtl:rotate-0" />
+            </button>
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-1 p-1 bg-black/50 backdrop-blur-md rounded-full z-10">
+              {views.map((view, idx) => (
+                <button
+                  key={getAngle(view)}
+                  onClick={() => setActiveIndex(idx)}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                    idx === activeIndex ? 'bg-white text-black' : 'text-zinc-300 hover:text-white'
+                  }`}
+                >
+                  {t(`angle.${getAngle(view)}`)}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="absolute bottom-0 start-0 w-full bg-gradient-to-t from-black/90 via-black/50 to-transparent p-6 pt-20 pointer-events-none">
+          <h3 className={`${compact ? 'text-lg' : 'text-2xl'} font-semibold text-white mb-1`}>{current.hairstyleName}</h3>
+          {current.color && (
+            <div className="flex items-center gap-2 mb-1 text-sm text-white">
+              <span
+                className="w-3 h-3 rounded-full border border-white/40"
+                style={{ backgroundColor: getHairColor(current.color.id)?.swatch }}
+              />
+              {variantLabel}
+            </div>
+          )}
+          <p className={`text-sm text-zinc-300 font-light opacity-90 ${compact ? 'line-clamp-2' : ''}`}>{suggestion?.description}</p>
+        </div>
+      </div>
+      {current.status === GenerationStatus.DONE && (
+        <RefinePanel
+          key={angle}
+          render={current}
+          onRefine={instruction => onRefine(current, instruction)}
+          onSelectVersion={index => onSelectVersion(current, index)}
+        />
+      )}
+      {front?.status === GenerationStatus.DONE && (
+        <div className="px-6 pt-3 flex items-center gap-2">
+          <FileTextIcon className="w-4 h-4 text-zinc-500" />
+          <span className="flex-1 text-xs uppercase tracking-widest text-zinc-500 font-semibold">{t('brief.title')}</span>
+          <button
+            onClick={() => exportBrief(front, 'print')}
+            className="px-3 py-1.5 rounded-full bg-zinc-800 text-xs text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors"
+          >
+            {t('brief.print')}
+          </button>
+          <button
+            onClick={() => exportBrief(front, 'share')}
+            className="px-3 py-1.5 rounded-full bg-zinc-800 text-xs text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <ShareIcon className="w-3 h-3" />
+            {t('brief.share')}
+          </button>
+        </div>
+      )}
+      {front?.status === GenerationStatus.DONE && briefError && (
+        <p className="px-6 pt-2 text-xs text-red-400">{briefError}</p>
+      )}
+      {suggestion && !compact && (
+        <div className="p-6">
+          <h4 className="text-xs uppercase tracking-widest text-zinc-500 mb-2 font-semibold">{t('results.whyItWorks')}</h4>
+          <p className="text-zinc-400 text-sm leading-relaxed">
+            {suggestion.reasoning}
+          </p>
+        </div>
+      )}
+      {suggestion && compact && (
+        <details className="px-4 py-3">
+          <summary className="text-xs uppercase tracking-widest text-zinc-500 font-semibold cursor-pointer hover:text-zinc-300">{t('results.whyItWorks')}</summary>
+          <p className="mt-2 text-zinc-400 text-sm leading-relaxed">{suggestion.reasoning}</p>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ResultCard;
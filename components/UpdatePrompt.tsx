@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { RefreshCwIcon, XIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+
+interface UpdatePromptProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload, onDismiss }) => {
+  const { t } = useI18n();
+  const [isReloading, setIsReloading] = useState<boolean>(false);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] w-[calc(100%-3rem)] max-w-sm flex items-center gap-3 p-3 ps-5 bg-zinc-900 border border-zinc-700 rounded-2xl shadow-2xl" role="status">
+      <p className="flex-1 text-sm text-zinc-300">{t('update.available')}</p>
+      <button
+        onClick={() => {
+          setIsReloading(true);
+          onReload();
+        }}
+        disabled={isReloading}
+        className="px-4 py-2 bg-white text-black rounded-full text-sm font-medium hover:bg-zinc-200 transition-colors flex items-center gap-2 disabled:opacity-60"
+      >
+        <RefreshCwIcon className={`w-4 h-4 ${isReloading ? 'animate-spin' : ''}`} />
+        {t('update.reload')}
+      </button>
+      <button onClick={onDismiss} className="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800" aria-label={t('common.dismiss')}>
+        <XIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { ChevronLeftIcon, TrashIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { formatCost } from '../services/i18n';
+import { UsageGroup, UsageRecord, getDayKey, groupUsage, summarizeUsage } from '../services/usage';
+
+interface UsageDashboardProps {
+  records: UsageRecord[]; // Oldest first, as listUsage returns them
+  budget: number; // Daily budget in USD; 0 for none
+  onBack: () => void;
+  onClear: () => void;
+}
+
+const UsageTable: React.FC<{ title: string; keyLabel: string; groups: UsageGroup[]; formatKey: (key: string) => string }> = ({ title, keyLabel, groups, formatKey }) => {
+  const { locale, t } = useI18n();
+  const number = new Intl.NumberFormat(locale);
+
+  return (
+    <section>
+      <h3 className="text-sm uppercase tracking-wider text-zinc-500 mb-3">{title}</h3>
+      <div className="overflow-x-auto rounded-xl border border-zinc-800">
+        <table className="w-full text-sm text-start">
+          <thead className="bg-zinc-900 text-zinc-400">
+            <tr>
+              <th className="px-3 py-2 text-start font-medium">{keyLabel}</th>
+              <th className="px-3 py-2 text-end font-medium">{t('usage.requests')}</th>
+              <th className="px-3 py-2 text-end font-medium">{t('usage.failures')}</th>
+              <th className="px-3 py-2 text-end font-medium">{t('usage.retries')}</th>
+              <th className="px-3 py-2 text-end font-medium">{t('usage.images')}</th>
+              <th className="px-3 py-2 text-end font-medium">{t('usage.tokens')}</th>
+              <th className="px-3 py-2 text-end font-medium">{t('usage.latency')}</th>
+              <th className="px-3 py-2 text-end font-medium">{t('usage.cost')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800">
+            {groups.map(({ key, totals }) => (
+              <tr key={key} className="text-zinc-300">
+                <td className="px-3 py-2 whitespace-nowrap">{formatKey(key)}</td>
+                <td className="px-3 py-2 text-end">{number.format(totals.requests)}</td>
+                <td className={`px-3 py-2 text-end ${totals.failures > 0 ? 'text-red-400' : ''}`}>{number.format(totals.failures)}</td>
+                <td className="px-3 py-2 text-end">{number.format(totals.retries)}</td>
+                <td className="px-3 py-2 text-end">{number.format(totals.images)}</td>
+                <td className="px-3 py-2 text-end">{number.format(totals.inputTokens + totals.outputTokens)}</td>
+                <td className="px-3 py-2 text-end whitespace-nowrap">
+                  {totals.calls > 0 ? t('usage.seconds', { seconds: Math.round(totals.latencyMs / totals.calls / 100) / 10 }) : '–'}
+                </td>
+                <td className="px-3 py-2 text-end">{formatCost(locale, totals.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+/**
+ * Usage screen: today's estimated spend against the daily budget, then totals
+ * per day and per consultation, newest first.
+ */
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, budget, onBack, onClear }) => {
+  const { locale, t } = useI18n();
+  const today = getDayKey(Date.now());
+  const spent = summarizeUsage(records.filter(r => getDayKey(r.startedAt) === today)).cost;
+  const newestFirst = [...records].reverse();
+
+  // Day keys are local dates; parse the parts so no timezone shift creeps in
+  const formatDay = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(locale);
+  };
+  const sessionStarts = new Map<string, number>();
+  records.forEach(r => {
+    if (r.sessionId && !sessionStarts.has(r.sessionId)) sessionStarts.set(r.sessionId, r.startedAt);
+  });
+  const formatSession = (id: string) => new Date(sessionStarts.get(id) ?? 0).toLocaleString(locale);
+
+  return (
+    <div className="min-h-[100dvh] bg-zinc-950 text-zinc-100 pb-20">
+      <header className="sticky top-0 z-10 bg-zinc-950/80 backdrop-blur-md border-b border-zinc-800 p-4 flex items-center gap-3">
+        <button onClick={onBack} className="p-1 text-zinc-400 hover:text-white" aria-label={t('common.back')}>
+          <ChevronLeftIcon className="w-6 h-6 rtl:rotate-180" />
+        </button>
+        <h2 className="text-xl font-light">{t('usage.title')}</h2>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6 space-y-8">
+        <div className="p-5 bg-zinc-900 rounded-xl border border-zinc-800">
+          <p className="text-xs uppercase tracking-wider text-zinc-500">{t('usage.today')}</p>
+          <p className="text-3xl font-light text-white mt-1">{formatCost(locale, spent)}</p>
+          <p className="text-sm text-zinc-400 mt-1">
+            {budget > 0 ? t('usage.ofBudget', { budget: formatCost(locale, budget) }) : t('usage.noBudget')}
+          </p>
+          {budget > 0 && (
+            <div className="mt-3 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+              <div
+                className={`h-full ${spent >= budget ? 'bg-red-400' : 'bg-white'}`}
+                style={{ width: `${Math.min(100, (spent / budget) * 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+
+        {records.length === 0 ? (
+          <p className="text-center text-zinc-500 pt-8">{t('usage.empty')}</p>
+        ) : (
+          <>
+            <UsageTable
+              title={t('usage.byDay')}
+              keyLabel={t('usage.day')}
+              groups={groupUsage(newestFirst, r => getDayKey(r.startedAt))}
+              formatKey={formatDay}
+            />
+            <UsageTable
+              title={t('usage.bySession')}
+              keyLabel={t('usage.session')}
+              groups={groupUsage(newestFirst, r => r.sessionId)}
+              formatKey={formatSession}
+            />
+            <p className="text-xs text-zinc-500">{t('usage.estimateNote')}</p>
+            <button
+              onClick={onClear}
+              className="flex items-center gap-2 px-4 py-2 border border-zinc-700 text-zinc-400 rounded-full text-sm hover:text-red-400 hover:border-red-400/50 transition-colors"
+            >
+              <TrashIcon className="w-4 h-4" />
+              {t('usage.clear')}
+            </button>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default UsageDashboard;
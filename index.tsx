@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import UpdatePrompt from './components/UpdatePrompt';
+import { I18nProvider } from './components/I18nProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,17 +12,67 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <App />
+    </I18nProvider>
   </React.StrictMode>
 );
 
-// Register Service Worker for PWA support
+// Set once the user accepts an update, so the first install's clients.claim()
+// doesn't trigger a reload
+let updateAccepted = false;
+
+// Shown when a new service worker has installed and is waiting to take over
+const showUpdatePrompt = (worker: ServiceWorker) => {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const promptRoot = ReactDOM.createRoot(container);
+  const dismiss = () => {
+    promptRoot.unmount();
+    container.remove();
+  };
+  promptRoot.render(
+    <I18nProvider>
+      <UpdatePrompt
+        onReload={() => {
+          updateAccepted = true;
+          worker.postMessage({ type: 'SKIP_WAITING' });
+        }}
+        onDismiss={dismiss}
+      />
+    </I18nProvider>
+  );
+};
+
+// Register Service Worker for PWA support. sw.js is generated by the build
+// (plugins/serviceWorker.ts), so only production builds have one.
 if ('serviceWorker' in navigator) {
-  window.addEventListener('load', () => {
-    navigator.serviceWorker.register('/sw.js').then(registration => {
-      console.log('SW registered: ', registration);
-    }).catch(registrationError => {
-      console.log('SW registration failed: ', registrationError);
+  if ((import.meta as any).env?.PROD) {
+    window.addEventListener('load', () => {
+      navigator.serviceWorker.register('/sw.js').then(registration => {
+        const watch = (worker: ServiceWorker | null) => {
+          worker?.addEventListener('statechange', () => {
+            // With no controller this is the first install, not an update
+            if (worker.state === 'installed' && navigator.serviceWorker.controller) showUpdatePrompt(worker);
+          });
+        };
+        if (registration.waiting && navigator.serviceWorker.controller) showUpdatePrompt(registration.waiting);
+        registration.addEventListener('updatefound', () => watch(registration.installing));
+      }).catch(registrationError => {
+        console.log('SW registration failed: ', registrationError);
+      });
+
+      // The waiting worker took over after the user accepted the update
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (!updateAccepted) return;
+        updateAccepted = false;
+        window.location.reload();
+      });
     });
-  });
-}
\ No newline at end of file
+  } else {
+    // Drop workers left over from a production build served on the same origin
+    navigator.serviceWorker.getRegistrations().then(registrations => {
+      registrations.forEach(registration => registration.unregister());
+    });
+  }
+}
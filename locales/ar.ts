@@ -0,0 +1,378 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+  // Idle
+  'idle.tagline': 'اكتشف إطلالتك المثالية. نحلل شكل وجهك من 3 زوايا لنعرض لك تسريحات مناسبة لك فورًا.',
+  'idle.start': 'ابدأ التحليل',
+  'idle.history': 'الاستشارات السابقة',
+  'idle.clients': 'العملاء',
+  'idle.forClient': 'استشارة لـ {name}',
+  'idle.changeClient': 'تغيير',
+  'idle.clearClient': 'المتابعة دون عميل',
+  'idle.upload': 'رفع صور بدلًا من ذلك',
+  'idle.usage': 'الاستخدام والميزانية',
+  'idle.offline': 'أنت غير متصل. يحتاج التحليل الجديد إلى اتصال، لكن استشاراتك السابقة ما زالت متاحة.',
+  'idle.language': 'اللغة',
+
+  // Common
+  'common.back': 'رجوع',
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.continue': 'متابعة',
+  'common.optional': '(اختياري)',
+  'common.any': 'أي',
+  'common.dismiss': 'تجاهل',
+  'common.freshResults': 'تنويعات جديدة',
+  'common.freshResultsHint': 'اطلب من النموذج مرة أخرى بدلًا من إعادة استخدام النتائج المحفوظة لنفس الصور والخيارات.',
+
+  // Angles
+  'angle.FRONT': 'أمامي',
+  'angle.LEFT': 'يسار',
+  'angle.RIGHT': 'يمين',
+  'angle.frontView': 'المنظر الأمامي',
+  'angle.leftProfile': 'الجانب الأيسر',
+  'angle.rightProfile': 'الجانب الأيمن',
+  'angle.BACK': 'خلفي',
+  'angle.backView': 'مؤخرة الرأس',
+
+  // Camera
+  'camera.frontHint': 'انظر مباشرة إلى الكاميرا',
+  'camera.leftHint': 'أدر رأسك قليلًا إلى اليمين',
+  'camera.rightHint': 'أدر رأسك قليلًا إلى اليسار',
+  'camera.autoOn': 'تلقائي: تشغيل',
+  'camera.autoOff': 'تلقائي: إيقاف',
+  'camera.autoTitle': 'التقاط الصورة تلقائيًا عندما تكون وضعيتك صحيحة',
+  'camera.shutter': 'التقاط صورة',
+  'camera.accessError': 'تعذر الوصول إلى الكاميرا. يرجى التأكد من منح الأذونات.',
+  'camera.backHint': 'استدر بحيث تكون مؤخرة الرأس مواجهة للكاميرا',
+  'camera.permissionDenied': 'تم رفض الوصول إلى الكاميرا. اسمح بالكاميرا من إعدادات المتصفح وحاول مرة أخرى.',
+  'camera.notFound': 'لم يتم العثور على كاميرا. وصّل كاميرا أو ارفع الصور بدلًا من ذلك.',
+  'camera.inUse': 'الكاميرا قيد الاستخدام من تطبيق آخر. أغلقه وحاول مرة أخرى.',
+  'camera.unsupported': 'لا يمكن لهذا المتصفح فتح الكاميرا هنا. استخدم اتصالًا آمنًا (https) أو ارفع الصور بدلًا من ذلك.',
+  'camera.select': 'الكاميرا',
+  'camera.deviceName': 'كاميرا {number}',
+  'camera.flip': 'تبديل الكاميرا',
+  'camera.mirror': 'مرآة',
+  'camera.mirrorTitle': 'اقلب المعاينة كالمرآة؛ تُحفظ الصور دون قلب',
+  'camera.timerOff': 'بدون مؤقت',
+  'camera.timer': 'مؤقت {seconds} ث',
+  'camera.cancelTimer': 'إلغاء المؤقت',
+  'camera.backOfHead': 'مؤخرة الرأس',
+  'camera.backOfHeadTitle': 'أضف صورة لمؤخرة الرأس بعد زوايا الوجه الثلاث',
+
+  // Capture feedback
+  'feedback.tooDark': 'الإضاءة خافتة جدًا — ابحث عن ضوء أكثر',
+  'feedback.tooBright': 'الإضاءة قوية جدًا — تجنب الضوء المباشر',
+  'feedback.noFace': 'ضع وجهك داخل الشكل البيضاوي',
+  'feedback.moveCloser': 'اقترب أكثر',
+  'feedback.moveBack': 'ابتعد قليلًا',
+  'feedback.center': 'ضع وجهك في منتصف الشكل البيضاوي',
+  'feedback.lookStraight': 'انظر مباشرة إلى الكاميرا',
+  'feedback.turnOther': 'استدر في الاتجاه الآخر',
+  'feedback.turnMore': 'استدر أكثر قليلًا',
+  'feedback.blurry': 'اثبت — الصورة غير واضحة',
+  'feedback.tapShutter': 'أدر رأسك ثم اضغط زر الالتقاط',
+  'feedback.perfect': 'ممتاز — اثبت مكانك',
+
+  // Upload
+  'upload.title': 'رفع الصور',
+  'upload.subtitle': 'أضف صورة أمامية وصورتين جانبيتين. أفلت عدة ملفات معًا لملء الخانات بالترتيب.',
+  'upload.cropToFace': 'قص الصورة حول الوجه تلقائيًا',
+  'upload.drop': 'أفلت صورة أو اخترها',
+  'upload.processing': 'جارٍ المعالجة...',
+  'upload.remove': 'إزالة صورة {label}',
+  'upload.failed': 'تعذر استيراد هذه الصورة.',
+  'upload.unreadable': 'تعذّرت قراءة "{name}". يُرجى استخدام صورة JPEG أو PNG أو WebP أو HEIC.',
+  'upload.heicFailed': 'تعذّر تحويل "{name}" من صيغة HEIC.',
+  'upload.unsupported': 'نوع الصورة "{name}" غير مدعوم.',
+  'upload.processingFailed': 'تعذّرت معالجة "{name}".',
+
+  // Preview
+  'preview.title': 'مراجعة الصور',
+  'preview.hidePreferences': 'إخفاء التفضيلات',
+  'preview.editPreferences': 'تعديل التفضيلات (محددة)',
+  'preview.addPreferences': 'إضافة تفضيلات (اختياري)',
+  'preview.change': 'تغيير',
+  'preview.retake': 'إعادة الالتقاط',
+  'preview.analyze': 'تحليل',
+  'preview.needsConnection': 'يحتاج التحليل إلى اتصال',
+
+  // Preferences form
+  'constraints.minLength': 'أقصر طول',
+  'constraints.maxLength': 'أطول طول',
+  'constraints.texture': 'نوع الشعر',
+  'constraints.notSpecified': 'غير محدد',
+  'constraints.maintenance': 'العناية',
+  'constraints.maintenanceAtMost': '{level} أو أقل',
+  'constraints.workplace': 'مناسب لبيئة العمل',
+  'length.Short': 'قصير',
+  'length.Medium': 'متوسط',
+  'length.Long': 'طويل',
+  'texture.Straight': 'ناعم',
+  'texture.Wavy': 'مموج',
+  'texture.Curly': 'مجعد',
+  'texture.Coily': 'شديد التجعد',
+  'maintenance.Low': 'منخفضة',
+  'maintenance.Medium': 'متوسطة',
+  'maintenance.High': 'عالية',
+
+  // Analysis
+  'analysis.loading': 'جارٍ تحليل ملامح الوجه...',
+  'analysis.incomplete': 'جاء التحليل ناقصًا. يرجى إعادة المحاولة.',
+  'analysis.failed': 'تعذر تحليل الوجه.',
+  'faceShape.Oval': 'بيضاوي',
+  'faceShape.Square': 'مربع',
+  'faceShape.Heart': 'على شكل قلب',
+  'faceShape.Round': 'دائري',
+  'faceShape.Diamond': 'ماسي',
+  'faceShape.Oblong': 'مستطيل',
+  'density.Thin': 'خفيف',
+  'density.Medium': 'متوسط',
+  'density.Thick': 'كثيف',
+  'hairline.Straight': 'مستقيم',
+  'hairline.Rounded': 'دائري',
+  "hairline.Widow's Peak": 'على شكل حرف V',
+  'hairline.Receding': 'متراجع',
+  'proportion.Narrow': 'ضيق',
+  'proportion.Balanced': 'متوازن',
+  'proportion.Wide': 'عريض',
+
+  // Selection
+  'selection.title': 'اختر التسريحات',
+  'selection.chooseOne': 'اختر تسريحة لعرضها',
+  'selection.chooseUpTo': 'اختر حتى {max} تسريحات لعرضها',
+  'selection.counter': 'المحدد: {count} / {max}',
+  'selection.faceShape': 'شكل وجهك {shape}',
+  'selection.found': 'وجدنا {count} تسريحات تناسب ملامحك تمامًا.',
+  'selection.confidence': 'بثقة {percent}',
+  'selection.runnerUps': 'أشكال قريبة أيضًا: {shapes}',
+  'selection.features': 'ما لاحظناه',
+  'selection.featureTexture': 'نوع الشعر',
+  'selection.featureDensity': 'الكثافة',
+  'selection.featureLength': 'الطول الحالي',
+  'selection.featureHairline': 'خط الشعر',
+  'selection.featureForehead': 'الجبهة',
+  'selection.featureCheekbones': 'عظام الوجنتين',
+  'selection.featureJaw': 'الفك',
+  'selection.filterLength': 'الطول',
+  'selection.filterMaintenance': 'العناية',
+  'selection.filterHairType': 'يناسب',
+  'selection.filterAny': 'الكل',
+  'selection.sortBy': 'الترتيب حسب',
+  'selection.sort.suggested': 'الترتيب المقترح',
+  'selection.sort.length': 'الأقصر أولًا',
+  'selection.sort.maintenance': 'الأقل عناية أولًا',
+  'selection.sort.stylingTime': 'الأسرع تصفيفًا أولًا',
+  'selection.noMatches': 'لا توجد تسريحات تطابق هذه الفلاتر.',
+  'selection.clearFilters': 'مسح الفلاتر',
+  'selection.maintenanceTag': 'عناية {level}',
+  'selection.stylingTime': '{minutes} دقيقة يوميًا',
+  'selection.worksWith': 'يناسب الشعر {types}',
+  'selection.products': 'المنتجات: {products}',
+  'selection.customStyle': 'تسريحة مخصصة',
+  'selection.matchReason': 'سبب الملاءمة',
+  'selection.ownTitle': 'جرّب تسريحتك الخاصة',
+  'selection.ownName': 'اسم التسريحة، مثل: غرة ستارية',
+  'selection.ownDescription': 'صفها، مثل: غرة ستارية مع بالاياج نحاسي',
+  'selection.ownAdd': 'إضافة التسريحة',
+  'selection.ownReasoning': 'طلبك الخاص.',
+  'selection.colorTitle': 'لون الشعر',
+  'selection.colorHint': 'اختر حتى {max} ألوان لعرض كل تسريحة بها. اتركها فارغة للإبقاء على لونك الحالي.',
+  'selection.naturalShades': 'درجات طبيعية',
+  'selection.fashionColors': 'ألوان عصرية',
+  'selection.sideViews': 'عرض المناظر الجانبية',
+  'selection.sideViewsHint': 'اعرض كل تسريحة أيضًا من صورتيك الجانبيتين للحكم على الطول والطبقات من الخلف والجانبين. يتطلب ذلك ثلاثة أضعاف عدد الصور.',
+  'selection.generate': 'إنشاء الصور',
+  'selection.generateCount': 'إنشاء {count} صور',
+  'selection.generateAll': 'إنشاء كل التسريحات ({styles}) — {renders} صور',
+
+  // Colors
+  'technique.Solid': 'لون موحد',
+  'technique.Highlights': 'هايلايت',
+  'technique.Balayage': 'بالاياج',
+  'technique.Ombre': 'أومبريه',
+  'color.withTechnique': '{technique} {color}',
+  'color.jet-black': 'أسود فاحم',
+  'color.dark-brown': 'بني داكن',
+  'color.chestnut': 'كستنائي',
+  'color.caramel': 'كراميل',
+  'color.honey-blonde': 'أشقر عسلي',
+  'color.platinum': 'أشقر بلاتيني',
+  'color.auburn': 'بني محمر',
+  'color.copper': 'نحاسي',
+  'color.silver': 'رمادي فضي',
+  'color.rose-gold': 'ذهبي وردي',
+  'color.pastel-pink': 'وردي فاتح',
+  'color.lavender': 'لافندر',
+  'color.electric-blue': 'أزرق كهربائي',
+  'color.teal': 'أزرق مخضر',
+  'color.cherry-red': 'أحمر كرزي',
+
+  // Generation
+  'generation.title': 'جارٍ إنشاء إطلالاتك',
+  'generation.progress': 'جاهز {done} من {total}',
+  'generation.viewResults': 'عرض النتائج',
+  'generation.frontFirst': 'يجب إنشاء المنظر الأمامي قبل المناظر الجانبية.',
+  'generation.failed': 'تعذر إنشاء الصورة.',
+
+  // Results
+  'results.title': 'إطلالتك الجديدة',
+  'results.startOver': 'البدء من جديد',
+  'results.intro': 'إليك الصور التي أنشأها الذكاء الاصطناعي للتسريحات التي اخترتها.',
+  'results.failedCount': 'تعذر إنشاء {failed} من {total} صور. استخدم زر إعادة المحاولة على البطاقة.',
+  'results.tryMore': 'جرّب تسريحات أخرى',
+  'results.tryAnotherPhoto': 'جرّب صورة أخرى',
+  'results.compareSelected': 'الأصل + {count} محددة',
+  'results.compare': 'مقارنة',
+  'results.comparing': 'قيد المقارنة',
+  'results.clearCompare': 'مسح المقارنة',
+  'results.original': 'الأصل',
+  'results.download': 'تنزيل الصورة',
+  'results.rendering': 'جارٍ الإنشاء...',
+  'results.retry': 'إعادة المحاولة',
+  'results.previousView': 'المنظر السابق',
+  'results.nextView': 'المنظر التالي',
+  'results.whyItWorks': 'لماذا تناسبك',
+  'results.before': 'قبل',
+  'results.after': 'بعد',
+  'results.sliderLabel': 'مقارنة قبل وبعد',
+
+  // Compare view
+  'compare.title': 'مقارنة',
+  'compare.zoomIn': 'تكبير',
+  'compare.zoomOut': 'تصغير',
+  'compare.reset': 'إعادة ضبط',
+  'compare.close': 'إغلاق المقارنة',
+
+  // Refinement
+  'refine.open': 'تحسين هذه الإطلالة',
+  'refine.placeholder': 'ما الذي تريد تغييره؟ مثل: أقصر على الجانبين',
+  'refine.apply': 'تطبيق',
+  'refine.applying': 'جارٍ التحسين...',
+  'refine.failed': 'تعذر تحسين هذه الإطلالة.',
+  'refine.version': 'الإصدار {index} من {total}',
+  'refine.originalRender': 'الصورة الأصلية',
+  'refine.previousVersion': 'الإصدار السابق',
+  'refine.nextVersion': 'الإصدار التالي',
+  'refine.quick.shorterSides': 'أقصر على الجانبين',
+  'refine.quick.lessVolume': 'كثافة أقل',
+  'refine.quick.longerFringe': 'غرة أطول',
+  'refine.quick.moreTexture': 'ملمس أكثر',
+  'refine.quick.softerColor': 'لون أهدأ',
+
+  // Stylist brief
+  'brief.title': 'ملخص للمصفف',
+  'brief.print': 'طباعة / PDF',
+  'brief.share': 'مشاركة',
+  'brief.printFailed': 'تعذّر فتح نافذة الطباعة للملخص. يُرجى المحاولة مرة أخرى.',
+  'brief.shareFailed': 'تعذّرت مشاركة الملخص أو تنزيله. يُرجى المحاولة مرة أخرى.',
+  'brief.documentTitle': 'ملخص للمصفف: {style}',
+  'brief.today': 'اليوم',
+  'brief.goal': 'الهدف',
+  'brief.view': 'منظر {angle}',
+  'brief.faceShape': 'شكل الوجه',
+  'brief.style': 'التسريحة',
+  'brief.askFor': 'ما يجب طلبه',
+  'brief.whyItSuits': 'لماذا تناسب هذا الوجه',
+  'brief.color': 'اللون',
+  'brief.adjustments': 'التعديلات المطلوبة',
+  'brief.preferences': 'تفضيلات العميل',
+  'brief.prefLength': 'الطول: {range}',
+  'brief.prefTexture': 'نوع الشعر الطبيعي: {texture}',
+  'brief.prefMaintenance': 'العناية: {level} كحد أقصى',
+  'brief.prefWorkplace': 'يجب أن تناسب بيئة العمل',
+  'brief.techniqueNote.Solid': 'لون موحد من الجذور حتى الأطراف.',
+  'brief.techniqueNote.Highlights': 'خصلات هايلايت رفيعة على لون العميل الحالي.',
+  'brief.techniqueNote.Balayage': 'بالاياج مرسوم يدويًا؛ تبقى الجذور قريبة من اللون الطبيعي.',
+  'brief.techniqueNote.Ombre': 'أومبريه: اللون الطبيعي عند الجذور يتدرج إلى الدرجة المختارة عند الأطراف.',
+  'brief.disclaimer': 'صورة "الهدف" تصور بالذكاء الاصطناعي وليست صورة حقيقية. استخدمها مرجعًا للشكل واللون، وعدّلها حسب شعر العميل.',
+
+  // History
+  'history.title': 'الاستشارات السابقة',
+  'history.empty': 'لا توجد استشارات محفوظة بعد.',
+  'history.faceShape': 'وجه {shape}',
+  'history.rendered': 'صور منشأة: {count}',
+  'history.delete': 'حذف الاستشارة',
+  'history.viewResults': 'عرض النتائج',
+  'history.generateMore': 'إنشاء المزيد',
+  'history.chooseStyles': 'اختيار التسريحات',
+
+  // Clients
+  'clients.title': 'العملاء',
+  'clients.search': 'البحث بالاسم أو الملاحظات',
+  'clients.new': 'عميل جديد',
+  'clients.import': 'استيراد',
+  'clients.imported': 'تم استيراد {name} مع {count} من الاستشارات.',
+  'clients.invalidArchive': 'هذا الملف ليس أرشيف عميل من StyleAI، أو أنه تالف.',
+  'clients.importFailed': 'تعذّر استيراد العميل. يُرجى المحاولة مرة أخرى.',
+  'clients.empty': 'لا يوجد عملاء بعد. أضف عميلًا لتجميع استشاراته معًا.',
+  'clients.noMatches': 'لا يوجد عملاء يطابقون «{query}».',
+  'clients.active': 'نشط',
+  'clients.name': 'الاسم',
+  'clients.hairType': 'نوع الشعر',
+  'clients.notes': 'ملاحظات',
+  'clients.save': 'حفظ',
+  'clients.edit': 'تعديل الملف',
+  'clients.export': 'تصدير',
+  'clients.startConsultation': 'بدء استشارة',
+  'clients.continueConsultation': 'التقاط جديد',
+  'clients.progress': 'التقدم',
+  'clients.progressHint': 'قارن الصور الأمامية من زيارتين.',
+  'clients.before': 'الزيارة الأقدم',
+  'clients.after': 'الزيارة الأحدث',
+  'clients.compare': 'مقارنة',
+  'clients.consultations': 'الاستشارات',
+  'clients.noConsultations': 'لا توجد استشارات بعد.',
+  'clients.open': 'فتح',
+  'clients.delete': 'حذف العميل',
+  'clients.deleteConfirm': 'هل تريد حذف {name} وجميع استشاراته من هذا الجهاز؟ لا يمكن التراجع عن ذلك.',
+
+  // Usage
+  'usage.title': 'الاستخدام والميزانية',
+  'usage.today': 'إنفاق اليوم',
+  'usage.ofBudget': 'من ميزانية يومية قدرها {budget}',
+  'usage.noBudget': 'لم تُحدَّد ميزانية يومية',
+  'usage.budgetReached': 'تم بلوغ ميزانية اليوم البالغة {budget}. تُستأنف الطلبات الجديدة غدًا.',
+  'usage.byDay': 'حسب اليوم',
+  'usage.bySession': 'حسب الاستشارة',
+  'usage.day': 'اليوم',
+  'usage.session': 'الاستشارة',
+  'usage.requests': 'الطلبات',
+  'usage.failures': 'الفاشلة',
+  'usage.retries': 'إعادة المحاولة',
+  'usage.images': 'الصور',
+  'usage.tokens': 'الرموز',
+  'usage.latency': 'متوسط زمن الاستجابة',
+  'usage.seconds': '{seconds} ث',
+  'usage.cost': 'التكلفة التقديرية',
+  'usage.estimateNote': 'التكاليف تقديرية بناءً على عدد الرموز المُبلَّغ عنه وأسعار القائمة. الإجابات المخزنة مؤقتًا مجانية ولا تُحتسب.',
+  'usage.empty': 'لم تُسجَّل أي طلبات للنموذج بعد.',
+  'usage.clear': 'مسح بيانات الاستخدام',
+
+  // Privacy
+  'privacy.title': 'قبل الرفع',
+  'privacy.background': 'الخلفية',
+  'privacy.mode.off': 'الصورة كاملة',
+  'privacy.mode.crop': 'قص حول الرأس',
+  'privacy.mode.blur': 'تمويه الخلفية',
+  'privacy.sent': 'تُرسَل هذه الصور ({count}) عبر خادم هذا التطبيق إلى واجهة Gemini من Google لتحليل شكل الوجه وإنشاء معاينات التسريحات.',
+  'privacy.metadata': 'تُزال بيانات الموقع والكاميرا وغيرها من البيانات الوصفية على هذا الجهاز أولًا.',
+  'privacy.stored': 'لا يحتفظ الخادم بها. تُحفَظ الصور والنتائج والسجل على هذا الجهاز فقط، ويمكن حذفها من شاشة البداية في أي وقت.',
+  'privacy.agree': 'يوافق الشخص الظاهر في هذه الصور على رفعها لهذه الاستشارة.',
+  'privacy.upload': 'رفع وتحليل',
+  'privacy.prepareFailed': 'تعذّر تجهيز الصور على هذا الجهاز. جرّب «الصورة كاملة» بدلًا من ذلك.',
+  'privacy.deleteAll': 'حذف جميع بياناتي',
+  'privacy.deleteConfirm': 'سيؤدي هذا إلى حذف كل الاستشارات والصور والصور المنشأة والنتائج المخزنة وسجلات الاستخدام على هذا الجهاز، وإعادة ضبط إعداداتك. لا يمكن التراجع عن ذلك.',
+  'privacy.deleteNow': 'حذف كل شيء',
+  'privacy.deleteFailed': 'تعذّر حذف بعض البيانات. يُرجى المحاولة مرة أخرى.',
+
+  // Errors and updates
+  'error.title': 'حدث خطأ ما',
+  'error.tryAgain': 'حاول مرة أخرى',
+  'error.network': 'تعذّر الوصول إلى خادم StyleAI. تحقّق من اتصالك وحاول مرة أخرى.',
+  'error.rateLimited': 'طلبات كثيرة جدًا. يُرجى الانتظار ثم المحاولة مرة أخرى.',
+  'error.modelBusy': 'النموذج مشغول حاليًا. يُرجى المحاولة بعد قليل.',
+  'error.tooLarge': 'الصور أكبر من أن تُرسل. يُرجى التقاطها أو رفعها من جديد.',
+  'update.available': 'يتوفر إصدار جديد من StyleAI.',
+  'update.reload': 'تحديث',
+};
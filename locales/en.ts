@@ -0,0 +1,379 @@
+// Source bundle: every key lives here first. Other locales must provide the same keys.
+export const en = {
+  // Idle
+  'idle.tagline': 'Discover your perfect look. We analyze your face shape from 3 angles to visualize tailored hairstyles instantly.',
+  'idle.start': 'Start Analysis',
+  'idle.history': 'Past Consultations',
+  'idle.clients': 'Clients',
+  'idle.forClient': 'Consultation for {name}',
+  'idle.changeClient': 'Change',
+  'idle.clearClient': 'Continue without a client',
+  'idle.upload': 'Upload Photos Instead',
+  'idle.usage': 'Usage & Budget',
+  'idle.offline': "You're offline. New analyses need a connection, but your past consultations are still available.",
+  'idle.language': 'Language',
+
+  // Common
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.continue': 'Continue',
+  'common.optional': '(optional)',
+  'common.any': 'Any',
+  'common.dismiss': 'Dismiss',
+  'common.freshResults': 'Fresh variations',
+  'common.freshResultsHint': 'Ask the model again instead of reusing saved results for the same photos and options.',
+
+  // Angles
+  'angle.FRONT': 'Front',
+  'angle.LEFT': 'Left',
+  'angle.RIGHT': 'Right',
+  'angle.frontView': 'Front View',
+  'angle.leftProfile': 'Left Profile',
+  'angle.rightProfile': 'Right Profile',
+  'angle.BACK': 'Back',
+  'angle.backView': 'Back of Head',
+
+  // Camera
+  'camera.frontHint': 'Look straight at the camera',
+  'camera.leftHint': 'Turn your head slightly to the right',
+  'camera.rightHint': 'Turn your head slightly to the left',
+  'camera.autoOn': 'Auto On',
+  'camera.autoOff': 'Auto Off',
+  'camera.autoTitle': 'Take the photo automatically when your pose is right',
+  'camera.shutter': 'Take Photo',
+  'camera.accessError': 'Could not access camera. Please ensure permissions are granted.',
+  'camera.backHint': 'Turn around so the back of the head faces the camera',
+  'camera.permissionDenied': 'Camera access was denied. Allow the camera in your browser settings and try again.',
+  'camera.notFound': 'No camera was found. Connect a camera or upload photos instead.',
+  'camera.inUse': 'The camera is in use by another app. Close it and try again.',
+  'camera.unsupported': "This browser can't open the camera here. Use a secure (https) connection or upload photos instead.",
+  'camera.select': 'Camera',
+  'camera.deviceName': 'Camera {number}',
+  'camera.flip': 'Switch camera',
+  'camera.mirror': 'Mirror',
+  'camera.mirrorTitle': 'Flip the preview like a mirror; photos are saved unflipped',
+  'camera.timerOff': 'No timer',
+  'camera.timer': '{seconds}s timer',
+  'camera.cancelTimer': 'Cancel timer',
+  'camera.backOfHead': 'Back of head',
+  'camera.backOfHeadTitle': 'Add a photo of the back of the head after the three face angles',
+
+  // Capture feedback (services/faceDetection.ts)
+  'feedback.tooDark': 'Too dark — find more light',
+  'feedback.tooBright': 'Too bright — avoid direct light',
+  'feedback.noFace': 'Position your face inside the oval',
+  'feedback.moveCloser': 'Move closer',
+  'feedback.moveBack': 'Move back a little',
+  'feedback.center': 'Center your face in the oval',
+  'feedback.lookStraight': 'Look straight at the camera',
+  'feedback.turnOther': 'Turn the other way',
+  'feedback.turnMore': 'Turn a bit more',
+  'feedback.blurry': 'Hold still — image is blurry',
+  'feedback.tapShutter': 'Turn your head, then tap the shutter',
+  'feedback.perfect': 'Perfect — hold still',
+
+  // Upload
+  'upload.title': 'Upload Photos',
+  'upload.subtitle': 'Add a front view and both profiles. Drop several files at once to fill the slots in order.',
+  'upload.cropToFace': 'Crop to the face automatically',
+  'upload.drop': 'Drop or choose a photo',
+  'upload.processing': 'Processing...',
+  'upload.remove': 'Remove {label} photo',
+  'upload.failed': 'Could not import that photo.',
+  'upload.unreadable': 'Could not read "{name}". Please use a JPEG, PNG, WebP or HEIC photo.',
+  'upload.heicFailed': 'Could not convert "{name}" from HEIC.',
+  'upload.unsupported': '"{name}" is not a supported image type.',
+  'upload.processingFailed': 'Could not process "{name}".',
+
+  // Preview
+  'preview.title': 'Review Capture',
+  'preview.hidePreferences': 'Hide Preferences',
+  'preview.editPreferences': 'Edit Preferences (set)',
+  'preview.addPreferences': 'Add Preferences (optional)',
+  'preview.change': 'Change',
+  'preview.retake': 'Retake',
+  'preview.analyze': 'Analyze',
+  'preview.needsConnection': 'Analysis needs a connection',
+
+  // Preferences form
+  'constraints.minLength': 'Shortest length',
+  'constraints.maxLength': 'Longest length',
+  'constraints.texture': 'Hair texture',
+  'constraints.notSpecified': 'Not specified',
+  'constraints.maintenance': 'Maintenance',
+  'constraints.maintenanceAtMost': '{level} or less',
+  'constraints.workplace': 'Workplace appropriate',
+  'length.Short': 'Short',
+  'length.Medium': 'Medium',
+  'length.Long': 'Long',
+  'texture.Straight': 'Straight',
+  'texture.Wavy': 'Wavy',
+  'texture.Curly': 'Curly',
+  'texture.Coily': 'Coily',
+  'maintenance.Low': 'Low',
+  'maintenance.Medium': 'Medium',
+  'maintenance.High': 'High',
+
+  // Analysis
+  'analysis.loading': 'ANALYZING FACE GEOMETRY...',
+  'analysis.incomplete': 'The analysis came back incomplete. Please try analyzing again.',
+  'analysis.failed': 'Failed to analyze face.',
+  'faceShape.Oval': 'Oval',
+  'faceShape.Square': 'Square',
+  'faceShape.Heart': 'Heart',
+  'faceShape.Round': 'Round',
+  'faceShape.Diamond': 'Diamond',
+  'faceShape.Oblong': 'Oblong',
+  'density.Thin': 'Thin',
+  'density.Medium': 'Medium',
+  'density.Thick': 'Thick',
+  'hairline.Straight': 'Straight',
+  'hairline.Rounded': 'Rounded',
+  "hairline.Widow's Peak": "Widow's peak",
+  'hairline.Receding': 'Receding',
+  'proportion.Narrow': 'Narrow',
+  'proportion.Balanced': 'Balanced',
+  'proportion.Wide': 'Wide',
+
+  // Selection
+  'selection.title': 'Select Styles',
+  'selection.chooseOne': 'Choose a style to generate',
+  'selection.chooseUpTo': 'Choose up to {max} styles to generate',
+  'selection.counter': '{count} / {max} Selected',
+  'selection.faceShape': 'Your face shape is {shape}',
+  'selection.found': 'We found {count} styles that match your features perfectly.',
+  'selection.confidence': '{percent} confidence',
+  'selection.runnerUps': 'Also close: {shapes}',
+  'selection.features': 'What we noticed',
+  'selection.featureTexture': 'Texture',
+  'selection.featureDensity': 'Density',
+  'selection.featureLength': 'Current length',
+  'selection.featureHairline': 'Hairline',
+  'selection.featureForehead': 'Forehead',
+  'selection.featureCheekbones': 'Cheekbones',
+  'selection.featureJaw': 'Jaw',
+  'selection.filterLength': 'Length',
+  'selection.filterMaintenance': 'Maintenance',
+  'selection.filterHairType': 'Works with',
+  'selection.filterAny': 'Any',
+  'selection.sortBy': 'Sort by',
+  'selection.sort.suggested': 'Suggested order',
+  'selection.sort.length': 'Shortest first',
+  'selection.sort.maintenance': 'Lowest maintenance first',
+  'selection.sort.stylingTime': 'Quickest to style first',
+  'selection.noMatches': 'No styles match these filters.',
+  'selection.clearFilters': 'Clear filters',
+  'selection.maintenanceTag': '{level} maintenance',
+  'selection.stylingTime': '{minutes} min a day',
+  'selection.worksWith': 'Works with {types}',
+  'selection.products': 'Products: {products}',
+  'selection.customStyle': 'Custom Style',
+  'selection.matchReason': 'Match Reason',
+  'selection.ownTitle': 'Try your own style',
+  'selection.ownName': 'Style name, e.g. Curtain Bangs',
+  'selection.ownDescription': 'Describe it, e.g. curtain bangs with a copper balayage',
+  'selection.ownAdd': 'Add Style',
+  'selection.ownReasoning': 'Your own request.',
+  'selection.colorTitle': 'Hair Color',
+  'selection.colorHint': 'Pick up to {max} colors to render each selected style in. Leave empty to keep your current color.',
+  'selection.naturalShades': 'Natural Shades',
+  'selection.fashionColors': 'Fashion Colors',
+  'selection.sideViews': 'Render side views',
+  'selection.sideViewsHint': 'Also show each style from your left and right profile captures to judge length and layering at the back and sides. Takes three times as many renders.',
+  'selection.generate': 'Generate Visualizations',
+  'selection.generateCount': 'Generate {count} Visualizations',
+  'selection.generateAll': 'Generate All {styles} Styles ({renders} renders)',
+
+  // Colors
+  'technique.Solid': 'Solid',
+  'technique.Highlights': 'Highlights',
+  'technique.Balayage': 'Balayage',
+  'technique.Ombre': 'Ombre',
+  'color.withTechnique': '{color} {technique}',
+  'color.jet-black': 'Jet Black',
+  'color.dark-brown': 'Dark Brown',
+  'color.chestnut': 'Chestnut',
+  'color.caramel': 'Caramel',
+  'color.honey-blonde': 'Honey Blonde',
+  'color.platinum': 'Platinum Blonde',
+  'color.auburn': 'Auburn',
+  'color.copper': 'Copper',
+  'color.silver': 'Silver Grey',
+  'color.rose-gold': 'Rose Gold',
+  'color.pastel-pink': 'Pastel Pink',
+  'color.lavender': 'Lavender',
+  'color.electric-blue': 'Electric Blue',
+  'color.teal': 'Teal',
+  'color.cherry-red': 'Cherry Red',
+
+  // Generation
+  'generation.title': 'Generating Your Looks',
+  'generation.progress': '{done} of {total} ready',
+  'generation.viewResults': 'View Results',
+  'generation.frontFirst': 'The front view must render before the side views.',
+  'generation.failed': 'Failed to generate image.',
+
+  // Results
+  'results.title': 'Your New Look',
+  'results.startOver': 'Start Over',
+  'results.intro': 'Here are the AI-generated visualizations for your selected hairstyles.',
+  'results.failedCount': '{failed} of {total} renders could not be generated. Use Retry on the card to try again.',
+  'results.tryMore': 'Try More Styles',
+  'results.tryAnotherPhoto': 'Try Another Photo',
+  'results.compareSelected': 'Original + {count} selected',
+  'results.compare': 'Compare',
+  'results.comparing': 'Comparing',
+  'results.clearCompare': 'Clear Compare',
+  'results.original': 'Original',
+  'results.download': 'Download Image',
+  'results.rendering': 'RENDERING...',
+  'results.retry': 'Retry',
+  'results.previousView': 'Previous View',
+  'results.nextView': 'Next View',
+  'results.whyItWorks': 'Why it works',
+  'results.before': 'Before',
+  'results.after': 'After',
+  'results.sliderLabel': 'Before and after comparison',
+
+  // Compare view
+  'compare.title': 'Compare',
+  'compare.zoomIn': 'Zoom In',
+  'compare.zoomOut': 'Zoom Out',
+  'compare.reset': 'Reset',
+  'compare.close': 'Close Compare',
+
+  // Refinement
+  'refine.open': 'Refine This Look',
+  'refine.placeholder': 'What should change? e.g. shorter on the sides',
+  'refine.apply': 'Apply',
+  'refine.applying': 'Refining...',
+  'refine.failed': 'Could not refine this look.',
+  'refine.version': 'Version {index} of {total}',
+  'refine.originalRender': 'Original render',
+  'refine.previousVersion': 'Previous Version',
+  'refine.nextVersion': 'Next Version',
+  'refine.quick.shorterSides': 'Shorter on the sides',
+  'refine.quick.lessVolume': 'Less volume',
+  'refine.quick.longerFringe': 'Longer fringe',
+  'refine.quick.moreTexture': 'More texture',
+  'refine.quick.softerColor': 'Softer color',
+
+  // Stylist brief
+  'brief.title': 'Stylist Brief',
+  'brief.print': 'Print / PDF',
+  'brief.share': 'Share',
+  'brief.printFailed': 'Could not open the print dialog for the brief. Please try again.',
+  'brief.shareFailed': 'Could not share or download the brief. Please try again.',
+  'brief.documentTitle': 'Stylist brief: {style}',
+  'brief.today': 'Today',
+  'brief.goal': 'Goal',
+  'brief.view': '{angle} view',
+  'brief.faceShape': 'Face shape',
+  'brief.style': 'Style',
+  'brief.askFor': 'What to ask for',
+  'brief.whyItSuits': 'Why it suits this face',
+  'brief.color': 'Color',
+  'brief.adjustments': 'Adjustments requested',
+  'brief.preferences': 'Client preferences',
+  'brief.prefLength': 'Length: {range}',
+  'brief.prefTexture': 'Natural texture: {texture}',
+  'brief.prefMaintenance': 'Maintenance: {level} at most',
+  'brief.prefWorkplace': 'Needs to be workplace-appropriate',
+  'brief.techniqueNote.Solid': 'All-over color, root to ends.',
+  'brief.techniqueNote.Highlights': "Fine highlights through the client's current base color.",
+  'brief.techniqueNote.Balayage': 'Hand-painted balayage; roots stay close to the natural color.',
+  'brief.techniqueNote.Ombre': 'Ombre: natural color at the roots, graduating into the shade at the ends.',
+  'brief.disclaimer': 'The "Goal" image is an AI visualization, not a photo. Use it as a reference for shape and color, and adjust to the client\'s hair on the day.',
+
+  // History
+  'history.title': 'Past Consultations',
+  'history.empty': 'No saved consultations yet.',
+  'history.faceShape': '{shape} face',
+  'history.rendered': '{count} rendered',
+  'history.delete': 'Delete Consultation',
+  'history.viewResults': 'View Results',
+  'history.generateMore': 'Generate More',
+  'history.chooseStyles': 'Choose Styles',
+
+  // Clients
+  'clients.title': 'Clients',
+  'clients.search': 'Search by name or notes',
+  'clients.new': 'New Client',
+  'clients.import': 'Import',
+  'clients.imported': 'Imported {name} with {count} consultations.',
+  'clients.invalidArchive': 'This file is not a client archive from StyleAI, or it is damaged.',
+  'clients.importFailed': 'Could not import the client. Please try again.',
+  'clients.empty': 'No clients yet. Add one to keep their consultations together.',
+  'clients.noMatches': 'No clients match "{query}".',
+  'clients.active': 'Active',
+  'clients.name': 'Name',
+  'clients.hairType': 'Hair type',
+  'clients.notes': 'Notes',
+  'clients.save': 'Save',
+  'clients.edit': 'Edit Profile',
+  'clients.export': 'Export',
+  'clients.startConsultation': 'Start Consultation',
+  'clients.continueConsultation': 'New Capture',
+  'clients.progress': 'Progress',
+  'clients.progressHint': 'Compare the front photos from two visits.',
+  'clients.before': 'Earlier visit',
+  'clients.after': 'Later visit',
+  'clients.compare': 'Compare',
+  'clients.consultations': 'Consultations',
+  'clients.noConsultations': 'No consultations yet.',
+  'clients.open': 'Open',
+  'clients.delete': 'Delete Client',
+  'clients.deleteConfirm': 'Delete {name} and all of their consultations from this device? This cannot be undone.',
+
+  // Usage
+  'usage.title': 'Usage & Budget',
+  'usage.today': 'Spent today',
+  'usage.ofBudget': 'of {budget} daily budget',
+  'usage.noBudget': 'No daily budget set',
+  'usage.budgetReached': "Today's budget of {budget} has been reached. New requests resume tomorrow.",
+  'usage.byDay': 'Per day',
+  'usage.bySession': 'Per consultation',
+  'usage.day': 'Day',
+  'usage.session': 'Consultation',
+  'usage.requests': 'Requests',
+  'usage.failures': 'Failed',
+  'usage.retries': 'Retries',
+  'usage.images': 'Images',
+  'usage.tokens': 'Tokens',
+  'usage.latency': 'Avg. latency',
+  'usage.seconds': '{seconds} s',
+  'usage.cost': 'Est. cost',
+  'usage.estimateNote': 'Costs are estimated from reported token counts and list prices. Cached answers are free and not counted.',
+  'usage.empty': 'No model requests recorded yet.',
+  'usage.clear': 'Clear Usage Data',
+
+  // Privacy
+  'privacy.title': 'Before we upload',
+  'privacy.background': 'Background',
+  'privacy.mode.off': 'Full photo',
+  'privacy.mode.crop': 'Crop to head',
+  'privacy.mode.blur': 'Blur background',
+  'privacy.sent': "These {count} photos are sent through this app's server to Google's Gemini API to analyze the face shape and create style previews.",
+  'privacy.metadata': 'Location, camera and other photo metadata are removed on this device first.',
+  'privacy.stored': 'The server does not keep them. Photos, results and history are saved only on this device and can be deleted from the start screen at any time.',
+  'privacy.agree': 'The person in these photos agrees to them being uploaded for this consultation.',
+  'privacy.upload': 'Upload & Analyze',
+  'privacy.prepareFailed': 'Could not prepare the photos on this device. Try "Full photo" instead.',
+  'privacy.deleteAll': 'Delete all my data',
+  'privacy.deleteConfirm': 'This deletes every saved consultation, photo, render, cached result and usage record on this device, and resets your settings. It cannot be undone.',
+  'privacy.deleteNow': 'Delete Everything',
+  'privacy.deleteFailed': 'Some data could not be deleted. Please try again.',
+
+  // Errors and updates
+  'error.title': 'Something went wrong',
+  'error.tryAgain': 'Try Again',
+  'error.network': 'Could not reach the StyleAI server. Check your connection and try again.',
+  'error.rateLimited': 'Too many requests. Please wait and try again.',
+  'error.modelBusy': 'The model is busy. Please try again shortly.',
+  'error.tooLarge': 'The photos are too large to send. Please retake or re-upload them.',
+  'update.available': 'A new version of StyleAI is available.',
+  'update.reload': 'Update',
+};
+
+export type Messages = Record<keyof typeof en, string>;
@@ -0,0 +1,378 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  // Idle
+  'idle.tagline': 'अपना परफ़ेक्ट लुक खोजें। हम 3 कोणों से आपके चेहरे के आकार का विश्लेषण करके तुरंत आपके लिए उपयुक्त हेयरस्टाइल दिखाते हैं।',
+  'idle.start': 'विश्लेषण शुरू करें',
+  'idle.history': 'पिछले परामर्श',
+  'idle.clients': 'क्लाइंट',
+  'idle.forClient': '{name} के लिए परामर्श',
+  'idle.changeClient': 'बदलें',
+  'idle.clearClient': 'बिना क्लाइंट के जारी रखें',
+  'idle.upload': 'इसके बजाय फ़ोटो अपलोड करें',
+  'idle.usage': 'उपयोग और बजट',
+  'idle.offline': 'आप ऑफ़लाइन हैं। नए विश्लेषण के लिए कनेक्शन चाहिए, लेकिन आपके पिछले परामर्श अब भी उपलब्ध हैं।',
+  'idle.language': 'भाषा',
+
+  // Common
+  'common.back': 'वापस',
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.continue': 'जारी रखें',
+  'common.optional': '(वैकल्पिक)',
+  'common.any': 'कोई भी',
+  'common.dismiss': 'हटाएँ',
+  'common.freshResults': 'नए विकल्प',
+  'common.freshResultsHint': 'उन्हीं फ़ोटो और विकल्पों के लिए सहेजे गए नतीजे दोबारा इस्तेमाल करने के बजाय मॉडल से फिर पूछें।',
+
+  // Angles
+  'angle.FRONT': 'सामने',
+  'angle.LEFT': 'बायाँ',
+  'angle.RIGHT': 'दायाँ',
+  'angle.frontView': 'सामने का दृश्य',
+  'angle.leftProfile': 'बायाँ प्रोफ़ाइल',
+  'angle.rightProfile': 'दायाँ प्रोफ़ाइल',
+  'angle.BACK': 'पीछे',
+  'angle.backView': 'सिर का पिछला हिस्सा',
+
+  // Camera
+  'camera.frontHint': 'सीधे कैमरे की ओर देखें',
+  'camera.leftHint': 'अपना सिर थोड़ा दाईं ओर घुमाएँ',
+  'camera.rightHint': 'अपना सिर थोड़ा बाईं ओर घुमाएँ',
+  'camera.autoOn': 'ऑटो चालू',
+  'camera.autoOff': 'ऑटो बंद',
+  'camera.autoTitle': 'मुद्रा सही होने पर अपने-आप फ़ोटो लें',
+  'camera.shutter': 'फ़ोटो लें',
+  'camera.accessError': 'कैमरा एक्सेस नहीं हो सका। कृपया सुनिश्चित करें कि अनुमति दी गई है।',
+  'camera.backHint': 'घूम जाएँ ताकि सिर का पिछला हिस्सा कैमरे की ओर हो',
+  'camera.permissionDenied': 'कैमरा एक्सेस अस्वीकार कर दिया गया। ब्राउज़र सेटिंग में कैमरा की अनुमति दें और फिर से कोशिश करें।',
+  'camera.notFound': 'कोई कैमरा नहीं मिला। कैमरा कनेक्ट करें या इसके बजाय फ़ोटो अपलोड करें।',
+  'camera.inUse': 'कैमरा किसी दूसरे ऐप में इस्तेमाल हो रहा है। उसे बंद करें और फिर से कोशिश करें।',
+  'camera.unsupported': 'यह ब्राउज़र यहाँ कैमरा नहीं खोल सकता। सुरक्षित (https) कनेक्शन इस्तेमाल करें या इसके बजाय फ़ोटो अपलोड करें।',
+  'camera.select': 'कैमरा',
+  'camera.deviceName': 'कैमरा {number}',
+  'camera.flip': 'कैमरा बदलें',
+  'camera.mirror': 'मिरर',
+  'camera.mirrorTitle': 'प्रीव्यू को आईने की तरह पलटें; फ़ोटो बिना पलटे सहेजी जाती हैं',
+  'camera.timerOff': 'टाइमर नहीं',
+  'camera.timer': '{seconds} सेकंड टाइमर',
+  'camera.cancelTimer': 'टाइमर रद्द करें',
+  'camera.backOfHead': 'सिर का पिछला हिस्सा',
+  'camera.backOfHeadTitle': 'चेहरे के तीन कोणों के बाद सिर के पिछले हिस्से की फ़ोटो जोड़ें',
+
+  // Capture feedback
+  'feedback.tooDark': 'बहुत अँधेरा है — ज़्यादा रोशनी में जाएँ',
+  'feedback.tooBright': 'बहुत ज़्यादा रोशनी है — सीधी रोशनी से बचें',
+  'feedback.noFace': 'अपना चेहरा अंडाकार के अंदर रखें',
+  'feedback.moveCloser': 'थोड़ा पास आएँ',
+  'feedback.moveBack': 'थोड़ा पीछे हटें',
+  'feedback.center': 'चेहरा अंडाकार के बीच में रखें',
+  'feedback.lookStraight': 'सीधे कैमरे की ओर देखें',
+  'feedback.turnOther': 'दूसरी ओर घूमें',
+  'feedback.turnMore': 'थोड़ा और घूमें',
+  'feedback.blurry': 'स्थिर रहें — तस्वीर धुंधली है',
+  'feedback.tapShutter': 'सिर घुमाएँ, फिर शटर दबाएँ',
+  'feedback.perfect': 'बढ़िया — स्थिर रहें',
+
+  // Upload
+  'upload.title': 'फ़ोटो अपलोड करें',
+  'upload.subtitle': 'सामने की एक फ़ोटो और दोनों प्रोफ़ाइल जोड़ें। स्लॉट क्रम से भरने के लिए कई फ़ाइलें एक साथ छोड़ें।',
+  'upload.cropToFace': 'चेहरे के अनुसार अपने-आप क्रॉप करें',
+  'upload.drop': 'फ़ोटो यहाँ छोड़ें या चुनें',
+  'upload.processing': 'प्रोसेस हो रहा है...',
+  'upload.remove': '{label} फ़ोटो हटाएँ',
+  'upload.failed': 'यह फ़ोटो इम्पोर्ट नहीं हो सकी।',
+  'upload.unreadable': '"{name}" पढ़ी नहीं जा सकी। कृपया JPEG, PNG, WebP या HEIC फ़ोटो इस्तेमाल करें।',
+  'upload.heicFailed': '"{name}" को HEIC से बदला नहीं जा सका।',
+  'upload.unsupported': '"{name}" इमेज का यह प्रकार समर्थित नहीं है।',
+  'upload.processingFailed': '"{name}" प्रोसेस नहीं हो सकी।',
+
+  // Preview
+  'preview.title': 'फ़ोटो की समीक्षा करें',
+  'preview.hidePreferences': 'पसंद छिपाएँ',
+  'preview.editPreferences': 'पसंद बदलें (सेट है)',
+  'preview.addPreferences': 'पसंद जोड़ें (वैकल्पिक)',
+  'preview.change': 'बदलें',
+  'preview.retake': 'फिर से लें',
+  'preview.analyze': 'विश्लेषण करें',
+  'preview.needsConnection': 'विश्लेषण के लिए कनेक्शन चाहिए',
+
+  // Preferences form
+  'constraints.minLength': 'सबसे छोटी लंबाई',
+  'constraints.maxLength': 'सबसे बड़ी लंबाई',
+  'constraints.texture': 'बालों की बनावट',
+  'constraints.notSpecified': 'तय नहीं',
+  'constraints.maintenance': 'देखभाल',
+  'constraints.maintenanceAtMost': '{level} या कम',
+  'constraints.workplace': 'ऑफ़िस के लिए उपयुक्त',
+  'length.Short': 'छोटे',
+  'length.Medium': 'मध्यम',
+  'length.Long': 'लंबे',
+  'texture.Straight': 'सीधे',
+  'texture.Wavy': 'लहरदार',
+  'texture.Curly': 'घुँघराले',
+  'texture.Coily': 'बहुत घुँघराले',
+  'maintenance.Low': 'कम',
+  'maintenance.Medium': 'मध्यम',
+  'maintenance.High': 'ज़्यादा',
+
+  // Analysis
+  'analysis.loading': 'चेहरे की बनावट का विश्लेषण हो रहा है...',
+  'analysis.incomplete': 'विश्लेषण अधूरा आया। कृपया फिर से विश्लेषण करें।',
+  'analysis.failed': 'चेहरे का विश्लेषण नहीं हो सका।',
+  'faceShape.Oval': 'अंडाकार',
+  'faceShape.Square': 'चौकोर',
+  'faceShape.Heart': 'दिल के आकार का',
+  'faceShape.Round': 'गोल',
+  'faceShape.Diamond': 'हीरे के आकार का',
+  'faceShape.Oblong': 'लंबा',
+  'density.Thin': 'पतले',
+  'density.Medium': 'मध्यम',
+  'density.Thick': 'घने',
+  'hairline.Straight': 'सीधी',
+  'hairline.Rounded': 'गोल',
+  "hairline.Widow's Peak": 'V आकार की',
+  'hairline.Receding': 'पीछे हटती',
+  'proportion.Narrow': 'संकरा',
+  'proportion.Balanced': 'संतुलित',
+  'proportion.Wide': 'चौड़ा',
+
+  // Selection
+  'selection.title': 'स्टाइल चुनें',
+  'selection.chooseOne': 'बनाने के लिए एक स्टाइल चुनें',
+  'selection.chooseUpTo': 'बनाने के लिए अधिकतम {max} स्टाइल चुनें',
+  'selection.counter': '{count} / {max} चुने गए',
+  'selection.faceShape': 'आपके चेहरे का आकार {shape} है',
+  'selection.found': 'हमें {count} स्टाइल मिले जो आपके नैन-नक्श पर पूरी तरह जँचते हैं।',
+  'selection.confidence': '{percent} भरोसा',
+  'selection.runnerUps': 'इनसे भी मिलता है: {shapes}',
+  'selection.features': 'हमने क्या देखा',
+  'selection.featureTexture': 'बनावट',
+  'selection.featureDensity': 'घनापन',
+  'selection.featureLength': 'अभी की लंबाई',
+  'selection.featureHairline': 'हेयरलाइन',
+  'selection.featureForehead': 'माथा',
+  'selection.featureCheekbones': 'गाल की हड्डियाँ',
+  'selection.featureJaw': 'जबड़ा',
+  'selection.filterLength': 'लंबाई',
+  'selection.filterMaintenance': 'देखभाल',
+  'selection.filterHairType': 'किन बालों पर',
+  'selection.filterAny': 'कोई भी',
+  'selection.sortBy': 'क्रम',
+  'selection.sort.suggested': 'सुझाया गया क्रम',
+  'selection.sort.length': 'सबसे छोटे पहले',
+  'selection.sort.maintenance': 'सबसे कम देखभाल पहले',
+  'selection.sort.stylingTime': 'सबसे जल्दी बनने वाले पहले',
+  'selection.noMatches': 'इन फ़िल्टर से कोई स्टाइल मेल नहीं खाता।',
+  'selection.clearFilters': 'फ़िल्टर हटाएँ',
+  'selection.maintenanceTag': '{level} देखभाल',
+  'selection.stylingTime': 'रोज़ {minutes} मिनट',
+  'selection.worksWith': '{types} बालों पर',
+  'selection.products': 'प्रोडक्ट: {products}',
+  'selection.customStyle': 'आपका स्टाइल',
+  'selection.matchReason': 'क्यों जँचता है',
+  'selection.ownTitle': 'अपना स्टाइल आज़माएँ',
+  'selection.ownName': 'स्टाइल का नाम, जैसे कर्टन बैंग्स',
+  'selection.ownDescription': 'वर्णन करें, जैसे कॉपर बालायाज के साथ कर्टन बैंग्स',
+  'selection.ownAdd': 'स्टाइल जोड़ें',
+  'selection.ownReasoning': 'आपका अपना अनुरोध।',
+  'selection.colorTitle': 'बालों का रंग',
+  'selection.colorHint': 'हर चुने गए स्टाइल के लिए अधिकतम {max} रंग चुनें। अपना मौजूदा रंग रखने के लिए खाली छोड़ें।',
+  'selection.naturalShades': 'प्राकृतिक शेड',
+  'selection.fashionColors': 'फ़ैशन रंग',
+  'selection.sideViews': 'साइड व्यू भी बनाएँ',
+  'selection.sideViewsHint': 'पीछे और किनारों की लंबाई और लेयरिंग परखने के लिए हर स्टाइल को आपकी बाईं और दाईं प्रोफ़ाइल फ़ोटो से भी दिखाएँ। इसमें तीन गुना इमेज बनती हैं।',
+  'selection.generate': 'विज़ुअलाइज़ेशन बनाएँ',
+  'selection.generateCount': '{count} विज़ुअलाइज़ेशन बनाएँ',
+  'selection.generateAll': 'सभी {styles} स्टाइल बनाएँ ({renders} इमेज)',
+
+  // Colors
+  'technique.Solid': 'एक रंग',
+  'technique.Highlights': 'हाइलाइट्स',
+  'technique.Balayage': 'बालायाज',
+  'technique.Ombre': 'ओम्ब्रे',
+  'color.withTechnique': '{color} {technique}',
+  'color.jet-black': 'गहरा काला',
+  'color.dark-brown': 'गहरा भूरा',
+  'color.chestnut': 'चेस्टनट',
+  'color.caramel': 'कैरामेल',
+  'color.honey-blonde': 'हनी ब्लॉन्ड',
+  'color.platinum': 'प्लैटिनम ब्लॉन्ड',
+  'color.auburn': 'लाल-भूरा',
+  'color.copper': 'ताम्बई',
+  'color.silver': 'सिल्वर ग्रे',
+  'color.rose-gold': 'रोज़ गोल्ड',
+  'color.pastel-pink': 'हल्का गुलाबी',
+  'color.lavender': 'लैवेंडर',
+  'color.electric-blue': 'इलेक्ट्रिक ब्लू',
+  'color.teal': 'टील',
+  'color.cherry-red': 'चेरी लाल',
+
+  // Generation
+  'generation.title': 'आपके लुक बन रहे हैं',
+  'generation.progress': '{total} में से {done} तैयार',
+  'generation.viewResults': 'नतीजे देखें',
+  'generation.frontFirst': 'साइड व्यू से पहले सामने का व्यू बनना ज़रूरी है।',
+  'generation.failed': 'इमेज नहीं बन सकी।',
+
+  // Results
+  'results.title': 'आपका नया लुक',
+  'results.startOver': 'फिर से शुरू करें',
+  'results.intro': 'आपके चुने गए हेयरस्टाइल के लिए AI से बने विज़ुअलाइज़ेशन ये रहे।',
+  'results.failedCount': '{total} में से {failed} इमेज नहीं बन सकीं। फिर से कोशिश करने के लिए कार्ड पर "फिर कोशिश करें" दबाएँ।',
+  'results.tryMore': 'और स्टाइल आज़माएँ',
+  'results.tryAnotherPhoto': 'दूसरी फ़ोटो आज़माएँ',
+  'results.compareSelected': 'मूल + {count} चुने गए',
+  'results.compare': 'तुलना करें',
+  'results.comparing': 'तुलना में',
+  'results.clearCompare': 'तुलना हटाएँ',
+  'results.original': 'मूल',
+  'results.download': 'इमेज डाउनलोड करें',
+  'results.rendering': 'बन रहा है...',
+  'results.retry': 'फिर कोशिश करें',
+  'results.previousView': 'पिछला व्यू',
+  'results.nextView': 'अगला व्यू',
+  'results.whyItWorks': 'यह क्यों जँचता है',
+  'results.before': 'पहले',
+  'results.after': 'बाद में',
+  'results.sliderLabel': 'पहले और बाद की तुलना',
+
+  // Compare view
+  'compare.title': 'तुलना',
+  'compare.zoomIn': 'ज़ूम इन',
+  'compare.zoomOut': 'ज़ूम आउट',
+  'compare.reset': 'रीसेट',
+  'compare.close': 'तुलना बंद करें',
+
+  // Refinement
+  'refine.open': 'इस लुक को बेहतर बनाएँ',
+  'refine.placeholder': 'क्या बदलना है? जैसे किनारों पर छोटे',
+  'refine.apply': 'लागू करें',
+  'refine.applying': 'बेहतर बना रहे हैं...',
+  'refine.failed': 'यह लुक बेहतर नहीं बन सका।',
+  'refine.version': 'संस्करण {index} / {total}',
+  'refine.originalRender': 'मूल इमेज',
+  'refine.previousVersion': 'पिछला संस्करण',
+  'refine.nextVersion': 'अगला संस्करण',
+  'refine.quick.shorterSides': 'किनारों पर छोटे',
+  'refine.quick.lessVolume': 'कम वॉल्यूम',
+  'refine.quick.longerFringe': 'लंबी फ्रिंज',
+  'refine.quick.moreTexture': 'ज़्यादा टेक्सचर',
+  'refine.quick.softerColor': 'हल्का रंग',
+
+  // Stylist brief
+  'brief.title': 'स्टाइलिस्ट ब्रीफ़',
+  'brief.print': 'प्रिंट / PDF',
+  'brief.share': 'शेयर करें',
+  'brief.printFailed': 'ब्रीफ़ के लिए प्रिंट विंडो नहीं खुल सकी। कृपया फिर से कोशिश करें।',
+  'brief.shareFailed': 'ब्रीफ़ शेयर या डाउनलोड नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'brief.documentTitle': 'स्टाइलिस्ट ब्रीफ़: {style}',
+  'brief.today': 'आज',
+  'brief.goal': 'लक्ष्य',
+  'brief.view': '{angle} व्यू',
+  'brief.faceShape': 'चेहरे का आकार',
+  'brief.style': 'स्टाइल',
+  'brief.askFor': 'क्या माँगें',
+  'brief.whyItSuits': 'यह इस चेहरे पर क्यों जँचता है',
+  'brief.color': 'रंग',
+  'brief.adjustments': 'माँगे गए बदलाव',
+  'brief.preferences': 'ग्राहक की पसंद',
+  'brief.prefLength': 'लंबाई: {range}',
+  'brief.prefTexture': 'प्राकृतिक बनावट: {texture}',
+  'brief.prefMaintenance': 'देखभाल: अधिकतम {level}',
+  'brief.prefWorkplace': 'ऑफ़िस के लिए उपयुक्त होना चाहिए',
+  'brief.techniqueNote.Solid': 'जड़ से सिरे तक एक ही रंग।',
+  'brief.techniqueNote.Highlights': 'ग्राहक के मौजूदा बेस रंग में बारीक हाइलाइट्स।',
+  'brief.techniqueNote.Balayage': 'हाथ से पेंट किया बालायाज; जड़ें प्राकृतिक रंग के क़रीब रहें।',
+  'brief.techniqueNote.Ombre': 'ओम्ब्रे: जड़ों पर प्राकृतिक रंग, जो सिरों तक चुने गए शेड में बदलता जाए।',
+  'brief.disclaimer': '"लक्ष्य" इमेज AI से बनी है, असली फ़ोटो नहीं। इसे आकार और रंग के संदर्भ के लिए इस्तेमाल करें और उस दिन ग्राहक के बालों के अनुसार बदलाव करें।',
+
+  // History
+  'history.title': 'पिछले परामर्श',
+  'history.empty': 'अभी कोई सहेजा गया परामर्श नहीं है।',
+  'history.faceShape': '{shape} चेहरा',
+  'history.rendered': '{count} इमेज बनीं',
+  'history.delete': 'परामर्श मिटाएँ',
+  'history.viewResults': 'नतीजे देखें',
+  'history.generateMore': 'और बनाएँ',
+  'history.chooseStyles': 'स्टाइल चुनें',
+
+  // Clients
+  'clients.title': 'क्लाइंट',
+  'clients.search': 'नाम या नोट्स से खोजें',
+  'clients.new': 'नया क्लाइंट',
+  'clients.import': 'इम्पोर्ट करें',
+  'clients.imported': '{name} को {count} परामर्शों के साथ इम्पोर्ट किया गया।',
+  'clients.invalidArchive': 'यह फ़ाइल StyleAI का क्लाइंट आर्काइव नहीं है, या खराब है।',
+  'clients.importFailed': 'क्लाइंट इम्पोर्ट नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'clients.empty': 'अभी कोई क्लाइंट नहीं है। उनके परामर्श एक जगह रखने के लिए क्लाइंट जोड़ें।',
+  'clients.noMatches': '"{query}" से कोई क्लाइंट मेल नहीं खाता।',
+  'clients.active': 'सक्रिय',
+  'clients.name': 'नाम',
+  'clients.hairType': 'बालों का प्रकार',
+  'clients.notes': 'नोट्स',
+  'clients.save': 'सहेजें',
+  'clients.edit': 'प्रोफ़ाइल बदलें',
+  'clients.export': 'एक्सपोर्ट करें',
+  'clients.startConsultation': 'परामर्श शुरू करें',
+  'clients.continueConsultation': 'नई फ़ोटो लें',
+  'clients.progress': 'प्रगति',
+  'clients.progressHint': 'दो विज़िट की सामने वाली फ़ोटो की तुलना करें।',
+  'clients.before': 'पहले की विज़िट',
+  'clients.after': 'बाद की विज़िट',
+  'clients.compare': 'तुलना करें',
+  'clients.consultations': 'परामर्श',
+  'clients.noConsultations': 'अभी कोई परामर्श नहीं है।',
+  'clients.open': 'खोलें',
+  'clients.delete': 'क्लाइंट मिटाएँ',
+  'clients.deleteConfirm': '{name} और उनके सभी परामर्श इस डिवाइस से मिटाएँ? इसे पहले जैसा नहीं किया जा सकता।',
+
+  // Usage
+  'usage.title': 'उपयोग और बजट',
+  'usage.today': 'आज का खर्च',
+  'usage.ofBudget': '{budget} के दैनिक बजट में से',
+  'usage.noBudget': 'कोई दैनिक बजट तय नहीं है',
+  'usage.budgetReached': 'आज का {budget} का बजट पूरा हो गया है। नए अनुरोध कल से फिर शुरू होंगे।',
+  'usage.byDay': 'दिन के अनुसार',
+  'usage.bySession': 'परामर्श के अनुसार',
+  'usage.day': 'दिन',
+  'usage.session': 'परामर्श',
+  'usage.requests': 'अनुरोध',
+  'usage.failures': 'विफल',
+  'usage.retries': 'दोबारा प्रयास',
+  'usage.images': 'इमेज',
+  'usage.tokens': 'टोकन',
+  'usage.latency': 'औसत विलंब',
+  'usage.seconds': '{seconds} से.',
+  'usage.cost': 'अनुमानित लागत',
+  'usage.estimateNote': 'लागत रिपोर्ट किए गए टोकन और सूची मूल्यों से अनुमानित है। कैश किए गए जवाब मुफ़्त हैं और गिने नहीं जाते।',
+  'usage.empty': 'अभी तक कोई मॉडल अनुरोध दर्ज नहीं हुआ है।',
+  'usage.clear': 'उपयोग डेटा मिटाएँ',
+
+  // Privacy
+  'privacy.title': 'अपलोड से पहले',
+  'privacy.background': 'बैकग्राउंड',
+  'privacy.mode.off': 'पूरी फ़ोटो',
+  'privacy.mode.crop': 'सिर तक क्रॉप करें',
+  'privacy.mode.blur': 'बैकग्राउंड धुंधला करें',
+  'privacy.sent': 'ये {count} फ़ोटो इस ऐप के सर्वर के ज़रिए Google के Gemini API को भेजी जाती हैं, ताकि चेहरे का आकार जाँचा जा सके और स्टाइल प्रीव्यू बनाए जा सकें।',
+  'privacy.metadata': 'लोकेशन, कैमरा और फ़ोटो का अन्य मेटाडेटा पहले इसी डिवाइस पर हटा दिया जाता है।',
+  'privacy.stored': 'सर्वर इन्हें नहीं रखता। फ़ोटो, नतीजे और इतिहास सिर्फ़ इसी डिवाइस पर सहेजे जाते हैं और शुरुआती स्क्रीन से कभी भी मिटाए जा सकते हैं।',
+  'privacy.agree': 'इन फ़ोटो में दिख रहा व्यक्ति इस परामर्श के लिए इन्हें अपलोड करने की सहमति देता है।',
+  'privacy.upload': 'अपलोड करें और जाँचें',
+  'privacy.prepareFailed': 'इस डिवाइस पर फ़ोटो तैयार नहीं हो सकीं। इसके बजाय "पूरी फ़ोटो" आज़माएँ।',
+  'privacy.deleteAll': 'मेरा सारा डेटा मिटाएँ',
+  'privacy.deleteConfirm': 'इससे इस डिवाइस पर सहेजे गए सभी परामर्श, फ़ोटो, बनी इमेज, कैश किए गए नतीजे और उपयोग रिकॉर्ड मिट जाएँगे और आपकी सेटिंग्स रीसेट हो जाएँगी। इसे पहले जैसा नहीं किया जा सकता।',
+  'privacy.deleteNow': 'सब कुछ मिटाएँ',
+  'privacy.deleteFailed': 'कुछ डेटा नहीं मिटाया जा सका। कृपया फिर से कोशिश करें।',
+
+  // Errors and updates
+  'error.title': 'कुछ गड़बड़ हो गई',
+  'error.tryAgain': 'फिर कोशिश करें',
+  'error.network': 'StyleAI सर्वर से संपर्क नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'error.rateLimited': 'बहुत ज़्यादा अनुरोध। कृपया थोड़ा रुककर फिर से कोशिश करें।',
+  'error.modelBusy': 'मॉडल अभी व्यस्त है। कृपया थोड़ी देर में फिर से कोशिश करें।',
+  'error.tooLarge': 'फ़ोटो भेजने के लिए बहुत बड़ी हैं। कृपया दोबारा लें या अपलोड करें।',
+  'update.available': 'StyleAI का नया संस्करण उपलब्ध है।',
+  'update.reload': 'अपडेट करें',
+};
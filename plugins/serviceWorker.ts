@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+interface ServiceWorkerOptions {
+  template: string; // Path to the worker source containing __BUILD_MANIFEST__
+  fileName?: string;
+}
+
+const PLACEHOLDER = '__BUILD_MANIFEST__';
+
+const listFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full) : [full];
+  });
+
+/**
+ * Emits the service worker with a precache list of everything in the build
+ * (hashed chunks, index.html and public/ files) and a version derived from
+ * their contents, so every deploy gets a fresh cache and stale ones are dropped.
+ */
+export const serviceWorker = (options: ServiceWorkerOptions): Plugin => {
+  const fileName = options.fileName ?? 'sw.js';
+  let config: ResolvedConfig;
+
+  return {
+    name: 'styleai-service-worker',
+    apply: 'build',
+    // After vite:build-html, so index.html is already in the bundle
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_, bundle) {
+      const template = fs.readFileSync(options.template, 'utf-8');
+      if (!template.includes(PLACEHOLDER)) {
+        this.error(`${options.template} does not contain ${PLACEHOLDER}`);
+      }
+
+      const hash = createHash('sha256');
+      const assets: string[] = [];
+      const add = (file: string, content: string | Uint8Array) => {
+        assets.push(`${config.base}${file.split(path.sep).join('/')}`);
+        hash.update(file).update(content);
+      };
+
+      for (const output of Object.values(bundle)) {
+        if (output.fileName.endsWith('.map')) continue;
+        add(output.fileName, output.type === 'chunk' ? output.code : output.source);
+      }
+
+      if (config.publicDir && config.build.copyPublicDir && fs.existsSync(config.publicDir)) {
+        for (const file of listFiles(config.publicDir)) {
+          add(path.relative(config.publicDir, file), fs.readFileSync(file));
+        }
+      }
+
+      assets.sort();
+      const manifest = { version: hash.digest('hex').slice(0, 12), assets };
+      this.emitFile({
+        type: 'asset',
+        fileName,
+        source: template.replace(PLACEHOLDER, JSON.stringify(manifest)),
+      });
+    },
+  };
+};
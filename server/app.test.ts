@@ -0,0 +1,219 @@
+// @vitest-environment node
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AiProvider, FaceShape } from "../types";
+import { AnalysisValidationError } from "../services/analysisValidator";
+import { createGeminiProvider } from "../services/geminiService";
+import { createMockProvider } from "../services/mockProvider";
+import { ProxyServerOptions, createProxyServer } from "./app";
+
+const IMAGE = "data:image/jpeg;base64,Q0FQVFVSRQ==";
+
+const validAnalysis = {
+  faceShape: "Oval",
+  suggestions: ["Pixie Cut", "Long Layers", "Textured Bob", "Curtain Bangs", "Shag"].map(name => ({
+    name,
+    description: `${name} description`,
+    reasoning: `${name} reasoning`,
+  })),
+};
+
+const servers: http.Server[] = [];
+
+const listen = async (server: http.Server): Promise<string> => {
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const startProxy = (options: Partial<ProxyServerOptions> = {}) =>
+  listen(createProxyServer({ provider: createMockProvider(), ...options }));
+
+const post = async (url: string, body: unknown) => {
+  const response = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+// Provider whose calls fail with the given error
+const failingProvider = (error: unknown): AiProvider => ({
+  name: "failing",
+  analyzeFace: async () => { throw error; },
+  generateHairstyleImage: async () => { throw error; },
+});
+
+describe("API proxy", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(resolve);
+    })));
+  });
+
+  it("analyzes and renders through the provider, returning usage", async () => {
+    const url = await startProxy();
+
+    const analyzed = await post(`${url}/analyze`, { images: [IMAGE], locale: "ar" });
+    expect(analyzed.status).toBe(200);
+    expect(analyzed.body.analysis.faceShape).toBe(FaceShape.OVAL);
+    expect(analyzed.body.usage).toEqual([expect.objectContaining({ model: "mock", ok: true })]);
+
+    const generated = await post(`${url}/generate`, { image: IMAGE, hairstyleName: "Pixie Cut", hairstyleDescription: "Short" });
+    expect(generated.status).toBe(200);
+    // Renders can be sent straight back as reference images
+    const sideView = await post(`${url}/generate`, {
+      image: IMAGE,
+      hairstyleName: "Pixie Cut",
+      hairstyleDescription: "Short",
+      options: { angle: "LEFT", referenceImage: generated.body.imageUrl, refinement: { instruction: "Shorter", currentImage: generated.body.imageUrl } },
+    });
+    expect(sideView.status).toBe(200);
+  });
+
+  it("rejects malformed requests with 400", async () => {
+    const url = await startProxy();
+
+    const invalidJson = await fetch(`${url}/analyze`, { method: "POST", body: "{" });
+    expect(invalidJson.status).toBe(400);
+    expect((await invalidJson.json()).error.code).toBe("INVALID_JSON");
+
+    const noImages = await post(`${url}/analyze`, { images: [] });
+    expect(noImages.status).toBe(400);
+    expect(noImages.body.error.code).toBe("INVALID_REQUEST");
+
+    const badLocale = await post(`${url}/analyze`, { images: [IMAGE], locale: "<script>" });
+    expect(badLocale.status).toBe(400);
+
+    const noName = await post(`${url}/generate`, { image: IMAGE, hairstyleName: " ", hairstyleDescription: "" });
+    expect(noName.body.error.message).toMatch(/hairstyleName/);
+
+    const badReference = await post(`${url}/generate`, { image: IMAGE, hairstyleName: "Bob", hairstyleDescription: "", options: { referenceImage: "javascript:alert(1)" } });
+    expect(badReference.body.error.message).toMatch(/referenceImage/);
+  });
+
+  it("rejects render options and constraints the app doesn't know with 400", async () => {
+    const url = await startProxy();
+    const generate = (options: unknown) =>
+      post(`${url}/generate`, { image: IMAGE, hairstyleName: "Bob", hairstyleDescription: "", options });
+    const copper = { id: "copper", name: "Copper", technique: "Balayage" };
+
+    expect((await generate({ color: copper, angle: "LEFT", constraints: { maxLength: "Short" } })).status).toBe(200);
+
+    const cases: [unknown, RegExp][] = [
+      [{ color: "red" }, /options\.color\.id/],
+      [{ color: { ...copper, id: "neon" } }, /options\.color\.id/],
+      [{ color: { ...copper, technique: "Spray" } }, /options\.color\.technique/],
+      [{ color: { ...copper, name: "x".repeat(201) } }, /options\.color\.name/],
+      [{ angle: "TOP" }, /options\.angle/],
+      [{ constraints: { texture: 42 } }, /options\.constraints/],
+    ];
+    for (const [options, message] of cases) {
+      const response = await generate(options);
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toMatch(message);
+    }
+
+    const badConstraints = await post(`${url}/analyze`, { images: [IMAGE], constraints: { maxMaintenance: "x".repeat(5000) } });
+    expect(badConstraints.status).toBe(400);
+    expect(badConstraints.body.error.message).toMatch(/constraints/);
+    expect((await post(`${url}/analyze`, [IMAGE])).status).toBe(400);
+  });
+
+  it("answers 413 when the declared size is over the cap", async () => {
+    const url = await startProxy({ maxBodyBytes: 100 });
+
+    const response = await post(`${url}/analyze`, { images: [`data:image/jpeg;base64,${"A".repeat(200)}`] });
+    expect(response.status).toBe(413);
+    expect(response.body.error.code).toBe("PAYLOAD_TOO_LARGE");
+  });
+
+  it("answers 413 to an oversized streamed body instead of resetting the connection", async () => {
+    const url = new URL(await startProxy({ maxBodyBytes: 1024 }));
+
+    const { status, body } = await new Promise<{ status?: number; body: string }>((resolve, reject) => {
+      const req = http.request({ host: url.hostname, port: url.port, path: "/analyze", method: "POST" }, res => {
+        let text = "";
+        res.on("data", chunk => { text += chunk; });
+        res.on("end", () => resolve({ status: res.statusCode, body: text }));
+      });
+      req.on("error", reject);
+      // Chunked, so the server only finds out while reading
+      for (let i = 0; i < 8; i++) req.write("x".repeat(512));
+      req.end();
+    });
+
+    expect(status).toBe(413);
+    expect(JSON.parse(body).error.code).toBe("PAYLOAD_TOO_LARGE");
+  });
+
+  it("rate limits each client with 429 and Retry-After", async () => {
+    const url = await startProxy({ analyzeRateLimit: { capacity: 1, refillPerMinute: 1 } });
+
+    expect((await post(`${url}/analyze`, { images: [IMAGE] })).status).toBe(200);
+    const limited = await post(`${url}/analyze`, { images: [IMAGE] });
+    expect(limited.status).toBe(429);
+    expect(limited.body.error.code).toBe("RATE_LIMITED");
+    expect(limited.headers.get("retry-after")).toBe("60");
+    // Renders have their own budget
+    expect((await post(`${url}/generate`, { image: IMAGE, hairstyleName: "Bob", hairstyleDescription: "" })).status).toBe(200);
+  });
+
+  it("maps provider failures onto HTTP errors", async () => {
+    const busy = await startProxy({ provider: failingProvider(Object.assign(new Error("Quota"), { status: 429 })) });
+    const rateLimited = await post(`${busy}/analyze`, { images: [IMAGE] });
+    expect(rateLimited.status).toBe(429);
+    expect(rateLimited.body.error.code).toBe("UPSTREAM_RATE_LIMITED");
+    expect(rateLimited.headers.get("retry-after")).toBe("10");
+
+    const malformed = await startProxy({ provider: failingProvider(new AnalysisValidationError(["Bad shape."])) });
+    const invalid = await post(`${malformed}/analyze`, { images: [IMAGE] });
+    expect(invalid.status).toBe(502);
+    expect(invalid.body.error).toMatchObject({ code: "ANALYSIS_INVALID", issues: ["Bad shape."] });
+
+    const broken = await startProxy({ provider: failingProvider(new Error("Upstream exploded")) });
+    const failed = await post(`${broken}/generate`, { image: IMAGE, hairstyleName: "Bob", hairstyleDescription: "" });
+    expect(failed.status).toBe(502);
+    expect(failed.body.error).toMatchObject({ code: "UPSTREAM_ERROR", message: "Upstream exploded" });
+  });
+
+  describe("against a stub of the model API", () => {
+    // Answers every generateContent call with the scripted status and body
+    const startModelStub = (status: number, body: unknown) =>
+      listen(http.createServer((req, res) => {
+        req.resume();
+        req.on("end", () => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(body));
+        });
+      }));
+
+    it("returns the analysis with token usage", async () => {
+      const baseUrl = await startModelStub(200, {
+        candidates: [{ content: { parts: [{ text: JSON.stringify(validAnalysis) }] } }],
+        usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 300, totalTokenCount: 1500 },
+      });
+      const url = await startProxy({ provider: createGeminiProvider({ apiKey: "test-key", baseUrl }) });
+
+      const response = await post(`${url}/analyze`, { images: [IMAGE] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.analysis.suggestions).toHaveLength(5);
+      expect(response.body.usage).toEqual([expect.objectContaining({ ok: true, inputTokens: 1200, outputTokens: 300, totalTokens: 1500 })]);
+    });
+
+    it("maps an upstream 429 onto UPSTREAM_RATE_LIMITED", async () => {
+      const baseUrl = await startModelStub(429, { error: { code: 429, message: "Resource exhausted", status: "RESOURCE_EXHAUSTED" } });
+      const url = await startProxy({ provider: createGeminiProvider({ apiKey: "test-key", baseUrl }) });
+
+      const response = await post(`${url}/analyze`, { images: [IMAGE] });
+
+      expect(response.status).toBe(429);
+      expect(response.body.error.code).toBe("UPSTREAM_RATE_LIMITED");
+      expect(response.body.usage).toEqual([expect.objectContaining({ ok: false })]);
+    });
+  });
+});
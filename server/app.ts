@@ -0,0 +1,292 @@
+import http from "node:http";
+import { AiProvider, AppliedColor, CaptureAngle, ColorTechnique, GenerationOptions, ModelCall, StyleConstraints } from "../types";
+import { isAbortError } from "../services/abort";
+import { AnalysisValidationError } from "../services/analysisValidator";
+import { getHairColor } from "../services/hairColors";
+import { isRateLimitError } from "../services/rateLimit";
+import { parseConstraints } from "../services/styleConstraints";
+import { RateLimitOptions, RateLimiter, createRateLimiter } from "./rateLimiter";
+
+export interface ProxyServerOptions {
+  provider: AiProvider;
+  maxBodyBytes?: number;
+  analyzeRateLimit?: RateLimitOptions;
+  generateRateLimit?: RateLimitOptions;
+  allowedOrigin?: string; // CORS origin; unset means same-origin only (e.g. behind the Vite proxy)
+  trustProxy?: boolean; // Use X-Forwarded-For as the client key
+}
+
+// Three 1280px JPEG captures as base64 stay well under this.
+export const DEFAULT_MAX_BODY_BYTES = 8 * 1024 * 1024;
+const MAX_IMAGES = 4; // Front, left, right and an optional back-of-head photo
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_INSTRUCTION_LENGTH = 500;
+const LOCALE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+const DEFAULT_ANALYZE_LIMIT: RateLimitOptions = { capacity: 5, refillPerMinute: 5 };
+const DEFAULT_GENERATE_LIMIT: RateLimitOptions = { capacity: 10, refillPerMinute: 20 };
+
+class HttpError extends Error {
+  status: number;
+  code: string;
+  headers: Record<string, string>;
+
+  constructor(status: number, code: string, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.headers = headers;
+  }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// The rest of an oversized body is drained rather than read into memory, and the
+// connection is closed after the 413 so it isn't reused mid-body.
+const payloadTooLarge = (maxBytes: number) =>
+  new HttpError(413, "PAYLOAD_TOO_LARGE", `Request body exceeds ${maxBytes} bytes.`, { Connection: "close" });
+
+// Reads the body while enforcing the size cap, so oversized uploads are cut off early.
+const readJsonBody = (req: http.IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers["content-length"]);
+    if (declared > maxBytes) {
+      reject(payloadTooLarge(maxBytes));
+      req.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on("data", (chunk: Buffer) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        tooLarge = true;
+        chunks.length = 0;
+        reject(payloadTooLarge(maxBytes));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (tooLarge) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, "INVALID_JSON", "Request body must be valid JSON."));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const isImage = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0 && (/^data:image\/[\w.+-]+;base64,/.test(value) || /^[A-Za-z0-9+/=]+$/.test(value.slice(0, 100)));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const badRequest = (message: string) => new HttpError(400, "INVALID_REQUEST", message);
+
+const readConstraints = (value: unknown, field: string): StyleConstraints | undefined => {
+  if (value === undefined) return undefined;
+  const constraints = parseConstraints(value);
+  if (!constraints) {
+    throw badRequest(`"${field}" must be an object of known lengths, texture, maintenance level and a workplaceAppropriate boolean.`);
+  }
+  return constraints;
+};
+
+const parseAnalyzeRequest = (body: unknown) => {
+  if (!isRecord(body)) throw badRequest("Request body must be a JSON object.");
+  const { images, locale } = body;
+  if (!Array.isArray(images) || images.length === 0 || images.length > MAX_IMAGES || !images.every(isImage)) {
+    throw badRequest(`"images" must be an array of 1 to ${MAX_IMAGES} base64 images.`);
+  }
+  if (locale !== undefined && (typeof locale !== "string" || !LOCALE_PATTERN.test(locale))) {
+    throw badRequest(`"locale" must be a BCP 47 language tag.`);
+  }
+  return { images: images as string[], constraints: readConstraints(body.constraints, "constraints"), locale: locale as string | undefined };
+};
+
+const readColor = (value: unknown): AppliedColor | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || typeof value.id !== "string" || !getHairColor(value.id)) {
+    throw badRequest(`"options.color.id" must be one of the app's hair colors.`);
+  }
+  if (typeof value.name !== "string" || !value.name.trim() || value.name.length > MAX_NAME_LENGTH) {
+    throw badRequest(`"options.color.name" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (!Object.values(ColorTechnique).includes(value.technique as ColorTechnique)) {
+    throw badRequest(`"options.color.technique" must be one of ${Object.values(ColorTechnique).join(", ")}.`);
+  }
+  return { id: value.id, name: value.name, technique: value.technique as ColorTechnique };
+};
+
+// Builds the options from the known fields only, so nothing else in the body reaches the provider.
+const readGenerationOptions = (value: unknown): GenerationOptions => {
+  if (value === undefined) return {};
+  if (!isRecord(value)) throw badRequest(`"options" must be an object.`);
+  const { angle, referenceImage, refinement } = value;
+  if (angle !== undefined && !Object.values(CaptureAngle).includes(angle as CaptureAngle)) {
+    throw badRequest(`"options.angle" must be one of ${Object.values(CaptureAngle).join(", ")}.`);
+  }
+  if (referenceImage !== undefined && !isImage(referenceImage)) {
+    throw badRequest(`"options.referenceImage" must be a base64 image.`);
+  }
+  if (refinement !== undefined) {
+    if (!isRecord(refinement) || !isImage(refinement.currentImage)) {
+      throw badRequest(`"options.refinement.currentImage" must be a base64 image.`);
+    }
+    const { instruction } = refinement;
+    if (typeof instruction !== "string" || !instruction.trim() || instruction.length > MAX_INSTRUCTION_LENGTH) {
+      throw badRequest(`"options.refinement.instruction" must be a non-empty string of at most ${MAX_INSTRUCTION_LENGTH} characters.`);
+    }
+  }
+  return {
+    constraints: readConstraints(value.constraints, "options.constraints"),
+    color: readColor(value.color),
+    angle: angle as CaptureAngle | undefined,
+    referenceImage: referenceImage as string | undefined,
+    refinement: isRecord(refinement)
+      ? { instruction: refinement.instruction as string, currentImage: refinement.currentImage as string }
+      : undefined,
+  };
+};
+
+const parseGenerateRequest = (body: unknown) => {
+  if (!isRecord(body)) throw badRequest("Request body must be a JSON object.");
+  const { image, hairstyleName, hairstyleDescription } = body;
+  if (!isImage(image)) throw badRequest(`"image" must be a base64 image.`);
+  if (typeof hairstyleName !== "string" || !hairstyleName.trim() || hairstyleName.length > MAX_NAME_LENGTH) {
+    throw badRequest(`"hairstyleName" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (typeof hairstyleDescription !== "string" || hairstyleDescription.length > MAX_DESCRIPTION_LENGTH) {
+    throw badRequest(`"hairstyleDescription" must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters.`);
+  }
+  return { image, hairstyleName, hairstyleDescription, options: readGenerationOptions(body.options) };
+};
+
+const clientKey = (req: http.IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string" && forwarded) {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+const enforceLimit = (limiter: RateLimiter, key: string) => {
+  const decision = limiter.take(key);
+  if (!decision.allowed) {
+    throw new HttpError(429, "RATE_LIMITED", "Too many requests. Please wait and try again.", {
+      "Retry-After": String(decision.retryAfterSeconds),
+    });
+  }
+};
+
+// Maps provider failures onto HTTP responses the browser provider understands.
+const toHttpError = (error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  if (error instanceof AnalysisValidationError) {
+    return new HttpError(502, "ANALYSIS_INVALID", error.message);
+  }
+  if (isRateLimitError(error)) {
+    return new HttpError(429, "UPSTREAM_RATE_LIMITED", "The model is busy. Please try again shortly.", { "Retry-After": "10" });
+  }
+  const message = error instanceof Error ? error.message : "The model request failed.";
+  return new HttpError(502, "UPSTREAM_ERROR", message);
+};
+
+/**
+ * HTTP server exposing POST /analyze and POST /generate on top of an AiProvider,
+ * with per-client rate limits and a request size cap.
+ */
+export const createProxyServer = (options: ProxyServerOptions): http.Server => {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const analyzeLimiter = createRateLimiter(options.analyzeRateLimit ?? DEFAULT_ANALYZE_LIMIT);
+  const generateLimiter = createRateLimiter(options.generateRateLimit ?? DEFAULT_GENERATE_LIMIT);
+  const corsHeaders: Record<string, string> = options.allowedOrigin
+    ? {
+        "Access-Control-Allow-Origin": options.allowedOrigin,
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type",
+      }
+    : {};
+
+  return http.createServer(async (req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+
+    // Stop the upstream model call when the browser cancels or disconnects
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    // Model calls made for this request, returned to the browser for usage accounting
+    const usage: ModelCall[] = [];
+    const onModelCall = (call: ModelCall) => {
+      usage.push(call);
+    };
+
+    try {
+      if (req.method === "OPTIONS") {
+        res.writeHead(204, corsHeaders);
+        res.end();
+        return;
+      }
+      if (req.method === "GET" && path === "/health") {
+        const fingerprint = options.provider.getFingerprint ? await options.provider.getFingerprint() : options.provider.name;
+        sendJson(res, 200, { ok: true, provider: options.provider.name, fingerprint }, corsHeaders);
+        return;
+      }
+      if (path !== "/analyze" && path !== "/generate") {
+        throw new HttpError(404, "NOT_FOUND", "Not found.");
+      }
+      if (req.method !== "POST") {
+        throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use POST.", { Allow: "POST" });
+      }
+
+      const key = clientKey(req, !!options.trustProxy);
+
+      if (path === "/analyze") {
+        enforceLimit(analyzeLimiter, key);
+        const { images, constraints, locale } = parseAnalyzeRequest(await readJsonBody(req, maxBodyBytes));
+        const analysis = await options.provider.analyzeFace(images, { constraints, locale, onModelCall }, controller.signal);
+        sendJson(res, 200, { analysis, usage }, corsHeaders);
+      } else {
+        enforceLimit(generateLimiter, key);
+        const body = parseGenerateRequest(await readJsonBody(req, maxBodyBytes));
+        const imageUrl = await options.provider.generateHairstyleImage(
+          body.image,
+          body.hairstyleName,
+          body.hairstyleDescription,
+          { ...body.options, onModelCall },
+          controller.signal
+        );
+        sendJson(res, 200, { imageUrl, usage }, corsHeaders);
+      }
+    } catch (error) {
+      if (controller.signal.aborted && isAbortError(error)) return;
+      const httpError = toHttpError(error);
+      if (httpError.status >= 500) console.error(`${req.method} ${path} failed:`, error);
+      sendJson(
+        res,
+        httpError.status,
+        {
+          error: {
+            code: httpError.code,
+            message: httpError.message,
+            issues: error instanceof AnalysisValidationError ? error.issues : undefined,
+          },
+          usage,
+        },
+        { ...corsHeaders, ...httpError.headers }
+      );
+    }
+  });
+};
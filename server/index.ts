@@ -0,0 +1,48 @@
+import { existsSync } from "node:fs";
+import { createGeminiProvider } from "../services/geminiService";
+import { createMockProvider } from "../services/mockProvider";
+import { DEFAULT_MAX_BODY_BYTES, createProxyServer } from "./app";
+
+/**
+ * API proxy entry point: `npm run server`. The browser talks to this process
+ * (through the Vite `/api` proxy in dev), and only this process holds the key.
+ */
+
+// Same file the Vite config reads, so one .env.local configures both.
+if (existsSync(".env.local")) process.loadEnvFile(".env.local");
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const port = readNumber("PORT", 8787);
+const useMock = process.env.AI_PROVIDER === "mock";
+
+if (!useMock && !process.env.GEMINI_API_KEY && !process.env.API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local, or set AI_PROVIDER=mock to run offline.");
+  process.exit(1);
+}
+
+const provider = useMock
+  ? createMockProvider()
+  : createGeminiProvider({ baseUrl: process.env.GEMINI_BASE_URL || undefined });
+
+const server = createProxyServer({
+  provider,
+  maxBodyBytes: readNumber("MAX_BODY_BYTES", DEFAULT_MAX_BODY_BYTES),
+  analyzeRateLimit: {
+    capacity: readNumber("ANALYZE_BURST", 5),
+    refillPerMinute: readNumber("ANALYZE_PER_MINUTE", 5),
+  },
+  generateRateLimit: {
+    capacity: readNumber("GENERATE_BURST", 10),
+    refillPerMinute: readNumber("GENERATE_PER_MINUTE", 20),
+  },
+  allowedOrigin: process.env.ALLOWED_ORIGIN || undefined,
+  trustProxy: process.env.TRUST_PROXY === "true",
+});
+
+server.listen(port, () => {
+  console.log(`StyleAI API proxy (${provider.name}) listening on http://localhost:${port}`);
+});
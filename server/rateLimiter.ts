@@ -0,0 +1,52 @@
+export interface RateLimitOptions {
+  capacity: number; // Burst size
+  refillPerMinute: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets idle this long are full again and can be dropped.
+const IDLE_EVICTION_MS = 10 * 60 * 1000;
+
+/**
+ * Token bucket per client key. Each request takes one token; tokens refill
+ * continuously up to `capacity`.
+ */
+export const createRateLimiter = (options: RateLimitOptions, now: () => number = Date.now) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = options.refillPerMinute / 60000;
+
+  const evictIdle = (time: number) => {
+    for (const [key, bucket] of buckets) {
+      if (time - bucket.updatedAt > IDLE_EVICTION_MS) buckets.delete(key);
+    }
+  };
+
+  return {
+    take: (clientKey: string): RateLimitDecision => {
+      const time = now();
+      if (buckets.size > 1000) evictIdle(time);
+
+      const bucket = buckets.get(clientKey) ?? { tokens: options.capacity, updatedAt: time };
+      bucket.tokens = Math.min(options.capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = time;
+      buckets.set(clientKey, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+      return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
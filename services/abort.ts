@@ -0,0 +1,37 @@
+/**
+ * Helpers for cancelling in-flight analysis and generation requests.
+ */
+
+// Same shape fetch() rejects with, so callers only need one check.
+export const createAbortError = (): Error => {
+  const error = new Error("The operation was aborted.");
+  error.name = "AbortError";
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  !!error && typeof error === "object" && (error as { name?: unknown }).name === "AbortError";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
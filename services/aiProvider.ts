@@ -0,0 +1,202 @@
+import { AiProvider, AnalysisOptions, AnalysisResult, GenerationOptions, ModelCall, ModelCallListener } from "../types";
+import { isAbortError } from "./abort";
+import { DAILY_BUDGET_USD, GENERATION_CONCURRENCY, RESPONSE_CACHE_MB } from "./config";
+import { createId } from "./db";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { withRateLimitBackoff } from "./rateLimit";
+import { createResponseCache } from "./responseCache";
+import { createIndexedDbResponseStore } from "./responseStore";
+import { createTaskQueue } from "./taskQueue";
+import { UsageKind, assertWithinBudget, getStartOfDay } from "./usage";
+import { listUsage, recordUsage } from "./usageStore";
+
+// The browser never talks to Gemini directly; "proxy" goes through server/index.ts.
+export type AiProviderName = "proxy" | "mock";
+
+// Latency used by the mock backend when it is picked through the environment,
+// so the loading screens behave like the real flow in dev and demos.
+const MOCK_DEMO_LATENCY_MS = 800;
+
+const resolveProviderName = (): AiProviderName => {
+  let name: string | undefined;
+
+  try {
+    // Check import.meta.env (Vite)
+    if (typeof import.meta !== 'undefined' && (import.meta as any).env && (import.meta as any).env.VITE_AI_PROVIDER) {
+      name = (import.meta as any).env.VITE_AI_PROVIDER;
+    }
+  } catch (e) {
+    // Ignore access errors
+  }
+
+  try {
+    // Replaced at build time by vite.config.ts define; throws if nothing injected it
+    name = name || process.env.AI_PROVIDER;
+  } catch (e) {
+    // No process object in the browser
+  }
+
+  return name?.toLowerCase() === "mock" ? "mock" : "proxy";
+};
+
+let activeProvider: AiProvider | null = null;
+
+// Shared by every render (rounds, retries, side views) so large batches don't trip rate limits
+const generationQueue = createTaskQueue(GENERATION_CONCURRENCY);
+
+// Repeated analyses and renders are answered on the device instead of calling the model again
+const responseCache = createResponseCache({
+  store: createIndexedDbResponseStore(),
+  maxBytes: RESPONSE_CACHE_MB * 1024 * 1024,
+});
+
+export interface RequestOptions {
+  bypassCache?: boolean; // Ask the model for a fresh answer even if one is cached
+  sessionId?: string; // Consultation the usage is recorded against
+}
+
+const getFingerprint = (): Promise<string> => {
+  const provider = getAiProvider();
+  return provider.getFingerprint ? provider.getFingerprint() : Promise.resolve(provider.name);
+};
+
+// Refuses new model requests once today's estimated spend reaches DAILY_BUDGET_USD.
+// Usage that can't be read (no IndexedDB) never blocks a request.
+const checkBudget = async () => {
+  if (DAILY_BUDGET_USD <= 0) return;
+  const today = await listUsage(getStartOfDay(Date.now())).catch(() => []);
+  assertWithinBudget(today, DAILY_BUDGET_USD);
+};
+
+/**
+ * Records one provider request: its model calls (reported through
+ * `onModelCall`, also forwarded to `forward`) and how many attempts it took.
+ * Requests cancelled before any model call are not recorded.
+ */
+const trackUsage = (kind: UsageKind, sessionId?: string, forward?: ModelCallListener) => {
+  const startedAt = Date.now();
+  const calls: ModelCall[] = [];
+  let attempts = 0;
+
+  const finish = (status: "success" | "failure") => {
+    recordUsage({
+      id: createId(),
+      sessionId,
+      kind,
+      startedAt,
+      status,
+      // Attempts cover rate-limit backoff; calls also include corrective analysis retries
+      retries: Math.max(0, Math.max(attempts, calls.length) - 1),
+      calls,
+    }).catch(e => console.warn("Could not record usage:", e));
+  };
+
+  return {
+    onModelCall: (call: ModelCall) => {
+      calls.push(call);
+      forward?.(call);
+    },
+    attempt: () => {
+      attempts++;
+    },
+    settle: async <T>(promise: Promise<T>): Promise<T> => {
+      try {
+        const value = await promise;
+        finish("success");
+        return value;
+      } catch (error) {
+        if (!isAbortError(error) || calls.length > 0) finish("failure");
+        throw error;
+      }
+    },
+  };
+};
+
+/**
+ * Returns the provider selected by AI_PROVIDER / VITE_AI_PROVIDER ("proxy" by default).
+ */
+export const getAiProvider = (): AiProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProviderName() === "mock"
+      ? createMockProvider({ latencyMs: MOCK_DEMO_LATENCY_MS })
+      : createProxyProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the active provider (e.g. in tests). Pass null to fall back to the environment.
+ */
+export const setAiProvider = (provider: AiProvider | null) => {
+  activeProvider = provider;
+};
+
+export const analyzeFace = (
+  base64Images: string[],
+  options?: AnalysisOptions,
+  signal?: AbortSignal,
+  { bypassCache, sessionId }: RequestOptions = {}
+): Promise<AnalysisResult> =>
+  responseCache.run(
+    { kind: "analysis", images: base64Images, params: options ?? {} },
+    async taskSignal => {
+      await checkBudget();
+      const usage = trackUsage("analysis", sessionId, options?.onModelCall);
+      usage.attempt();
+      return usage.settle(
+        getAiProvider().analyzeFace(base64Images, { ...options, onModelCall: usage.onModelCall }, taskSignal)
+      );
+    },
+    { fingerprint: getFingerprint, bypass: bypassCache, signal }
+  );
+
+/**
+ * Generates a single hairstyle render. Cached renders come back immediately;
+ * otherwise waits for a slot in the generation queue, checks the daily budget,
+ * then backs off automatically on rate-limit errors.
+ */
+export const generateHairstyleImage = (
+  base64Image: string,
+  hairstyleName: string,
+  hairstyleDescription: string,
+  options?: GenerationOptions,
+  signal?: AbortSignal,
+  { bypassCache, sessionId }: RequestOptions = {}
+): Promise<string> => {
+  // Images are keyed by content, the rest of the options by value
+  const { referenceImage, refinement, ...params } = options ?? {};
+  return responseCache.run(
+    {
+      kind: "image",
+      images: [base64Image, referenceImage, refinement?.currentImage],
+      params: { hairstyleName, hairstyleDescription, ...params, instruction: refinement?.instruction },
+    },
+    taskSignal => generationQueue.run(
+      async () => {
+        await checkBudget();
+        const usage = trackUsage("image", sessionId, options?.onModelCall);
+        return usage.settle(withRateLimitBackoff(
+          () => {
+            usage.attempt();
+            return getAiProvider().generateHairstyleImage(
+              base64Image,
+              hairstyleName,
+              hairstyleDescription,
+              { ...options, onModelCall: usage.onModelCall },
+              taskSignal
+            );
+          },
+          { signal: taskSignal }
+        ));
+      },
+      taskSignal
+    ),
+    { fingerprint: getFingerprint, bypass: bypassCache, signal }
+  );
+};
+
+/**
+ * Drops every stored analysis and render. Calls already running are not affected.
+ */
+export const clearResponseCache = (): Promise<void> => responseCache.clear();
@@ -0,0 +1,205 @@
+import {
+  AnalysisResult, FaceFeatures, FaceShape, FaceShapeMatch, HairDensity, HairLength, Hairline, HairstyleSuggestion, HairTexture,
+  MaintenanceLevel, Proportion, StyleTags,
+} from "../types";
+
+export const SUGGESTION_COUNT = 5;
+
+const MAX_RUNNER_UPS = 2;
+
+// Common model wordings mapped onto the shapes listed in the analysis schema.
+const FACE_SHAPE_ALIASES: Record<string, FaceShape> = {
+  oval: FaceShape.OVAL,
+  square: FaceShape.SQUARE,
+  heart: FaceShape.HEART,
+  "inverted triangle": FaceShape.HEART,
+  round: FaceShape.ROUND,
+  circular: FaceShape.ROUND,
+  diamond: FaceShape.DIAMOND,
+  oblong: FaceShape.OBLONG,
+  long: FaceShape.OBLONG,
+  rectangle: FaceShape.OBLONG,
+  rectangular: FaceShape.OBLONG,
+};
+
+/**
+ * Raised when the model's analysis JSON can't be parsed or repaired.
+ * `issues` lists every problem found so it can be fed back as a corrective prompt.
+ */
+export class AnalysisValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`The analysis response was malformed: ${issues.join(" ")}`);
+    this.name = "AnalysisValidationError";
+    this.issues = issues;
+  }
+}
+
+const normalizeText = (value: unknown): string =>
+  typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+
+export const normalizeFaceShape = (value: unknown): FaceShape | null => {
+  const key = normalizeText(value)
+    .toLowerCase()
+    .replace(/[-_]?shaped?$/, "")
+    .replace(/\s+face$/, "")
+    .trim();
+  return FACE_SHAPE_ALIASES[key] ?? null;
+};
+
+// Case-insensitive match against an enum's values, e.g. "wavy" for HairTexture.WAVY.
+const matchEnum = <T extends string>(values: T[], value: unknown): T | undefined => {
+  const key = normalizeText(value).toLowerCase();
+  return values.find(candidate => candidate.toLowerCase() === key);
+};
+
+// Accepts a 0-1 ratio or a percentage; anything else is unknown.
+const normalizeConfidence = (value: unknown): number | null => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) return null;
+  const ratio = value > 1 ? value / 100 : value;
+  return ratio <= 1 ? ratio : null;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+// Features only enrich the screen, so unreadable fields are dropped rather than
+// failing the analysis. Without a usable confidence the whole block is left out.
+export const readFeatures = (value: unknown, faceShape: FaceShape | null): FaceFeatures | undefined => {
+  const data = asRecord(value);
+  const faceShapeConfidence = normalizeConfidence(data?.faceShapeConfidence);
+  if (!data || faceShapeConfidence === null) return undefined;
+
+  const runnerUpShapes: FaceShapeMatch[] = [];
+  for (const item of Array.isArray(data.runnerUpShapes) ? data.runnerUpShapes : []) {
+    const entry = asRecord(item);
+    const shape = normalizeFaceShape(entry?.shape);
+    const confidence = normalizeConfidence(entry?.confidence);
+    if (shape && confidence !== null && shape !== faceShape && !runnerUpShapes.some(match => match.shape === shape)) {
+      runnerUpShapes.push({ shape, confidence });
+    }
+  }
+  runnerUpShapes.sort((a, b) => b.confidence - a.confidence);
+
+  return {
+    faceShapeConfidence,
+    runnerUpShapes: runnerUpShapes.slice(0, MAX_RUNNER_UPS),
+    hairTexture: matchEnum(Object.values(HairTexture), data.hairTexture),
+    hairDensity: matchEnum(Object.values(HairDensity), data.hairDensity),
+    currentLength: matchEnum(Object.values(HairLength), data.currentLength),
+    hairline: matchEnum(Object.values(Hairline), data.hairline),
+    forehead: matchEnum(Object.values(Proportion), data.forehead),
+    cheekbones: matchEnum(Object.values(Proportion), data.cheekbones),
+    jaw: matchEnum(Object.values(Proportion), data.jaw),
+  };
+};
+
+// Tags without a length, maintenance level and styling time can't be filtered on,
+// so the suggestion is kept untagged instead.
+export const readTags = (value: unknown): StyleTags | undefined => {
+  const data = asRecord(value);
+  const length = matchEnum(Object.values(HairLength), data?.length);
+  const maintenance = matchEnum(Object.values(MaintenanceLevel), data?.maintenance);
+  const minutes = data?.stylingMinutes;
+  if (!data || !length || !maintenance || typeof minutes !== "number" || !Number.isFinite(minutes) || minutes < 0) {
+    return undefined;
+  }
+
+  const hairTypes = (Array.isArray(data.hairTypes) ? data.hairTypes : [])
+    .map(type => matchEnum(Object.values(HairTexture), type))
+    .filter((type, index, all): type is HairTexture => !!type && all.indexOf(type) === index);
+  const products = (Array.isArray(data.products) ? data.products : []).map(normalizeText).filter(Boolean);
+  return { length, maintenance, stylingMinutes: Math.round(minutes), hairTypes, products };
+};
+
+// Appends a counter to repeated names so every suggestion can be matched back by name.
+const dedupeNames = (suggestions: HairstyleSuggestion[]): HairstyleSuggestion[] => {
+  const seen = new Map<string, number>();
+  return suggestions.map(suggestion => {
+    const key = suggestion.name.toLowerCase();
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    if (count === 1) return suggestion;
+
+    let candidate = `${suggestion.name} ${count}`;
+    while (seen.has(candidate.toLowerCase())) {
+      candidate = `${candidate}*`;
+    }
+    seen.set(candidate.toLowerCase(), 1);
+    return { ...suggestion, name: candidate };
+  });
+};
+
+/**
+ * Checks a parsed analysis payload against the schema and repairs what it safely can:
+ * whitespace, face shape and enum wording, duplicate names and surplus or incomplete
+ * suggestions. Features and tags are optional extras and are dropped when unreadable.
+ * Throws AnalysisValidationError for anything else that can't be repaired.
+ */
+export const validateAnalysis = (raw: unknown): AnalysisResult => {
+  const issues: string[] = [];
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new AnalysisValidationError(["The response must be a JSON object."]);
+  }
+  const data = raw as Record<string, unknown>;
+
+  const faceShape = normalizeFaceShape(data.faceShape);
+  if (!faceShape) {
+    issues.push(
+      `"faceShape" must be one of ${Object.values(FaceShape).join(", ")} (got ${JSON.stringify(data.faceShape ?? null)}).`
+    );
+  }
+
+  const suggestions: HairstyleSuggestion[] = [];
+  if (!Array.isArray(data.suggestions)) {
+    issues.push(`"suggestions" must be an array of exactly ${SUGGESTION_COUNT} items.`);
+  } else {
+    const itemIssues: string[] = [];
+    data.suggestions.forEach((item, index) => {
+      const entry = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+      const suggestion = {
+        name: normalizeText(entry.name),
+        description: normalizeText(entry.description),
+        reasoning: normalizeText(entry.reasoning),
+      };
+      const missing = (Object.keys(suggestion) as (keyof HairstyleSuggestion)[]).filter(key => !suggestion[key]);
+      if (missing.length > 0) {
+        itemIssues.push(`Suggestion ${index + 1} is missing a non-empty ${missing.join(", ")}.`);
+      } else {
+        const tags = readTags(entry.tags);
+        suggestions.push(tags ? { ...suggestion, tags } : suggestion);
+      }
+    });
+
+    // Incomplete items are only a problem if dropping them leaves too few suggestions.
+    if (suggestions.length < SUGGESTION_COUNT) {
+      issues.push(...itemIssues);
+      issues.push(`Expected exactly ${SUGGESTION_COUNT} complete suggestions but got ${suggestions.length}.`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new AnalysisValidationError(issues);
+  }
+
+  return {
+    faceShape: faceShape as FaceShape,
+    features: readFeatures(data.features, faceShape),
+    suggestions: dedupeNames(suggestions.slice(0, SUGGESTION_COUNT)),
+  };
+};
+
+/**
+ * Parses the raw model text and validates it in one step.
+ */
+export const parseAnalysis = (text: string): AnalysisResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new AnalysisValidationError(["The response was not valid JSON."]);
+  }
+  return validateAnalysis(raw);
+};
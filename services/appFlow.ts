@@ -0,0 +1,112 @@
+import { AppState } from "../types";
+
+/**
+ * The consultation flow as a state machine: which screen may follow which, what
+ * data each screen needs, and how screens map to URLs so the browser back button
+ * and deep links work.
+ */
+
+// What the guards look at; App derives it from its state on every render.
+export interface FlowContext {
+  captureCount: number;
+  hasAnalysis: boolean;
+  renderCount: number;
+}
+
+export interface Route {
+  state: AppState;
+  sessionId?: string; // Saved consultation shown on the styles/results screens
+}
+
+// Front, left and right; an optional back-of-head photo may follow
+const REQUIRED_CAPTURES = 3;
+
+// Allowed next screens. IDLE is always reachable (Start Over / cancel).
+const TRANSITIONS: Record<AppState, AppState[]> = {
+  [AppState.IDLE]: [AppState.CAMERA, AppState.UPLOAD, AppState.HISTORY, AppState.USAGE, AppState.CLIENTS],
+  [AppState.CAMERA]: [AppState.PREVIEW, AppState.ERROR],
+  [AppState.UPLOAD]: [AppState.PREVIEW],
+  [AppState.PREVIEW]: [AppState.ANALYZING, AppState.CAMERA, AppState.UPLOAD],
+  [AppState.ANALYZING]: [AppState.SELECTION, AppState.PREVIEW, AppState.ERROR],
+  [AppState.SELECTION]: [AppState.GENERATING, AppState.RESULTS, AppState.PREVIEW],
+  [AppState.GENERATING]: [AppState.RESULTS, AppState.SELECTION, AppState.ERROR],
+  [AppState.RESULTS]: [AppState.SELECTION],
+  [AppState.HISTORY]: [AppState.SELECTION, AppState.RESULTS],
+  [AppState.USAGE]: [],
+  [AppState.CLIENTS]: [AppState.SELECTION, AppState.RESULTS],
+  [AppState.ERROR]: [],
+};
+
+// Data a screen can't render without
+const GUARDS: Partial<Record<AppState, (context: FlowContext) => boolean>> = {
+  [AppState.PREVIEW]: c => c.captureCount >= REQUIRED_CAPTURES,
+  [AppState.ANALYZING]: c => c.captureCount >= REQUIRED_CAPTURES,
+  [AppState.SELECTION]: c => c.hasAnalysis,
+  [AppState.GENERATING]: c => c.hasAnalysis,
+  [AppState.RESULTS]: c => c.hasAnalysis && c.renderCount > 0,
+};
+
+// Running steps share the URL of the screen they were started from and replace
+// its history entry, so back from the next screen skips them.
+const TRANSIENT_BASE: Partial<Record<AppState, AppState>> = {
+  [AppState.ANALYZING]: AppState.PREVIEW,
+  [AppState.GENERATING]: AppState.SELECTION,
+};
+
+const PATHS: Record<AppState, string> = {
+  [AppState.IDLE]: "",
+  [AppState.CAMERA]: "camera",
+  [AppState.UPLOAD]: "upload",
+  [AppState.PREVIEW]: "preview",
+  [AppState.ANALYZING]: "preview",
+  [AppState.SELECTION]: "styles",
+  [AppState.GENERATING]: "styles",
+  [AppState.RESULTS]: "results",
+  [AppState.HISTORY]: "history",
+  [AppState.USAGE]: "usage",
+  [AppState.CLIENTS]: "clients",
+  [AppState.ERROR]: "error",
+};
+
+// Screens a URL can restore; the rest only exist as the result of an action
+const ROUTABLE = [AppState.IDLE, AppState.CAMERA, AppState.UPLOAD, AppState.PREVIEW, AppState.SELECTION, AppState.RESULTS, AppState.HISTORY, AppState.USAGE, AppState.CLIENTS];
+const SESSION_ROUTES = [AppState.SELECTION, AppState.RESULTS];
+
+export const isTransient = (state: AppState): boolean => state in TRANSIENT_BASE;
+
+export const getTransientBase = (state: AppState): AppState | undefined => TRANSIENT_BASE[state];
+
+export const canEnter = (state: AppState, context: FlowContext): boolean => GUARDS[state]?.(context) ?? true;
+
+/**
+ * Whether the flow may move from one screen to another with the current data.
+ */
+export const canTransition = (from: AppState, to: AppState, context: FlowContext): boolean => {
+  if (from === to) return canEnter(to, context);
+  if (to !== AppState.IDLE && !TRANSITIONS[from].includes(to)) return false;
+  return canEnter(to, context);
+};
+
+/**
+ * Hash URL for a screen, e.g. "#/results/<session id>". Hash routing needs no
+ * server rewrites and keeps working from the service worker's cached index.html.
+ */
+export const getRoutePath = (state: AppState, sessionId?: string): string => {
+  const segments = [PATHS[state]];
+  if (sessionId && SESSION_ROUTES.includes(TRANSIENT_BASE[state] ?? state)) {
+    segments.push(encodeURIComponent(sessionId));
+  }
+  return `#/${segments.filter(Boolean).join("/")}`;
+};
+
+/**
+ * Reads a hash URL back into a screen. Unknown paths and screens that can't be
+ * restored from a URL return null.
+ */
+export const parseRoute = (hash: string): Route | null => {
+  const [path = "", sessionId] = hash.replace(/^#\/?/, "").split("/");
+  const state = ROUTABLE.find(s => PATHS[s] === path);
+  if (!state) return null;
+  if (sessionId && !SESSION_ROUTES.includes(state)) return null;
+  return sessionId ? { state, sessionId: decodeURIComponent(sessionId) } : { state };
+};
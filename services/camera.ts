@@ -0,0 +1,118 @@
+import { MessageKey } from "./i18n";
+
+/**
+ * Which camera the capture screen opens and how it shoots. Settings persist in
+ * localStorage so a stylist's rear-camera setup survives reloads.
+ */
+
+export type FacingMode = "user" | "environment";
+
+export interface CameraSettings {
+  facingMode: FacingMode;
+  deviceId?: string; // Camera picked from the device list; wins over facingMode
+  mirror: boolean; // Flip the live preview only; captures are never flipped
+  countdown: number; // Seconds between the shutter press and the photo; 0 for none
+  captureBack: boolean; // Add a back-of-head photo after the three face angles
+}
+
+export const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  facingMode: "user",
+  mirror: false,
+  countdown: 0,
+  captureBack: false,
+};
+
+const STORAGE_KEY = "styleai.camera";
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!saved || typeof saved !== "object") return DEFAULT_CAMERA_SETTINGS;
+    return {
+      facingMode: saved.facingMode === "environment" ? "environment" : "user",
+      deviceId: typeof saved.deviceId === "string" && saved.deviceId ? saved.deviceId : undefined,
+      mirror: saved.mirror === true,
+      countdown: COUNTDOWN_OPTIONS.includes(saved.countdown) ? saved.countdown : 0,
+      captureBack: saved.captureBack === true,
+    };
+  } catch (e) {
+    // Storage blocked or corrupt; start from the defaults
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Not persisted; the defaults apply next visit
+  }
+};
+
+export const getVideoConstraints = (settings: Pick<CameraSettings, "facingMode" | "deviceId">): MediaTrackConstraints => ({
+  ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: settings.facingMode }),
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+});
+
+// getUserMedia rejects with DOMExceptions, which aren't Errors in every environment
+const getErrorName = (err: unknown): string =>
+  typeof err === "object" && err !== null && "name" in err ? String(err.name) : "";
+
+const isMissingDevice = (err: unknown): boolean =>
+  ["NotFoundError", "OverconstrainedError"].includes(getErrorName(err));
+
+/**
+ * Opens the configured camera. A saved device that has since been unplugged
+ * falls back to the facing mode instead of failing.
+ */
+export const openCamera = async (settings: Pick<CameraSettings, "facingMode" | "deviceId">): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    // Insecure origins and old browsers have no camera API at all
+    throw new DOMException("Camera API unavailable", "NotSupportedError");
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: getVideoConstraints(settings) });
+  } catch (err) {
+    if (!settings.deviceId || !isMissingDevice(err)) throw err;
+    return navigator.mediaDevices.getUserMedia({ video: getVideoConstraints({ facingMode: settings.facingMode }) });
+  }
+};
+
+/**
+ * Video inputs on this device. Labels are empty until camera permission has
+ * been granted, so call this after a stream has opened.
+ */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === "videoinput");
+};
+
+// The device actually behind a stream; undefined when the browser doesn't say
+export const getStreamDeviceId = (stream: MediaStream): string | undefined =>
+  stream.getVideoTracks?.()[0]?.getSettings?.().deviceId || undefined;
+
+/**
+ * Message for a failure to open the camera, so denied permission, a missing
+ * camera and one held by another app each get their own explanation.
+ */
+export const getCameraErrorMessage = (err: unknown): MessageKey => {
+  switch (getErrorName(err)) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "camera.permissionDenied";
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return "camera.notFound";
+    case "NotReadableError":
+    case "AbortError":
+      return "camera.inUse";
+    case "NotSupportedError":
+      return "camera.unsupported";
+    default:
+      return "camera.accessError";
+  }
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { buildClientArchive, ClientArchiveError, getArchiveFileName, parseClientArchive, reassignTakenIds } from "./clientArchive";
+import {
+  CaptureAngle, ClientProfile, ColorTechnique, ConsultationSession, FaceShape, GenerationStatus, HairLength, HairTexture, MaintenanceLevel,
+} from "../types";
+
+const client: ClientProfile = { id: "c1", name: "Dana Reyes", hairTexture: HairTexture.WAVY, createdAt: 1, updatedAt: 2 };
+
+const session = {
+  id: "s1",
+  createdAt: 10,
+  capturedImages: ["data:image/jpeg;base64,QQ=="],
+  analysis: { faceShape: FaceShape.OVAL, suggestions: [] },
+  generatedImages: [],
+} as unknown as ConsultationSession;
+
+const IMAGE = "data:image/png;base64,UkVOREVS";
+
+// A consultation using every optional field
+const fullSession: ConsultationSession = {
+  id: "s2",
+  createdAt: 20,
+  capturedImages: ["data:image/jpeg;base64,QQ==", "data:image/jpeg;base64,Qg=="],
+  analysis: {
+    faceShape: FaceShape.HEART,
+    features: { faceShapeConfidence: 0.8, runnerUpShapes: [{ shape: FaceShape.OVAL, confidence: 0.15 }], hairTexture: HairTexture.WAVY },
+    suggestions: [{
+      name: "Textured Bob",
+      description: "Chin length",
+      reasoning: "Balances the jaw",
+      custom: true,
+      tags: { length: HairLength.SHORT, maintenance: MaintenanceLevel.LOW, stylingMinutes: 10, hairTypes: [HairTexture.WAVY], products: ["sea salt spray"] },
+    }],
+  },
+  generatedImages: [{
+    hairstyleName: "Textured Bob",
+    color: { id: "copper", name: "Copper", technique: ColorTechnique.BALAYAGE },
+    angle: CaptureAngle.LEFT,
+    status: GenerationStatus.DONE,
+    imageUrl: IMAGE,
+    versions: [{ imageUrl: IMAGE, createdAt: 21 }, { imageUrl: IMAGE, instruction: "Shorter", createdAt: 22 }],
+    versionIndex: 1,
+  }, { hairstyleName: "Pixie Cut", status: GenerationStatus.FAILED, error: "Quota" }],
+  constraints: { maxLength: HairLength.MEDIUM, maxMaintenance: MaintenanceLevel.MEDIUM, workplaceAppropriate: true },
+  consentedAt: 19,
+  clientId: "c1",
+};
+
+// Shallow-patches the full session's first render
+const withRender = (patch: Record<string, unknown>) =>
+  ({ ...fullSession, generatedImages: [{ ...fullSession.generatedImages[0], ...patch }] });
+
+describe("client archives", () => {
+  it("round-trips a client and attaches every consultation to them", () => {
+    const text = JSON.stringify(buildClientArchive(client, [{ ...session, clientId: "other" }]));
+    const archive = parseClientArchive(text);
+    expect(archive.client).toEqual(client);
+    expect(archive.sessions).toHaveLength(1);
+    expect(archive.sessions[0].clientId).toBe("c1");
+  });
+
+  it("rejects files that aren't archives, newer versions and damaged consultations", () => {
+    expect(() => parseClientArchive("not json")).toThrow(ClientArchiveError);
+    expect(() => parseClientArchive(JSON.stringify({ format: "other" }))).toThrow(ClientArchiveError);
+    const archive = buildClientArchive(client, [session]);
+    expect(() => parseClientArchive(JSON.stringify({ ...archive, version: 99 }))).toThrow(/newer version/);
+    expect(() => parseClientArchive(JSON.stringify({ ...archive, client: { id: "c1", name: " " } }))).toThrow(/client profile/);
+    const damaged = { ...session, capturedImages: ["https://example.com/a.jpg"] };
+    expect(() => parseClientArchive(JSON.stringify({ ...archive, sessions: [damaged] }))).toThrow(/damaged/);
+  });
+
+  it("keeps every field of a well-formed consultation", () => {
+    const archive = parseClientArchive(JSON.stringify(buildClientArchive(client, [fullSession])));
+    expect(archive.sessions).toEqual([fullSession]);
+  });
+
+  it("drops fields the app doesn't know", () => {
+    const text = JSON.stringify(buildClientArchive(client, [{ ...session, extra: "<script>" } as ConsultationSession]));
+    expect(parseClientArchive(text).sessions[0]).not.toHaveProperty("extra");
+  });
+
+  it.each([
+    ["a non-base64 capture", { ...fullSession, capturedImages: ["data:image/svg+xml,<svg onload=alert(1)>"] }],
+    ["no captures", { ...fullSession, capturedImages: [] }],
+    ["an unknown face shape", { ...fullSession, analysis: { ...fullSession.analysis, faceShape: "Triangle" } }],
+    ["a suggestion without a name", { ...fullSession, analysis: { ...fullSession.analysis, suggestions: [{ description: "", reasoning: "" }] } }],
+    ["unreadable features", { ...fullSession, analysis: { ...fullSession.analysis, features: { faceShapeConfidence: "high" } } }],
+    ["unreadable tags", { ...fullSession, analysis: { ...fullSession.analysis, suggestions: [{ ...fullSession.analysis.suggestions[0], tags: {} }] } }],
+    ["a script URL as a render", withRender({ imageUrl: "javascript:alert(1)" })],
+    ["a render URL that breaks out of its attribute", withRender({ imageUrl: `${IMAGE}" onerror="alert(1)` })],
+    ["an unknown render status", withRender({ status: "STOLEN" })],
+    ["an unknown angle", withRender({ angle: "TOP" })],
+    ["an unknown color technique", withRender({ color: { id: "x", name: "X", technique: "Spray paint" } })],
+    ["a version without an image", withRender({ versions: [{ createdAt: 1 }] })],
+    ["a version index out of range", withRender({ versionIndex: 5 })],
+    ["an unknown constraint", { ...fullSession, constraints: { maxLength: "Floor length" } }],
+    ["a text consent time", { ...fullSession, consentedAt: "yesterday" }],
+  ])("rejects a consultation with %s", (_, damaged) => {
+    const archive = buildClientArchive(client, [damaged as ConsultationSession]);
+    expect(() => parseClientArchive(JSON.stringify(archive))).toThrow(/damaged/);
+  });
+
+  it("rejects a client with an unknown hair texture", () => {
+    const archive = buildClientArchive({ ...client, hairTexture: "Velvet" as HairTexture }, []);
+    expect(() => parseClientArchive(JSON.stringify(archive))).toThrow(/client profile/);
+  });
+
+  it("gives imported records new ids where the local ones are taken", () => {
+    const archive = parseClientArchive(JSON.stringify(buildClientArchive(client, [session, fullSession])));
+
+    const fresh = reassignTakenIds(archive, { clientIds: new Set(["other"]), sessionIds: new Set() });
+    expect(fresh).toEqual(archive);
+
+    const copy = reassignTakenIds(archive, { clientIds: new Set(["c1"]), sessionIds: new Set(["s2"]) });
+    expect(copy.client).toEqual({ ...client, id: expect.not.stringMatching(/^c1$/) });
+    expect(copy.sessions.map(s => s.id)).toEqual(["s1", expect.not.stringMatching(/^s2$/)]);
+    expect(copy.sessions.every(s => s.clientId === copy.client.id)).toBe(true);
+  });
+
+  it("names the file after the client", () => {
+    expect(getArchiveFileName(client)).toBe("styleai-client-dana-reyes.json");
+    expect(getArchiveFileName({ name: "!!" })).toBe("styleai-client-client.json");
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  AnalysisResult, AppliedColor, CaptureAngle, ClientProfile, ColorTechnique, ConsultationSession, FaceShape, GeneratedImage,
+  GenerationStatus, HairstyleSuggestion, HairTexture, RenderVersion,
+} from "../types";
+import { readFeatures, readTags } from "./analysisValidator";
+import { isBase64Image } from "./dataUrl";
+import { createId } from "./db";
+import { parseConstraints } from "./styleConstraints";
+
+/**
+ * A client's folder as one JSON file: the profile plus every consultation with
+ * its photos and renders inlined as data URLs, so it can be moved to another
+ * device and imported there.
+ */
+
+const ARCHIVE_FORMAT = "styleai-client";
+const ARCHIVE_VERSION = 1;
+
+export interface ClientArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number; // Epoch millis
+  client: ClientProfile;
+  sessions: ConsultationSession[];
+}
+
+export class ClientArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClientArchiveError";
+  }
+}
+
+export const buildClientArchive = (client: ClientProfile, sessions: ConsultationSession[]): ClientArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: Date.now(),
+  client,
+  sessions,
+});
+
+export const getArchiveFileName = (client: Pick<ClientProfile, "name">): string => {
+  const slug = client.name.replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "").toLowerCase() || "client";
+  return `styleai-client-${slug}.json`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const readClient = (value: unknown): ClientProfile => {
+  if (
+    !isRecord(value) || typeof value.id !== "string" || !value.id || typeof value.name !== "string" || !value.name.trim()
+    || (value.hairTexture !== undefined && !Object.values(HairTexture).includes(value.hairTexture as HairTexture))
+  ) {
+    throw new ClientArchiveError("The archive has no valid client profile.");
+  }
+  const now = Date.now();
+  return {
+    id: value.id,
+    name: value.name.trim(),
+    notes: typeof value.notes === "string" && value.notes ? value.notes : undefined,
+    hairTexture: value.hairTexture as HairTexture | undefined,
+    createdAt: typeof value.createdAt === "number" ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : now,
+  };
+};
+
+// Sessions are rebuilt from the fields the app knows, each checked against its type,
+// so nothing an archive adds or bends reaches storage, the screens or the brief.
+const damaged = (): never => {
+  throw new ClientArchiveError("Some consultations in the archive are damaged.");
+};
+
+const readRecord = (value: unknown): Record<string, unknown> => (isRecord(value) ? value : damaged());
+const readString = (value: unknown): string => (typeof value === "string" ? value : damaged());
+const readName = (value: unknown): string => (typeof value === "string" && value.trim() ? value : damaged());
+const readNumber = (value: unknown): number => (typeof value === "number" && Number.isFinite(value) ? value : damaged());
+const readBoolean = (value: unknown): boolean => (typeof value === "boolean" ? value : damaged());
+const readImage = (value: unknown): string => (isBase64Image(value) ? value : damaged());
+const readEnum = <T extends string>(values: T[], value: unknown): T => (values.includes(value as T) ? value as T : damaged());
+const readArray = <T>(value: unknown, read: (item: unknown) => T): T[] => (Array.isArray(value) ? value.map(read) : damaged());
+const readOptional = <T>(value: unknown, read: (value: unknown) => T): T | undefined => (value === undefined ? undefined : read(value));
+
+const readSuggestion = (value: unknown): HairstyleSuggestion => {
+  const data = readRecord(value);
+  return {
+    name: readName(data.name),
+    description: readString(data.description),
+    reasoning: readString(data.reasoning),
+    custom: readOptional(data.custom, readBoolean),
+    tags: readOptional(data.tags, tags => readTags(tags) ?? damaged()),
+  };
+};
+
+const readAnalysis = (value: unknown): AnalysisResult => {
+  const data = readRecord(value);
+  const faceShape = readEnum(Object.values(FaceShape), data.faceShape);
+  return {
+    faceShape,
+    features: readOptional(data.features, features => readFeatures(features, faceShape) ?? damaged()),
+    suggestions: readArray(data.suggestions, readSuggestion),
+  };
+};
+
+const readColor = (value: unknown): AppliedColor => {
+  const data = readRecord(value);
+  return { id: readName(data.id), name: readName(data.name), technique: readEnum(Object.values(ColorTechnique), data.technique) };
+};
+
+const readVersion = (value: unknown): RenderVersion => {
+  const data = readRecord(value);
+  return { imageUrl: readImage(data.imageUrl), instruction: readOptional(data.instruction, readString), createdAt: readNumber(data.createdAt) };
+};
+
+const readRender = (value: unknown): GeneratedImage => {
+  const data = readRecord(value);
+  const versions = readOptional(data.versions, list => readArray(list, readVersion));
+  const versionIndex = readOptional(data.versionIndex, readNumber);
+  if (versionIndex !== undefined && !(versions && Number.isInteger(versionIndex) && versionIndex >= 0 && versionIndex < versions.length)) {
+    damaged();
+  }
+  return {
+    hairstyleName: readName(data.hairstyleName),
+    color: readOptional(data.color, readColor),
+    angle: readOptional(data.angle, angle => readEnum(Object.values(CaptureAngle), angle)),
+    status: readEnum(Object.values(GenerationStatus), data.status),
+    imageUrl: readOptional(data.imageUrl, readImage),
+    error: readOptional(data.error, readString),
+    versions,
+    versionIndex,
+  };
+};
+
+const readSession = (value: unknown, clientId: string): ConsultationSession => {
+  const data = readRecord(value);
+  const capturedImages = readArray(data.capturedImages, readImage);
+  if (capturedImages.length === 0) damaged();
+  return {
+    id: readName(data.id),
+    createdAt: readNumber(data.createdAt),
+    capturedImages,
+    analysis: readAnalysis(data.analysis),
+    generatedImages: readArray(data.generatedImages, readRender),
+    constraints: readOptional(data.constraints, constraints => parseConstraints(constraints) ?? damaged()),
+    consentedAt: readOptional(data.consentedAt, readNumber),
+    clientId,
+  };
+};
+
+/**
+ * Reads an exported archive. Throws a ClientArchiveError when the file isn't
+ * one, or comes from a newer version of the app.
+ */
+export const parseClientArchive = (text: string): ClientArchive => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ClientArchiveError("This file is not a client archive.");
+  }
+  if (!isRecord(data) || data.format !== ARCHIVE_FORMAT) {
+    throw new ClientArchiveError("This file is not a client archive.");
+  }
+  if (typeof data.version !== "number" || data.version > ARCHIVE_VERSION) {
+    throw new ClientArchiveError("This archive was made by a newer version of the app.");
+  }
+  const client = readClient(data.client);
+  const sessions = data.sessions === undefined ? [] : readArray(data.sessions, session => readSession(session, client.id));
+  return {
+    format: ARCHIVE_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === "number" ? data.exportedAt : Date.now(),
+    client,
+    sessions,
+  };
+};
+
+/**
+ * Gives the archive's client and consultations new ids where those are already
+ * taken on this device, so an import never overwrites local records. Importing
+ * the same archive twice therefore leaves two copies of the client.
+ */
+export const reassignTakenIds = (
+  archive: ClientArchive,
+  taken: { clientIds: Set<string>; sessionIds: Set<string> }
+): ClientArchive => {
+  const clientId = taken.clientIds.has(archive.client.id) ? createId() : archive.client.id;
+  return {
+    ...archive,
+    client: { ...archive.client, id: clientId },
+    sessions: archive.sessions.map(session => ({
+      ...session,
+      id: taken.sessionIds.has(session.id) ? createId() : session.id,
+      clientId,
+    })),
+  };
+};
+
+export const downloadClientArchive = (archive: ClientArchive) => {
+  const blob = new Blob([JSON.stringify(archive)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getArchiveFileName(archive.client);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,84 @@
+import { ClientProfile, ConsultationSession } from "../types";
+import { ClientArchive, reassignTakenIds } from "./clientArchive";
+import { STORES, openDatabase, withStore } from "./db";
+
+// Resolves once a transaction over several stores commits
+const complete = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const saveClient = async (client: ClientProfile): Promise<void> => {
+  await withStore(STORES.CLIENTS, "readwrite", store => store.put(client));
+};
+
+/**
+ * Lists client profiles alphabetically by name.
+ */
+export const listClients = async (): Promise<ClientProfile[]> => {
+  const clients = await withStore<ClientProfile[]>(STORES.CLIENTS, "readonly", store => store.getAll());
+  return clients.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }));
+};
+
+export const getClient = (id: string): Promise<ClientProfile | undefined> =>
+  withStore<ClientProfile | undefined>(STORES.CLIENTS, "readonly", store => store.get(id));
+
+/**
+ * Lists a client's consultations, newest first.
+ */
+export const listClientSessions = async (clientId: string): Promise<ConsultationSession[]> => {
+  const sessions = await withStore<ConsultationSession[]>(STORES.SESSIONS, "readonly", store =>
+    store.index("clientId").getAll(clientId)
+  );
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Deletes a client together with every consultation saved for them.
+ */
+export const deleteClient = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.CLIENTS, STORES.SESSIONS], "readwrite");
+  tx.objectStore(STORES.CLIENTS).delete(id);
+  const sessions = tx.objectStore(STORES.SESSIONS);
+  const request = sessions.index("clientId").openKeyCursor(IDBKeyRange.only(id));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    sessions.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await complete(tx);
+};
+
+/**
+ * Saves an imported client and their consultations in one transaction. Ids that
+ * are already used on this device are replaced first, so nothing local is
+ * overwritten; resolves with the records as saved.
+ */
+export const saveClientArchive = async (archive: ClientArchive): Promise<ClientArchive> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.CLIENTS, STORES.SESSIONS], "readwrite");
+  const clients = tx.objectStore(STORES.CLIENTS);
+  const sessions = tx.objectStore(STORES.SESSIONS);
+  const clientKeys = clients.getAllKeys();
+  const sessionKeys = sessions.getAllKeys();
+  let saved = archive;
+  // Requests in a transaction succeed in order, so both key lists are in by now
+  sessionKeys.onsuccess = () => {
+    saved = reassignTakenIds(archive, {
+      clientIds: new Set(clientKeys.result.map(String)),
+      sessionIds: new Set(sessionKeys.result.map(String)),
+    });
+    clients.put(saved.client);
+    saved.sessions.forEach(session => sessions.put(session));
+  };
+  await complete(tx);
+  return saved;
+};
+
+export const clearClients = async (): Promise<void> => {
+  await withStore(STORES.CLIENTS, "readwrite", store => store.clear());
+};
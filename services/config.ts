@@ -0,0 +1,73 @@
+/**
+ * Build-time settings for the client. Each can be set as VITE_<NAME> or as
+ * <NAME> in .env.local (the latter is injected by vite.config.ts `define`).
+ */
+
+const DEFAULT_MAX_SELECTED_STYLES = 2;
+const DEFAULT_GENERATION_CONCURRENCY = 2;
+const DEFAULT_RESPONSE_CACHE_MB = 50;
+const DEFAULT_DAILY_BUDGET_USD = 0;
+
+const readViteEnv = (name: string): string | undefined => {
+  try {
+    return (import.meta as any).env?.[`VITE_${name}`];
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// `read` must reference process.env.<NAME> literally so Vite's define can replace it.
+const readSetting = (name: string, read: () => string | undefined): string => {
+  let raw = readViteEnv(name);
+  try {
+    raw = raw || read();
+  } catch (e) {
+    // No process object in the browser
+  }
+  return raw ?? "";
+};
+
+const clampOr = (value: number, fallback: number, min: number, max: number): number =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const readInteger = (name: string, read: () => string | undefined, fallback: number, min: number, max: number): number =>
+  clampOr(Number.parseInt(readSetting(name, read), 10), fallback, min, max);
+
+const readNumber = (name: string, read: () => string | undefined, fallback: number, min: number, max: number): number =>
+  clampOr(Number.parseFloat(readSetting(name, read)), fallback, min, max);
+
+// How many suggestions can be picked for one generation round ("Generate All" ignores it).
+export const MAX_SELECTED_STYLES = readInteger(
+  "MAX_SELECTED_STYLES",
+  () => process.env.MAX_SELECTED_STYLES,
+  DEFAULT_MAX_SELECTED_STYLES,
+  1,
+  10
+);
+
+// Renders sent to the provider at once; the rest wait in the generation queue.
+export const GENERATION_CONCURRENCY = readInteger(
+  "GENERATION_CONCURRENCY",
+  () => process.env.GENERATION_CONCURRENCY,
+  DEFAULT_GENERATION_CONCURRENCY,
+  1,
+  8
+);
+
+// Device storage for cached analyses and renders, in megabytes; 0 stores nothing.
+export const RESPONSE_CACHE_MB = readInteger(
+  "RESPONSE_CACHE_MB",
+  () => process.env.RESPONSE_CACHE_MB,
+  DEFAULT_RESPONSE_CACHE_MB,
+  0,
+  1000
+);
+
+// Estimated model spend allowed per local day, in USD; new requests are refused once it's reached. 0 means no limit.
+export const DAILY_BUDGET_USD = readNumber(
+  "DAILY_BUDGET_USD",
+  () => process.env.DAILY_BUDGET_USD,
+  DEFAULT_DAILY_BUDGET_USD,
+  0,
+  10000
+);
@@ -0,0 +1,10 @@
+// A complete base64 image data URL: nothing outside the base64 alphabet, so it is
+// safe to put in an HTML attribute and can't smuggle in another URL scheme.
+const BASE64_IMAGE = /^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Whether a value is an image the app can store, render or embed: captures,
+ * imports and renders are all base64 data URLs.
+ */
+export const isBase64Image = (value: unknown): value is string =>
+  typeof value === "string" && BASE64_IMAGE.test(value);
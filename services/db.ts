@@ -0,0 +1,78 @@
+// Shared IndexedDB connection for everything the app keeps on the device.
+const DB_NAME = "styleai";
+const DB_VERSION = 4;
+
+export const STORES = {
+  SESSIONS: "sessions",
+  RESPONSES: "responses",
+  USAGE: "usage",
+  CLIENTS: "clients",
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, tx: IDBTransaction) => {
+  if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+    const sessions = db.createObjectStore(STORES.SESSIONS, { keyPath: "id" });
+    sessions.createIndex("createdAt", "createdAt");
+  }
+  // Added in version 4; sessions saved before it have no client and stay out of the index
+  const sessions = tx.objectStore(STORES.SESSIONS);
+  if (!sessions.indexNames.contains("clientId")) {
+    sessions.createIndex("clientId", "clientId");
+  }
+  if (!db.objectStoreNames.contains(STORES.RESPONSES)) {
+    const responses = db.createObjectStore(STORES.RESPONSES, { keyPath: "key" });
+    // Eviction walks this index without loading the cached bodies
+    responses.createIndex("usage", ["usedAt", "size"]);
+  }
+  if (!db.objectStoreNames.contains(STORES.USAGE)) {
+    const usage = db.createObjectStore(STORES.USAGE, { keyPath: "id" });
+    usage.createIndex("startedAt", "startedAt");
+  }
+  if (!db.objectStoreNames.contains(STORES.CLIENTS)) {
+    db.createObjectStore(STORES.CLIENTS, { keyPath: "id" });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("Local storage is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against one object store and resolves once its transaction commits.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// crypto.randomUUID is only exposed in secure contexts, e.g. not on a LAN dev server.
+export const createId = (): string =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
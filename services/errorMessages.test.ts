@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { describeError } from "./errorMessages";
+import { createTranslator } from "./i18n";
+import { ImageImportError } from "./imageImport";
+import { ProxyError } from "./proxyProvider";
+import { BudgetExceededError } from "./usage";
+import { ar } from "../locales/ar";
+import { hi } from "../locales/hi";
+
+const network = new ProxyError("Could not reach the StyleAI server. Check your connection and try again.", 0, "NETWORK");
+const busy = new ProxyError("The model is busy. Please try again shortly.", 429, "UPSTREAM_RATE_LIMITED");
+const limited = new ProxyError("Too many requests. Please wait and try again.", 429, "RATE_LIMITED");
+const unsupported = new ImageImportError("unsupported", `"scan.tiff" is not a supported image type.`, "scan.tiff");
+
+describe("describeError", () => {
+  it("shows proxy and import errors in Arabic and Hindi instead of the English message", () => {
+    for (const [locale, messages] of [["ar", ar], ["hi", hi]] as const) {
+      const t = createTranslator(locale);
+      expect(describeError(t, locale, network, "analysis.failed")).toBe(messages["error.network"]);
+      expect(describeError(t, locale, busy, "analysis.failed")).toBe(messages["error.modelBusy"]);
+      expect(describeError(t, locale, limited, "generation.failed")).toBe(messages["error.rateLimited"]);
+      expect(describeError(t, locale, unsupported, "upload.failed")).toBe(messages["upload.unsupported"].replace("{name}", "scan.tiff"));
+    }
+  });
+
+  it("uses the fallback for proxy errors without their own message", () => {
+    const t = createTranslator("ar");
+    expect(describeError(t, "ar", new ProxyError("Upstream exploded", 502, "UPSTREAM_ERROR"), "analysis.failed")).toBe(ar["analysis.failed"]);
+  });
+
+  it("treats a direct rate-limit error as a busy model", () => {
+    const t = createTranslator("hi");
+    expect(describeError(t, "hi", Object.assign(new Error("429 RESOURCE_EXHAUSTED"), { status: 429 }), "generation.failed")).toBe(hi["error.modelBusy"]);
+  });
+
+  it("names the reached budget", () => {
+    const t = createTranslator("en");
+    expect(describeError(t, "en", new BudgetExceededError(2.5, 2), "analysis.failed")).toContain("$2.00");
+  });
+});
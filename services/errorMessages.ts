@@ -0,0 +1,35 @@
+import { Locale, MessageKey, Translate, formatCost } from "./i18n";
+import { ImageImportError, ImageImportErrorCode } from "./imageImport";
+import { ProxyError } from "./proxyProvider";
+import { isRateLimitError } from "./rateLimit";
+import { BudgetExceededError } from "./usage";
+
+const IMPORT_ERROR_KEYS: Record<ImageImportErrorCode, MessageKey> = {
+  unreadable: "upload.unreadable",
+  heicFailed: "upload.heicFailed",
+  unsupported: "upload.unsupported",
+  processingFailed: "upload.processingFailed",
+};
+
+// Proxy codes the user can act on; the rest get the caller's fallback
+const PROXY_ERROR_KEYS: Record<string, MessageKey> = {
+  NETWORK: "error.network",
+  RATE_LIMITED: "error.rateLimited",
+  UPSTREAM_RATE_LIMITED: "error.modelBusy",
+  PAYLOAD_TOO_LARGE: "error.tooLarge",
+};
+
+/**
+ * The message to show for a failed import or model request, in the UI language.
+ * Errors the app raises itself carry a code with a message in every locale; only
+ * unrecognized provider errors keep their own wording, or get the fallback.
+ */
+export const describeError = (t: Translate, locale: Locale, error: unknown, fallback: MessageKey): string => {
+  if (error instanceof BudgetExceededError) {
+    return t("usage.budgetReached", { budget: formatCost(locale, error.budget) });
+  }
+  if (error instanceof ImageImportError) return t(IMPORT_ERROR_KEYS[error.code], { name: error.fileName ?? "" });
+  if (error instanceof ProxyError) return t(PROXY_ERROR_KEYS[error.code ?? ""] ?? fallback);
+  if (isRateLimitError(error)) return t("error.modelBusy");
+  return (error instanceof Error && error.message) || t(fallback);
+};
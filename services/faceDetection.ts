@@ -0,0 +1,244 @@
+import { CaptureAngle } from "../types";
+import { MessageKey } from "./i18n";
+
+/**
+ * On-device checks that run on live camera frames before a capture is taken.
+ * Nothing here leaves the browser: detection uses the Shape Detection API
+ * (FaceDetector) where the browser has it, and a skin-tone heuristic otherwise.
+ */
+
+export interface FaceBox {
+  // Normalized to the frame: 0..1 on both axes
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameMetrics {
+  face: FaceBox | null;
+  // Head turn estimate from landmarks: about 0 facing the camera, negative when
+  // the nose points to the left of the (unmirrored) frame. Null when unknown.
+  yaw: number | null;
+  brightness: number; // Mean luma, 0..255
+  sharpness: number; // Variance of the Laplacian; low means blurry
+}
+
+export interface CaptureFeedback {
+  ready: boolean; // Every available check passes
+  canAutoCapture: boolean; // Ready and the head pose itself was verified
+  message: MessageKey; // Translated by the camera screen
+}
+
+// Thresholds tuned on 160x120 samples of 720p webcam frames
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 225;
+const MIN_SHARPNESS = 25;
+const MIN_FACE_WIDTH = 0.18;
+const MAX_FACE_WIDTH = 0.6;
+const MAX_CENTER_OFFSET = 0.15;
+const MAX_FRONT_YAW = 0.12;
+const MIN_PROFILE_YAW = 0.22;
+const MIN_SKIN_FRACTION = 0.04;
+
+const SAMPLE_WIDTH = 160;
+const SAMPLE_HEIGHT = 120;
+
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: { type: string; locations: { x: number; y: number }[] }[];
+}
+
+interface NativeFaceDetector {
+  detect: (source: CanvasImageSource) => Promise<DetectedFace[]>;
+}
+
+let nativeDetector: NativeFaceDetector | null | undefined;
+let sampleCanvas: HTMLCanvasElement | null = null;
+
+const getNativeDetector = (): NativeFaceDetector | null => {
+  if (nativeDetector === undefined) {
+    const Ctor = typeof window !== "undefined" ? (window as any).FaceDetector : undefined;
+    try {
+      nativeDetector = Ctor ? new Ctor({ fastMode: true, maxDetectedFaces: 1 }) : null;
+    } catch (e) {
+      nativeDetector = null;
+    }
+  }
+  return nativeDetector;
+};
+
+const getSampleContext = (): CanvasRenderingContext2D | null => {
+  if (!sampleCanvas) {
+    sampleCanvas = document.createElement("canvas");
+    sampleCanvas.width = SAMPLE_WIDTH;
+    sampleCanvas.height = SAMPLE_HEIGHT;
+  }
+  return sampleCanvas.getContext("2d", { willReadFrequently: true });
+};
+
+const toLuma = (data: Uint8ClampedArray): Float32Array => {
+  const luma = new Float32Array(data.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+};
+
+export const measureBrightness = (luma: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < luma.length; i++) sum += luma[i];
+  return luma.length ? sum / luma.length : 0;
+};
+
+export const measureSharpness = (luma: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+// Fallback detector: bounding box of skin-toned pixels (YCbCr ranges) in the sample.
+const detectSkinBox = (data: Uint8ClampedArray, width: number, height: number): FaceBox | null => {
+  let minX = width, minY = height, maxX = -1, maxY = -1, count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+      const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+      if (cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173) {
+        count++;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (count / (width * height) < MIN_SKIN_FRACTION) return null;
+  return { x: minX / width, y: minY / height, width: (maxX - minX + 1) / width, height: (maxY - minY + 1) / height };
+};
+
+const estimateYaw = (face: DetectedFace): number | null => {
+  const find = (type: string) => face.landmarks?.filter(l => l.type === type).flatMap(l => l.locations) ?? [];
+  const eyes = find("eye");
+  const nose = find("nose")[0];
+  if (!nose) return null;
+
+  if (eyes.length >= 2) {
+    const [a, b] = eyes;
+    const eyeDistance = Math.abs(a.x - b.x);
+    if (eyeDistance > 0) return (nose.x - (a.x + b.x) / 2) / eyeDistance;
+  }
+  // One eye hidden: the head is turned well away; use the nose side of the box.
+  const box = face.boundingBox;
+  return ((nose.x - (box.x + box.width / 2)) / box.width) * 2;
+};
+
+const sampleSource = (source: CanvasImageSource): ImageData | null => {
+  const context = getSampleContext();
+  if (!context) return null;
+  context.drawImage(source, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  return context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+};
+
+/**
+ * Finds the most prominent face in an image or video frame of the given pixel size.
+ */
+export const detectFace = async (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  sample?: ImageData
+): Promise<{ face: FaceBox | null; yaw: number | null }> => {
+  const detector = getNativeDetector();
+  if (detector) {
+    try {
+      const [detected] = await detector.detect(source);
+      if (!detected) return { face: null, yaw: null };
+      const box = detected.boundingBox;
+      return {
+        face: { x: box.x / width, y: box.y / height, width: box.width / width, height: box.height / height },
+        yaw: estimateYaw(detected),
+      };
+    } catch (e) {
+      // Detector can't handle this source; use the heuristic from now on
+      nativeDetector = null;
+    }
+  }
+
+  const data = sample ?? sampleSource(source);
+  return { face: data ? detectSkinBox(data.data, SAMPLE_WIDTH, SAMPLE_HEIGHT) : null, yaw: null };
+};
+
+/**
+ * Samples the current video frame and measures face position, head turn, light and blur.
+ */
+export const measureFrame = async (video: HTMLVideoElement): Promise<FrameMetrics | null> => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const sample = sampleSource(video);
+  if (!sample) return null;
+
+  const luma = toLuma(sample.data);
+  const { face, yaw } = await detectFace(video, video.videoWidth, video.videoHeight, sample);
+
+  return {
+    face,
+    yaw,
+    brightness: measureBrightness(luma),
+    sharpness: measureSharpness(luma, SAMPLE_WIDTH, SAMPLE_HEIGHT),
+  };
+};
+
+/**
+ * Turns frame metrics into one instruction (a message key) for the current capture step.
+ * Head turn can only be checked when the detector provides landmarks, so
+ * profile steps without them never auto-capture.
+ */
+export const assessCapture = (metrics: FrameMetrics, angle: CaptureAngle): CaptureFeedback => {
+  if (metrics.brightness < MIN_BRIGHTNESS) return { ready: false, canAutoCapture: false, message: "feedback.tooDark" };
+  if (metrics.brightness > MAX_BRIGHTNESS) return { ready: false, canAutoCapture: false, message: "feedback.tooBright" };
+
+  const { face } = metrics;
+  if (!face) return { ready: false, canAutoCapture: false, message: "feedback.noFace" };
+  if (face.width < MIN_FACE_WIDTH) return { ready: false, canAutoCapture: false, message: "feedback.moveCloser" };
+  if (face.width > MAX_FACE_WIDTH) return { ready: false, canAutoCapture: false, message: "feedback.moveBack" };
+
+  const centerX = face.x + face.width / 2;
+  const centerY = face.y + face.height / 2;
+  if (Math.abs(centerX - 0.5) > MAX_CENTER_OFFSET || Math.abs(centerY - 0.5) > MAX_CENTER_OFFSET) {
+    return { ready: false, canAutoCapture: false, message: "feedback.center" };
+  }
+
+  const poseVerified = angle === CaptureAngle.FRONT || metrics.yaw !== null;
+  if (metrics.yaw !== null) {
+    if (angle === CaptureAngle.FRONT && Math.abs(metrics.yaw) > MAX_FRONT_YAW) {
+      return { ready: false, canAutoCapture: false, message: "feedback.lookStraight" };
+    }
+    if (angle !== CaptureAngle.FRONT) {
+      // Turning to your right moves the nose toward the left of the raw frame
+      const turned = angle === CaptureAngle.LEFT ? -metrics.yaw : metrics.yaw;
+      if (turned < -MIN_PROFILE_YAW) return { ready: false, canAutoCapture: false, message: "feedback.turnOther" };
+      if (turned < MIN_PROFILE_YAW) return { ready: false, canAutoCapture: false, message: "feedback.turnMore" };
+    }
+  }
+
+  if (metrics.sharpness < MIN_SHARPNESS) return { ready: false, canAutoCapture: false, message: "feedback.blurry" };
+
+  if (!poseVerified) {
+    return { ready: true, canAutoCapture: false, message: "feedback.tapShutter" };
+  }
+  return { ready: true, canAutoCapture: true, message: "feedback.perfect" };
+};
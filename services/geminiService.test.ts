@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FaceShape, HairLength, HairTexture, MaintenanceLevel, Proportion } from "../types";
+import { AnalysisValidationError } from "./analysisValidator";
+import { createGeminiProvider, toInlineData } from "./geminiService";
+
+// Stands in for the SDK client: every test scripts generateContent's replies.
+const generateContent = vi.fn();
+
+vi.mock("@google/genai", async importOriginal => {
+  const actual = await importOriginal<typeof import("@google/genai")>();
+  return {
+    ...actual,
+    GoogleGenAI: class {
+      models = { generateContent };
+    },
+  };
+});
+
+const FRONT = "data:image/jpeg;base64,RlJPTlQ=";
+const LEFT = "data:image/png;base64,TEVGVA==";
+const RIGHT = "UklHSFQ="; // Bare base64, no data URL prefix
+
+const validAnalysis = {
+  faceShape: "Oval",
+  suggestions: ["Pixie Cut", "Long Layers", "Textured Bob", "Curtain Bangs", "Shag"].map(name => ({
+    name,
+    description: `${name} description`,
+    reasoning: `${name} reasoning`,
+  })),
+};
+
+const imageResponse = (data: string, mimeType = "image/png") => ({
+  candidates: [{ content: { parts: [{ text: "Here you go" }, { inlineData: { data, mimeType } }] } }],
+});
+
+describe("toInlineData", () => {
+  it("strips the data URL prefix and keeps the mime type", () => {
+    expect(toInlineData(LEFT)).toEqual({ mimeType: "image/png", data: "TEVGVA==" });
+  });
+
+  it("treats bare base64 as JPEG", () => {
+    expect(toInlineData(RIGHT)).toEqual({ mimeType: "image/jpeg", data: RIGHT });
+  });
+
+  it("normalizes image/jpg", () => {
+    expect(toInlineData("data:image/JPG;base64,QUJD")).toEqual({ mimeType: "image/jpeg", data: "QUJD" });
+  });
+});
+
+describe("gemini provider", () => {
+  const provider = createGeminiProvider({ apiKey: "test-key" });
+
+  beforeEach(() => {
+    generateContent.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  describe("analyzeFace", () => {
+    it("sends every capture without its prefix and asks for the analysis schema", async () => {
+      generateContent.mockResolvedValue({ text: JSON.stringify(validAnalysis) });
+
+      const result = await provider.analyzeFace([FRONT, LEFT, RIGHT]);
+
+      expect(result.faceShape).toBe(FaceShape.OVAL);
+      expect(result.suggestions).toHaveLength(5);
+
+      const request = generateContent.mock.calls[0][0];
+      expect(request.contents.parts.slice(0, 3)).toEqual([
+        { inlineData: { mimeType: "image/jpeg", data: "RlJPTlQ=" } },
+        { inlineData: { mimeType: "image/png", data: "TEVGVA==" } },
+        { inlineData: { mimeType: "image/jpeg", data: "UklHSFQ=" } },
+      ]);
+      expect(request.config.responseMimeType).toBe("application/json");
+      expect(request.config.responseSchema.required).toEqual(["faceShape", "features", "suggestions"]);
+      expect(request.config.responseSchema.properties.faceShape.enum).toEqual(Object.values(FaceShape));
+    });
+
+    it("adds the client's constraints and language to the prompt", async () => {
+      generateContent.mockResolvedValue({ text: JSON.stringify(validAnalysis) });
+
+      await provider.analyzeFace([FRONT], { constraints: { workplaceAppropriate: true }, locale: "ar" });
+
+      const prompt: string = generateContent.mock.calls[0][0].contents.parts.at(-1).text;
+      expect(prompt).toMatch(/workplace/i);
+      expect(prompt).toContain("Arabic (ar)");
+    });
+
+    it("keeps the structured features and tags, normalizing their wording", async () => {
+      const [first, second, ...rest] = validAnalysis.suggestions;
+      generateContent.mockResolvedValue({
+        text: JSON.stringify({
+          ...validAnalysis,
+          features: {
+            faceShapeConfidence: 82,
+            runnerUpShapes: [{ shape: "heart", confidence: 0.05 }, { shape: "Oval", confidence: 0.9 }, { shape: "Oblong", confidence: 0.13 }],
+            hairTexture: "wavy",
+            forehead: "Balanced",
+            jaw: "Pointy",
+          },
+          suggestions: [
+            { ...first, tags: { length: "short", maintenance: "Low", stylingMinutes: 4.6, hairTypes: ["Straight", "Frizzy", "Straight"], products: [" Paste ", ""] } },
+            { ...second, tags: { length: "Medium" } },
+            ...rest,
+          ],
+        }),
+      });
+
+      const result = await provider.analyzeFace([FRONT]);
+
+      expect(result.features).toMatchObject({
+        faceShapeConfidence: 0.82,
+        runnerUpShapes: [{ shape: FaceShape.OBLONG, confidence: 0.13 }, { shape: FaceShape.HEART, confidence: 0.05 }],
+        hairTexture: HairTexture.WAVY,
+        forehead: Proportion.BALANCED,
+      });
+      expect(result.features?.jaw).toBeUndefined();
+      expect(result.suggestions[0].tags).toEqual({
+        length: HairLength.SHORT,
+        maintenance: MaintenanceLevel.LOW,
+        stylingMinutes: 5,
+        hairTypes: [HairTexture.STRAIGHT],
+        products: ["Paste"],
+      });
+      // Incomplete tags leave the suggestion untagged rather than failing the analysis
+      expect(result.suggestions[1].tags).toBeUndefined();
+      expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails with \"No analysis generated.\" on an empty response", async () => {
+      generateContent.mockResolvedValue({ text: "" });
+
+      await expect(provider.analyzeFace([FRONT])).rejects.toThrow("No analysis generated.");
+    });
+
+    it("retries a malformed analysis once with the validation issues", async () => {
+      generateContent
+        .mockResolvedValueOnce({ text: JSON.stringify({ faceShape: "Triangle", suggestions: [] }) })
+        .mockResolvedValueOnce({ text: JSON.stringify(validAnalysis) });
+
+      const result = await provider.analyzeFace([FRONT]);
+
+      expect(result.suggestions).toHaveLength(5);
+      expect(generateContent).toHaveBeenCalledTimes(2);
+      const retryPrompt: string = generateContent.mock.calls[1][0].contents.parts.at(-1).text;
+      expect(retryPrompt).toContain("Your previous answer was rejected");
+    });
+
+    it("gives up after the second malformed analysis", async () => {
+      generateContent.mockResolvedValue({ text: "not json" });
+
+      await expect(provider.analyzeFace([FRONT])).rejects.toBeInstanceOf(AnalysisValidationError);
+      expect(generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it("passes model errors through", async () => {
+      generateContent.mockRejectedValue(new Error("Quota exceeded"));
+
+      await expect(provider.analyzeFace([FRONT])).rejects.toThrow("Quota exceeded");
+    });
+  });
+
+  describe("usage reporting", () => {
+    it("reports each model call with the token counts from the response", async () => {
+      generateContent
+        .mockResolvedValueOnce({ text: "{}", usageMetadata: { promptTokenCount: 900, candidatesTokenCount: 40, totalTokenCount: 940 } })
+        .mockResolvedValueOnce({
+          text: JSON.stringify(validAnalysis),
+          usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 300, thoughtsTokenCount: 50, totalTokenCount: 1350 },
+        });
+      const onModelCall = vi.fn();
+
+      await provider.analyzeFace([FRONT], { onModelCall });
+
+      expect(onModelCall.mock.calls.map(([call]) => call)).toEqual([
+        expect.objectContaining({ model: "gemini-2.5-flash", ok: true, inputTokens: 900, outputTokens: 40, totalTokens: 940 }),
+        expect.objectContaining({ model: "gemini-2.5-flash", ok: true, inputTokens: 1000, outputTokens: 350, totalTokens: 1350 }),
+      ]);
+    });
+
+    it("reports failed calls", async () => {
+      generateContent.mockRejectedValue(new Error("Quota exceeded"));
+      const onModelCall = vi.fn();
+
+      await expect(provider.generateHairstyleImage(FRONT, "Pixie Cut", "Short", { onModelCall })).rejects.toThrow("Quota exceeded");
+      expect(onModelCall).toHaveBeenCalledWith(expect.objectContaining({ model: "gemini-2.5-flash-image", ok: false }));
+    });
+  });
+
+  describe("generateHairstyleImage", () => {
+    it("returns the generated image as a data URL", async () => {
+      generateContent.mockResolvedValue(imageResponse("UkVOREVS", "image/webp"));
+
+      const url = await provider.generateHairstyleImage(FRONT, "Pixie Cut", "Short and textured");
+
+      expect(url).toBe("data:image/webp;base64,UkVOREVS");
+      const request = generateContent.mock.calls[0][0];
+      expect(request.contents.parts[0]).toEqual({ inlineData: { mimeType: "image/jpeg", data: "RlJPTlQ=" } });
+      expect(request.contents.parts.at(-1).text).toContain("Pixie Cut");
+    });
+
+    it("sends the front render as a second image for side views", async () => {
+      generateContent.mockResolvedValue(imageResponse("U0lERQ=="));
+
+      await provider.generateHairstyleImage(LEFT, "Pixie Cut", "Short", { referenceImage: "data:image/png;base64,UkVG" });
+
+      const parts = generateContent.mock.calls[0][0].contents.parts;
+      expect(parts[1]).toEqual({ inlineData: { mimeType: "image/png", data: "UkVG" } });
+    });
+
+    it("fails with \"No image generated in response.\" when only text comes back", async () => {
+      generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: "I can't do that." }] } }] });
+
+      await expect(provider.generateHairstyleImage(FRONT, "Pixie Cut", "Short")).rejects.toThrow(
+        "No image generated in response."
+      );
+    });
+
+    it("fails when the response has no content", async () => {
+      generateContent.mockResolvedValue({ candidates: [] });
+
+      await expect(provider.generateHairstyleImage(FRONT, "Pixie Cut", "Short")).rejects.toThrow("No content in response");
+    });
+  });
+
+  it("fails before calling the model when no API key is configured", async () => {
+    const env = { API_KEY: process.env.API_KEY, GEMINI_API_KEY: process.env.GEMINI_API_KEY };
+    delete process.env.API_KEY;
+    delete process.env.GEMINI_API_KEY;
+    try {
+      await expect(createGeminiProvider().analyzeFace([FRONT])).rejects.toThrow("API Key is missing");
+      expect(generateContent).not.toHaveBeenCalled();
+    } finally {
+      Object.assign(process.env, Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined)));
+    }
+  });
+});
@@ -1,9 +1,84 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult } from "../types";
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Type, Schema } from "@google/genai";
+import {
+  AiProvider, AnalysisOptions, AnalysisResult, CaptureAngle, FaceShape, GenerationOptions, HairDensity, HairLength, Hairline,
+  HairTexture, MaintenanceLevel, ModelCallListener, Proportion, Refinement,
+} from "../types";
+import { AnalysisValidationError, parseAnalysis } from "./analysisValidator";
+import { describeColor } from "./hairColors";
+import { describeConstraints } from "./styleConstraints";
 
-// Model Constants
-const ANALYSIS_MODEL = "gemini-2.5-flash";
-const GENERATION_MODEL = "gemini-2.5-flash-image"; 
+// Default Model Constants
+export const DEFAULT_ANALYSIS_MODEL = "gemini-2.5-flash";
+export const DEFAULT_GENERATION_MODEL = "gemini-2.5-flash-image";
+
+// Bump whenever a prompt or the analysis schema changes, so responses cached under
+// the old wording are not reused.
+const PROMPT_VERSION = 2;
+
+// Malformed analysis JSON is retried once with a corrective prompt before giving up.
+const MAX_ANALYSIS_ATTEMPTS = 2;
+
+const ANALYSIS_PROMPT = "Analyze the face in these images. You are provided with 3 angles: 1. Front View, 2. Left Profile (or partial turn), 3. Right Profile (or partial turn). A fourth image, when present, shows the back of the head; use it to judge the current length, density and growth patterns such as a crown whorl or cowlick. Use all angles to accurately identify the face shape. Suggest exactly 5 distinct, trendy hairstyles that would perfectly suit this person's face shape and features. Focus on realistic, achievable styles. Provide variety (short, medium, long if applicable). Also report how confident you are in the face shape and which shapes came closest, the current hair texture, density, length and hairline, and whether the forehead, cheekbones and jaw are narrow, balanced or wide relative to the rest of the face. Tag every suggestion with its length, maintenance level, typical daily styling time in minutes, the hair textures it works with and the styling products it needs.";
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  analysisModel?: string;
+  generationModel?: string;
+  baseUrl?: string; // Point the SDK at a local stub of the model API
+}
+
+const proportionSchema = (zone: string): Schema => ({
+  type: Type.STRING,
+  description: `Width of the ${zone} relative to the rest of the face.`,
+  enum: Object.values(Proportion),
+});
+
+const featuresSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    faceShapeConfidence: { type: Type.NUMBER, description: "Confidence in faceShape, from 0 to 1.", minimum: 0, maximum: 1 },
+    runnerUpShapes: {
+      type: Type.ARRAY,
+      description: "Up to two other face shapes that came closest, most likely first.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          shape: { type: Type.STRING, enum: Object.values(FaceShape) },
+          confidence: { type: Type.NUMBER, description: "From 0 to 1.", minimum: 0, maximum: 1 },
+        },
+        required: ["shape", "confidence"],
+      },
+    },
+    hairTexture: { type: Type.STRING, description: "Current natural hair texture.", enum: Object.values(HairTexture) },
+    hairDensity: { type: Type.STRING, description: "How much hair there is.", enum: Object.values(HairDensity) },
+    currentLength: { type: Type.STRING, description: "Current hair length.", enum: Object.values(HairLength) },
+    hairline: { type: Type.STRING, description: "Shape of the front hairline.", enum: Object.values(Hairline) },
+    forehead: proportionSchema("forehead"),
+    cheekbones: proportionSchema("cheekbones"),
+    jaw: proportionSchema("jaw"),
+  },
+  required: ["faceShapeConfidence", "runnerUpShapes", "hairTexture", "hairDensity", "currentLength", "hairline", "forehead", "cheekbones", "jaw"],
+};
+
+const tagsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    length: { type: Type.STRING, description: "Length of the finished style.", enum: Object.values(HairLength) },
+    maintenance: { type: Type.STRING, description: "Upkeep between salon visits.", enum: Object.values(MaintenanceLevel) },
+    stylingMinutes: { type: Type.INTEGER, description: "Typical daily styling time in minutes." },
+    hairTypes: {
+      type: Type.ARRAY,
+      description: "Hair textures the style works with.",
+      items: { type: Type.STRING, enum: Object.values(HairTexture) },
+    },
+    products: {
+      type: Type.ARRAY,
+      description: "Styling products the style needs, e.g. sea salt spray. Empty if none.",
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["length", "maintenance", "stylingMinutes", "hairTypes", "products"],
+};
 
 const analysisSchema: Schema = {
   type: Type.OBJECT,
@@ -11,26 +86,40 @@ const analysisSchema: Schema = {
     faceShape: {
       type: Type.STRING,
       description: "The identified shape of the face (e.g., Oval, Square, Heart, Round, Diamond, Oblong).",
+      enum: Object.values(FaceShape),
     },
+    features: featuresSchema,
     suggestions: {
       type: Type.ARRAY,
       description: "Exactly five hairstyle suggestions.",
       items: {
         type: Type.OBJECT,
         properties: {
-          name: { type: Type.STRING, description: "Name of the hairstyle." },
+          name: { type: Type.STRING, description: "Unique name of the hairstyle." },
           description: { type: Type.STRING, description: "Brief visual description of the hairstyle." },
           reasoning: { type: Type.STRING, description: "Why this suits the face shape based on the provided angles." },
+          tags: tagsSchema,
         },
-        required: ["name", "description", "reasoning"],
+        required: ["name", "description", "reasoning", "tags"],
       },
     },
   },
-  required: ["faceShape", "suggestions"],
+  required: ["faceShape", "features", "suggestions"],
 };
 
-// Helper to safely get the client
-const getAiClient = () => {
+/**
+ * Splits a data URL into the mime type and base64 payload the API expects.
+ * Bare base64 strings are treated as JPEG, like camera captures.
+ */
+export const toInlineData = (image: string): { mimeType: string; data: string } => {
+  const match = image.match(/^data:(image\/[\w.+-]+);base64,/i);
+  if (!match) return { mimeType: "image/jpeg", data: image };
+  const mimeType = match[1].toLowerCase() === "image/jpg" ? "image/jpeg" : match[1].toLowerCase();
+  return { mimeType, data: image.slice(match[0].length) };
+};
+
+// Helper to resolve the API key from the environment
+const resolveApiKey = (): string | undefined => {
   // Attempt to find the key from standard env or Vite env
   let apiKey: string | undefined;
   
@@ -47,89 +136,177 @@ const getAiClient = () => {
     // Ignore access errors
   }
 
-  // Fallback if specific build tools inject it differently
+  // Fallback if specific build tools inject it differently, or on the API proxy server
   if (!apiKey && typeof process !== 'undefined' && process.env) {
-      apiKey = process.env.API_KEY;
+      apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
   }
 
+  return apiKey;
+};
+
+// Helper to safely get the client
+const getAiClient = (options: GeminiProviderOptions) => {
+  const apiKey = options.apiKey || resolveApiKey();
+
   if (!apiKey) {
     throw new Error("API Key is missing. Please check your .env file or environment configuration.");
   }
 
-  return new GoogleGenAI({ apiKey });
+  return new GoogleGenAI({ apiKey, httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined });
+};
+
+// Free-text fields follow the user's language; names stay English because they
+// key renders and feed the image prompt, and enumerated values must match the schema.
+const describeLanguage = (locale?: string): string => {
+  if (!locale || locale.toLowerCase().startsWith("en")) return "";
+  let language = locale;
+  try {
+    language = new Intl.DisplayNames(["en"], { type: "language" }).of(locale) ?? locale;
+  } catch (e) {
+    // Unknown tag; the model still understands the raw code
+  }
+  return `\n\nWrite every "description", "reasoning" and "products" value in ${language} (${locale}). Keep "name" in English and every enumerated value exactly as one of the allowed values.`;
+};
+
+// Times one generateContent call and reports it, with the token usage from the
+// response metadata, to the caller's listener.
+const callModel = async (
+  ai: GoogleGenAI,
+  request: GenerateContentParameters,
+  onModelCall?: ModelCallListener
+): Promise<GenerateContentResponse> => {
+  const startedAt = Date.now();
+  try {
+    const response = await ai.models.generateContent(request);
+    const usage = response.usageMetadata;
+    onModelCall?.({
+      model: request.model,
+      latencyMs: Date.now() - startedAt,
+      ok: true,
+      inputTokens: usage?.promptTokenCount,
+      outputTokens: usage && (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+      totalTokens: usage?.totalTokenCount,
+    });
+    return response;
+  } catch (error) {
+    onModelCall?.({ model: request.model, latencyMs: Date.now() - startedAt, ok: false });
+    throw error;
+  }
 };
 
 /**
- * Analyzes the face in the provided base64 image strings (Front, Left, Right).
+ * Analyzes the face in the provided base64 image strings (Front, Left, Right, optional Back).
  */
-export const analyzeFace = async (base64Images: string[]): Promise<AnalysisResult> => {
+const analyzeFace = async (
+  base64Images: string[],
+  { constraints, locale, onModelCall }: AnalysisOptions = {},
+  options: GeminiProviderOptions = {},
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
   try {
-    const ai = getAiClient();
+    const ai = getAiClient(options);
     
     const parts = base64Images.map(img => ({
-      inlineData: {
-        mimeType: "image/jpeg",
-        data: img.replace(/^data:image\/(png|jpeg|jpg);base64,/, ""),
-      }
+      inlineData: toInlineData(img),
     }));
 
-    const response = await ai.models.generateContent({
-      model: ANALYSIS_MODEL,
-      contents: {
-        parts: [
-          ...parts,
-          {
-            text: "Analyze the face in these images. You are provided with 3 angles: 1. Front View, 2. Left Profile (or partial turn), 3. Right Profile (or partial turn). Use all angles to accurately identify the face shape. Suggest exactly 5 distinct, trendy hairstyles that would perfectly suit this person's face shape and features. Focus on realistic, achievable styles. Provide variety (short, medium, long if applicable).",
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        temperature: 0.5,
-      },
-    });
+    let correction = "";
+    for (let attempt = 1; ; attempt++) {
+      const response = await callModel(ai, {
+        model: options.analysisModel || DEFAULT_ANALYSIS_MODEL,
+        contents: {
+          parts: [
+            ...parts,
+            {
+              text: ANALYSIS_PROMPT + describeConstraints(constraints) + describeLanguage(locale) + correction,
+            },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: analysisSchema,
+          temperature: 0.5,
+          abortSignal: signal,
+        },
+      }, onModelCall);
 
-    if (!response.text) {
-      throw new Error("No analysis generated.");
-    }
+      if (!response.text) {
+        throw new Error("No analysis generated.");
+      }
 
-    return JSON.parse(response.text) as AnalysisResult;
+      try {
+        return parseAnalysis(response.text);
+      } catch (validationError) {
+        if (!(validationError instanceof AnalysisValidationError) || attempt >= MAX_ANALYSIS_ATTEMPTS) {
+          throw validationError;
+        }
+        console.warn(`Analysis attempt ${attempt} was malformed, retrying:`, validationError.issues);
+        correction = `\n\nYour previous answer was rejected for these reasons: ${validationError.issues.join(" ")} Return corrected JSON that follows the schema exactly.`;
+      }
+    }
   } catch (error) {
     console.error("Analysis Error:", error);
     throw error;
   }
 };
 
+// Consistency instructions for renders based on a profile capture.
+const describeView = ({ angle, referenceImage }: GenerationOptions): string => {
+  if (!angle || angle === CaptureAngle.FRONT) return "";
+
+  const side = angle === CaptureAngle.LEFT ? "left" : "right";
+  const view = `The first image shows the person's ${side} profile; keep that head angle.`;
+  if (!referenceImage) return view;
+  return `${view} The second image shows the same person already wearing the target hairstyle from the front. Reproduce exactly that hairstyle (same length, layering, parting, volume and color) as it would look from this angle.`;
+};
+
+// Follow-up edit of an existing render: the capture anchors identity, the render is what changes.
+const describeRefinement = (hairstyleName: string, { instruction }: Refinement): string => `
+      The first image is the original photo of the person. The second image shows them with a ${hairstyleName}.
+      Edit the second image according to this request: "${instruction}".
+      Change only what the request asks for; keep the rest of the hairstyle, the color, the framing and the lighting of the second image.
+      CRITICAL: The face must still match the person in the first image exactly. Photorealistic.
+    `;
+
 /**
  * Generates a visualization of a specific hairstyle on the user's photo.
  */
-export const generateHairstyleImage = async (
+const generateHairstyleImage = async (
   base64Image: string,
   hairstyleName: string,
-  hairstyleDescription: string
+  hairstyleDescription: string,
+  generation: GenerationOptions = {},
+  options: GeminiProviderOptions = {},
+  signal?: AbortSignal
 ): Promise<string> => {
   try {
-    const ai = getAiClient();
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+    const ai = getAiClient(options);
 
-    const prompt = `
+    const prompt = generation.refinement ? describeRefinement(hairstyleName, generation.refinement) : `
       Transform this image: The person in the photo is now wearing a ${hairstyleName}.
       ${hairstyleDescription}.
       CRITICAL: Keep the person's facial features, expression, skin tone, and head pose EXACTLY the same as the original image. 
       Only change the hair. High quality, photorealistic portrait.
+      ${describeColor(generation.color)}
+      ${describeConstraints(generation.constraints)}
+      ${describeView(generation)}
     `;
 
-    const response = await ai.models.generateContent({
-      model: GENERATION_MODEL,
+    // Side views get the finished front render as a second image to match against;
+    // refinements get the render being edited
+    const secondImage = generation.refinement?.currentImage ?? generation.referenceImage;
+    const referenceParts = secondImage
+      ? [{ inlineData: toInlineData(secondImage) }]
+      : [];
+
+    const response = await callModel(ai, {
+      model: options.generationModel || DEFAULT_GENERATION_MODEL,
       contents: {
         parts: [
           {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: cleanBase64,
-            },
+            inlineData: toInlineData(base64Image),
           },
+          ...referenceParts,
           {
             text: prompt,
           },
@@ -137,8 +314,9 @@ export const generateHairstyleImage = async (
       },
       config: {
         // Image generation config
+        abortSignal: signal,
       },
-    });
+    }, generation.onModelCall);
 
     // Extract image from response
     const parts = response.candidates?.[0]?.content?.parts;
@@ -147,7 +325,7 @@ export const generateHairstyleImage = async (
     // Iterate to find the inlineData (image)
     for (const part of parts) {
       if (part.inlineData && part.inlineData.data) {
-        return `data:image/png;base64,${part.inlineData.data}`;
+        return `data:${part.inlineData.mimeType || "image/png"};base64,${part.inlineData.data}`;
       }
     }
 
@@ -156,4 +334,21 @@ export const generateHairstyleImage = async (
     console.error(`Generation Error for ${hairstyleName}:`, error);
     throw error; // Re-throw to handle in UI
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Creates the Gemini-backed provider. The client is built per call so a missing
+ * key only fails when the provider is actually used.
+ */
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): AiProvider => ({
+  name: "gemini",
+  getFingerprint: async () => [
+    "gemini",
+    options.analysisModel || DEFAULT_ANALYSIS_MODEL,
+    options.generationModel || DEFAULT_GENERATION_MODEL,
+    `prompts-v${PROMPT_VERSION}`,
+  ].join(":"),
+  analyzeFace: (base64Images, analysis, signal) => analyzeFace(base64Images, analysis, options, signal),
+  generateHairstyleImage: (base64Image, hairstyleName, hairstyleDescription, generation, signal) =>
+    generateHairstyleImage(base64Image, hairstyleName, hairstyleDescription, generation, options, signal),
+});
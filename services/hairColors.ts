@@ -0,0 +1,48 @@
+import { AppliedColor, ColorTechnique, HairColor } from "../types";
+
+export const HAIR_COLORS: HairColor[] = [
+  // Natural shades
+  { id: "jet-black", name: "Jet Black", swatch: "#0b0b0c", category: "natural" },
+  { id: "dark-brown", name: "Dark Brown", swatch: "#3b2416", category: "natural" },
+  { id: "chestnut", name: "Chestnut", swatch: "#6a3b23", category: "natural" },
+  { id: "caramel", name: "Caramel", swatch: "#a86b3c", category: "natural" },
+  { id: "honey-blonde", name: "Honey Blonde", swatch: "#d4a35f", category: "natural" },
+  { id: "platinum", name: "Platinum Blonde", swatch: "#e8e2d0", category: "natural" },
+  { id: "auburn", name: "Auburn", swatch: "#7f2d1c", category: "natural" },
+  { id: "copper", name: "Copper", swatch: "#b5532a", category: "natural" },
+  { id: "silver", name: "Silver Grey", swatch: "#b8b8b8", category: "natural" },
+  // Fashion colors
+  { id: "rose-gold", name: "Rose Gold", swatch: "#d99a8c", category: "fashion" },
+  { id: "pastel-pink", name: "Pastel Pink", swatch: "#f4b6c8", category: "fashion" },
+  { id: "lavender", name: "Lavender", swatch: "#b9a1d9", category: "fashion" },
+  { id: "electric-blue", name: "Electric Blue", swatch: "#2f5fd0", category: "fashion" },
+  { id: "teal", name: "Teal", swatch: "#1f8a8a", category: "fashion" },
+  { id: "cherry-red", name: "Cherry Red", swatch: "#a3122a", category: "fashion" },
+];
+
+// Upper bound on colors per generation so style x color batches stay affordable.
+export const MAX_COLOR_SELECTION = 3;
+
+export const getHairColor = (id: string): HairColor | undefined => HAIR_COLORS.find(c => c.id === id);
+
+export const formatColorLabel = (color: AppliedColor): string =>
+  color.technique === ColorTechnique.SOLID ? color.name : `${color.name} ${color.technique.toLowerCase()}`;
+
+/**
+ * Prompt line describing the requested color, or asking to keep the current one.
+ */
+export const describeColor = (color?: AppliedColor): string => {
+  if (!color) return "Keep the person's current hair color.";
+
+  const shade = color.name.toLowerCase();
+  switch (color.technique) {
+    case ColorTechnique.HIGHLIGHTS:
+      return `Keep the person's current base hair color and add fine ${shade} highlights throughout.`;
+    case ColorTechnique.BALAYAGE:
+      return `Apply a soft, hand-painted ${shade} balayage, keeping the roots close to the person's natural color.`;
+    case ColorTechnique.OMBRE:
+      return `Color the hair as an ombre: the person's natural color at the roots blending into ${shade} at the ends.`;
+    default:
+      return `Color all of the hair ${shade}.`;
+  }
+};
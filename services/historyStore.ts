@@ -0,0 +1,33 @@
+import { ConsultationSession, GenerationStatus } from "../types";
+import { STORES, withStore } from "./db";
+
+/**
+ * Saves (or overwrites) a consultation. Only finished renders are kept, since
+ * pending or failed entries can't be shown when the session is reopened.
+ */
+export const saveSession = async (session: ConsultationSession): Promise<void> => {
+  const record: ConsultationSession = {
+    ...session,
+    generatedImages: session.generatedImages.filter(g => g.status === GenerationStatus.DONE),
+  };
+  await withStore(STORES.SESSIONS, "readwrite", store => store.put(record));
+};
+
+/**
+ * Lists saved consultations, newest first.
+ */
+export const listSessions = async (): Promise<ConsultationSession[]> => {
+  const sessions = await withStore<ConsultationSession[]>(STORES.SESSIONS, "readonly", store => store.getAll());
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getSession = (id: string): Promise<ConsultationSession | undefined> =>
+  withStore<ConsultationSession | undefined>(STORES.SESSIONS, "readonly", store => store.get(id));
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(STORES.SESSIONS, "readwrite", store => store.delete(id));
+};
+
+export const clearSessions = async (): Promise<void> => {
+  await withStore(STORES.SESSIONS, "readwrite", store => store.clear());
+};
@@ -0,0 +1,124 @@
+import { AppliedColor, ColorTechnique, FaceShape, HairDensity, HairLength, Hairline, HairTexture, MaintenanceLevel, Proportion } from "../types";
+import { Messages, en } from "../locales/en";
+import { ar } from "../locales/ar";
+import { hi } from "../locales/hi";
+
+export type MessageKey = keyof Messages;
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+export const SUPPORTED_LOCALES = ["en", "ar", "hi"] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Shown in the language picker, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  ar: "العربية",
+  hi: "हिन्दी",
+};
+
+const BUNDLES: Record<Locale, Messages> = { en, ar, hi };
+const RTL_LOCALES: Locale[] = ["ar"];
+const STORAGE_KEY = "styleai.locale";
+
+export const getTextDirection = (locale: Locale): "ltr" | "rtl" => (RTL_LOCALES.includes(locale) ? "rtl" : "ltr");
+
+const isLocale = (value: unknown): value is Locale => SUPPORTED_LOCALES.includes(value as Locale);
+
+/**
+ * Picks the first supported locale from a list of BCP 47 tags ("ar-EG" matches "ar").
+ */
+export const matchLocale = (tags: readonly string[]): Locale | null => {
+  for (const tag of tags) {
+    const language = tag.toLowerCase().split("-")[0];
+    if (isLocale(language)) return language;
+  }
+  return null;
+};
+
+/**
+ * The user's saved choice, otherwise the first browser language we support.
+ */
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (e) {
+    // Storage blocked (private mode); fall through to the browser languages
+  }
+  if (typeof navigator === "undefined") return DEFAULT_LOCALE;
+  return matchLocale(navigator.languages?.length ? navigator.languages : [navigator.language]) ?? DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    // Not persisted; detection runs again next visit
+  }
+};
+
+/**
+ * Looks up `key` in the locale's bundle (English when missing) and fills in
+ * `{name}` placeholders. Numbers are formatted for the locale.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: TranslationParams): string => {
+  const template = BUNDLES[locale][key] ?? en[key] ?? key;
+  if (!params) return template;
+  const numberFormat = new Intl.NumberFormat(locale);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? numberFormat.format(value) : value;
+  });
+};
+
+// Estimated model spend in USD. Amounts under a dollar keep extra digits, since a
+// single call is often a fraction of a cent.
+export const formatCost = (locale: Locale, usd: number): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: usd > 0 && usd < 1 ? 4 : 2,
+  }).format(usd);
+
+// A 0-1 ratio as a whole percentage, e.g. 0.82 as "82%"
+export const formatPercent = (locale: Locale, ratio: number): string =>
+  new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 }).format(ratio);
+
+// "Straight, Wavy and Curly" with the locale's separators and conjunction
+export const formatList = (locale: Locale, items: string[]): string =>
+  new Intl.ListFormat(locale, { type: "conjunction" }).format(items);
+
+export const createTranslator = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
+
+export const formatFaceShape = (t: Translate, shape: FaceShape): string => t(`faceShape.${shape}`);
+
+export const formatHairTexture = (t: Translate, texture: HairTexture): string => t(`texture.${texture}`);
+
+export const formatHairLength = (t: Translate, length: HairLength): string => t(`length.${length}`);
+
+export const formatMaintenance = (t: Translate, level: MaintenanceLevel): string => t(`maintenance.${level}`);
+
+export const formatHairDensity = (t: Translate, density: HairDensity): string => t(`density.${density}`);
+
+export const formatHairline = (t: Translate, hairline: Hairline): string => t(`hairline.${hairline}`);
+
+export const formatProportion = (t: Translate, proportion: Proportion): string => t(`proportion.${proportion}`);
+
+/**
+ * Display label for an applied color, e.g. "Copper balayage", in the UI language.
+ * The stored color name stays English because it goes into prompts.
+ */
+export const formatColorName = (t: Translate, color: Pick<AppliedColor, "id" | "name">): string => {
+  const key = `color.${color.id}` as MessageKey;
+  return key in en ? t(key) : color.name;
+};
+
+export const formatAppliedColor = (t: Translate, color: AppliedColor): string => {
+  const name = formatColorName(t, color);
+  if (color.technique === ColorTechnique.SOLID) return name;
+  return t("color.withTechnique", { color: name, technique: t(`technique.${color.technique}`) });
+};
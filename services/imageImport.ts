@@ -0,0 +1,112 @@
+import { detectFace } from "./faceDetection";
+
+// Same ceiling as the live camera (1280x720 ideal), which is what analysis is tuned for.
+export const MAX_IMAGE_DIMENSION = 1280;
+const JPEG_QUALITY = 0.9;
+
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"];
+export const ACCEPTED_IMAGE_INPUT = [...ACCEPTED_TYPES, ".heic", ".heif"].join(",");
+
+// How much of the surroundings to keep around a detected face, relative to the face box.
+// Generous on purpose: the hair is the whole point.
+const CROP_WIDTH_FACTOR = 2.4;
+const CROP_TOP_FACTOR = 0.8;
+
+// What went wrong, shown to the user as the matching upload.* message
+export type ImageImportErrorCode = "unreadable" | "heicFailed" | "unsupported" | "processingFailed";
+
+export class ImageImportError extends Error {
+  code: ImageImportErrorCode;
+  fileName?: string;
+
+  constructor(code: ImageImportErrorCode, message: string, fileName?: string) {
+    super(message);
+    this.name = "ImageImportError";
+    this.code = code;
+    this.fileName = fileName;
+  }
+}
+
+export interface ImportOptions {
+  cropToFace?: boolean;
+}
+
+const isHeic = (file: File) => /^image\/hei[cf]$/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// "from-image" applies the EXIF orientation tag while decoding.
+const decode = (blob: Blob): Promise<ImageBitmap> => createImageBitmap(blob, { imageOrientation: "from-image" });
+
+const decodeFile = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await decode(file);
+  } catch (error) {
+    if (!isHeic(file)) {
+      throw new ImageImportError("unreadable", `Could not read "${file.name}". Please use a JPEG, PNG, WebP or HEIC photo.`, file.name);
+    }
+  }
+
+  // Only Safari decodes HEIC natively; convert elsewhere. Loaded lazily since it's large.
+  try {
+    const { default: heic2any } = await import("heic2any");
+    const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: JPEG_QUALITY });
+    return await decode(Array.isArray(converted) ? converted[0] : converted);
+  } catch (error) {
+    console.error("HEIC conversion failed:", error);
+    throw new ImageImportError("heicFailed", `Could not convert "${file.name}" from HEIC.`, file.name);
+  }
+};
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A 3:4 portrait region around the face with room for the hair, clamped to the image.
+export const getFaceCrop = async (bitmap: ImageBitmap): Promise<CropRect | null> => {
+  const { face } = await detectFace(bitmap, bitmap.width, bitmap.height);
+  if (!face) return null;
+
+  const faceWidth = face.width * bitmap.width;
+  const faceHeight = face.height * bitmap.height;
+  let width = Math.min(bitmap.width, faceWidth * CROP_WIDTH_FACTOR);
+  let height = Math.min(bitmap.height, (width * 4) / 3);
+  width = Math.min(width, (height * 3) / 4);
+
+  const centerX = (face.x + face.width / 2) * bitmap.width;
+  const top = face.y * bitmap.height - faceHeight * CROP_TOP_FACTOR;
+  const x = Math.min(Math.max(0, centerX - width / 2), bitmap.width - width);
+  const y = Math.min(Math.max(0, top), bitmap.height - height);
+  return { x, y, width, height };
+};
+
+/**
+ * Reads an uploaded photo and normalizes it like a camera capture: orientation
+ * applied, optionally cropped to the face, downscaled, re-encoded as JPEG.
+ * Re-encoding through a canvas also drops EXIF and other metadata.
+ */
+export const importImageFile = async (file: File, options: ImportOptions = {}): Promise<string> => {
+  if (file.type && !ACCEPTED_TYPES.includes(file.type.toLowerCase()) && !isHeic(file)) {
+    throw new ImageImportError("unsupported", `"${file.name}" is not a supported image type.`, file.name);
+  }
+
+  const bitmap = await decodeFile(file);
+  try {
+    const crop = (options.cropToFace ? await getFaceCrop(bitmap) : null)
+      ?? { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(crop.width, crop.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(crop.width * scale);
+    canvas.height = Math.round(crop.height * scale);
+
+    const context = canvas.getContext("2d");
+    if (!context) throw new ImageImportError("processingFailed", "Could not process the image.", file.name);
+    context.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+
+    return canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mockProvider";
+
+describe("mock provider", () => {
+  it("returns the analysis with its features and tags", async () => {
+    const provider = createMockProvider();
+
+    const analysis = await provider.analyzeFace(["data:image/jpeg;base64,QQ=="]);
+
+    expect(analysis.features).toMatchObject({ faceShapeConfidence: expect.any(Number), runnerUpShapes: expect.any(Array) });
+    expect(analysis.suggestions.every(suggestion => suggestion.tags)).toBe(true);
+  });
+
+  it("hands out copies that don't share state with the fixture", async () => {
+    const provider = createMockProvider();
+
+    const first = await provider.analyzeFace(["data:image/jpeg;base64,QQ=="]);
+    first.features!.runnerUpShapes.length = 0;
+    first.suggestions[0].tags!.products.push("glitter");
+
+    const second = await provider.analyzeFace(["data:image/jpeg;base64,QQ=="]);
+    expect(second.features!.runnerUpShapes).not.toHaveLength(0);
+    expect(second.suggestions[0].tags!.products).not.toContain("glitter");
+  });
+});
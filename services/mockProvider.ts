@@ -0,0 +1,136 @@
+import {
+  AiProvider, AnalysisResult, FaceShape, HairDensity, HairLength, Hairline, HairTexture, MaintenanceLevel, Proportion,
+} from "../types";
+import { abortableDelay } from "./abort";
+import { formatColorLabel, getHairColor } from "./hairColors";
+import { ANGLE_LABELS } from "./renders";
+
+export interface MockProviderOptions {
+  // Artificial delay so loading states are visible in dev and demos.
+  latencyMs?: number;
+}
+
+const MOCK_ANALYSIS: AnalysisResult = {
+  faceShape: FaceShape.OVAL,
+  features: {
+    faceShapeConfidence: 0.82,
+    runnerUpShapes: [{ shape: FaceShape.OBLONG, confidence: 0.12 }, { shape: FaceShape.HEART, confidence: 0.06 }],
+    hairTexture: HairTexture.WAVY,
+    hairDensity: HairDensity.MEDIUM,
+    currentLength: HairLength.MEDIUM,
+    hairline: Hairline.ROUNDED,
+    forehead: Proportion.BALANCED,
+    cheekbones: Proportion.WIDE,
+    jaw: Proportion.BALANCED,
+  },
+  suggestions: [
+    {
+      name: "Textured Crop",
+      description: "Short, choppy layers on top with a soft fade at the sides.",
+      reasoning: "Balanced proportions let a short crop add texture without widening the face.",
+      tags: { length: HairLength.SHORT, maintenance: MaintenanceLevel.MEDIUM, stylingMinutes: 5, hairTypes: [HairTexture.STRAIGHT, HairTexture.WAVY], products: ["Matte paste"] },
+    },
+    {
+      name: "Long Layers",
+      description: "Shoulder-length hair with long, face-framing layers.",
+      reasoning: "Layers starting at the cheekbones highlight the even width of an oval face.",
+      tags: { length: HairLength.LONG, maintenance: MaintenanceLevel.LOW, stylingMinutes: 10, hairTypes: [HairTexture.STRAIGHT, HairTexture.WAVY, HairTexture.CURLY], products: ["Heat protectant"] },
+    },
+    {
+      name: "Classic Side Part",
+      description: "Neat, medium-length cut with a defined side part and light volume.",
+      reasoning: "A side part adds subtle asymmetry that complements the soft jawline.",
+      tags: { length: HairLength.MEDIUM, maintenance: MaintenanceLevel.MEDIUM, stylingMinutes: 10, hairTypes: [HairTexture.STRAIGHT, HairTexture.WAVY], products: ["Pomade"] },
+    },
+    {
+      name: "Curtain Bangs",
+      description: "Centre-parted bangs that sweep outward to blend into longer hair.",
+      reasoning: "Curtain bangs frame the eyes while keeping the forehead partly visible.",
+      tags: { length: HairLength.MEDIUM, maintenance: MaintenanceLevel.HIGH, stylingMinutes: 15, hairTypes: [HairTexture.STRAIGHT, HairTexture.WAVY], products: ["Volumizing mousse", "Dry shampoo"] },
+    },
+    {
+      name: "Sleek Bob",
+      description: "Chin-length blunt bob with a glossy, straight finish.",
+      reasoning: "A jaw-grazing line draws attention to the cheekbones and chin.",
+      tags: { length: HairLength.SHORT, maintenance: MaintenanceLevel.HIGH, stylingMinutes: 20, hairTypes: [HairTexture.STRAIGHT], products: ["Smoothing serum", "Heat protectant"] },
+    },
+  ],
+};
+
+// Reported as the model in usage records
+const MOCK_MODEL = "mock";
+
+const PLACEHOLDER_COLORS = ["#6366f1", "#ec4899", "#14b8a6", "#f59e0b", "#8b5cf6", "#ef4444"];
+
+// Stable string hash so the same hairstyle always gets the same placeholder.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Placeholders are base64 data URLs like real renders, so they pass the same
+// image checks in the proxy and when sent back as reference images.
+const toBase64 = (text: string): string => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const buildPlaceholderImage = (hairstyleName: string, subtitle: string, swatch?: string): string => {
+  const color = swatch ?? PLACEHOLDER_COLORS[hashString(hairstyleName) % PLACEHOLDER_COLORS.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="1000" viewBox="0 0 800 1000">
+  <rect width="800" height="1000" fill="#18181b"/>
+  <ellipse cx="400" cy="430" rx="190" ry="240" fill="${color}" opacity="0.35"/>
+  <ellipse cx="400" cy="470" rx="140" ry="180" fill="#27272a"/>
+  <text x="400" y="820" font-family="sans-serif" font-size="44" fill="#f4f4f5" text-anchor="middle">${escapeXml(hairstyleName)}</text>
+  <text x="400" y="875" font-family="sans-serif" font-size="24" fill="#a1a1aa" text-anchor="middle">${escapeXml(subtitle)}</text>
+</svg>`;
+  return `data:image/svg+xml;base64,${toBase64(svg)}`;
+};
+
+/**
+ * Creates a deterministic, offline provider that returns canned analysis JSON
+ * and generated placeholder images. Requires no network access or API key.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): AiProvider => {
+  const latencyMs = options.latencyMs ?? 0;
+
+  return {
+    name: "mock",
+    analyzeFace: async (base64Images, analysis, signal) => {
+      if (base64Images.length === 0) {
+        throw new Error("No analysis generated.");
+      }
+      await abortableDelay(latencyMs, signal);
+      analysis?.onModelCall?.({ model: MOCK_MODEL, latencyMs, ok: true });
+      // Hand out a deep copy so callers can't mutate the canned fixture.
+      return structuredClone(MOCK_ANALYSIS);
+    },
+    generateHairstyleImage: async (_base64Image, hairstyleName, _hairstyleDescription, generation, signal) => {
+      await abortableDelay(latencyMs, signal);
+      generation?.onModelCall?.({ model: MOCK_MODEL, latencyMs, ok: true });
+      const color = generation?.color;
+      const subtitle = [
+        "Mock preview",
+        color ? formatColorLabel(color) : null,
+        generation?.angle ? ANGLE_LABELS[generation.angle] : null,
+        generation?.refinement ? `Refined: ${generation.refinement.instruction}` : null,
+      ].filter(Boolean).join(" · ");
+      return buildPlaceholderImage(
+        hairstyleName,
+        subtitle,
+        color ? getHairColor(color.id)?.swatch : undefined
+      );
+    },
+  };
+};
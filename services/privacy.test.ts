@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { stripJpegMetadata } from "./privacy";
+
+const segment = (marker: number, payload: number[]) => [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+const SOI = [0xff, 0xd8];
+const APP0 = segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00]); // "JFIF\0"
+const EXIF = segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, 0x47, 0x50, 0x53]); // "Exif\0\0GPS"
+const COMMENT = segment(0xfe, [0x68, 0x69]);
+const QUANT = segment(0xdb, [0x00, 0x01, 0x02]);
+const SCAN = [...segment(0xda, [0x01]), 0x12, 0x34, 0xff, 0xd9];
+
+const toDataUrl = (bytes: number[]) => `data:image/jpeg;base64,${btoa(String.fromCharCode(...bytes))}`;
+
+describe("stripJpegMetadata", () => {
+  it("drops EXIF and comments but keeps the image segments", () => {
+    const stripped = stripJpegMetadata(toDataUrl([...SOI, ...APP0, ...EXIF, ...COMMENT, ...QUANT, ...SCAN]));
+    expect(stripped).toBe(toDataUrl([...SOI, ...APP0, ...QUANT, ...SCAN]));
+  });
+
+  it("leaves anything that isn't a well-formed JPEG untouched", () => {
+    const truncated = toDataUrl([...SOI, ...APP0, 0xff, 0xe1, 0x00, 0x40]);
+    expect(stripJpegMetadata(truncated)).toBe(truncated);
+    expect(stripJpegMetadata("data:image/jpeg;base64,Q0FQVFVSRQ==")).toBe("data:image/jpeg;base64,Q0FQVFVSRQ==");
+    expect(stripJpegMetadata("data:image/png;base64,UkVOREVS")).toBe("data:image/png;base64,UkVOREVS");
+  });
+});
@@ -0,0 +1,200 @@
+import { clearResponseCache } from "./aiProvider";
+import { clearClients } from "./clientStore";
+import { CropRect, getFaceCrop } from "./imageImport";
+import { clearSessions } from "./historyStore";
+import { clearUsage } from "./usageStore";
+
+/**
+ * What leaves the device, and how to take it all back. Photos are prepared on
+ * the device before the consent step shows them: optionally cropped to the head
+ * or with the background blurred, and always without EXIF or other metadata.
+ */
+
+// "crop" keeps only the head and hair; "blur" keeps the frame but blurs everything around them
+export type BackgroundMode = "off" | "crop" | "blur";
+
+export const BACKGROUND_MODES: BackgroundMode[] = ["off", "crop", "blur"];
+
+const STORAGE_KEY = "styleai.privacy";
+const STORAGE_PREFIX = "styleai.";
+
+// Same quality as camera captures and imports
+const JPEG_QUALITY = 0.9;
+// The background is downscaled to this fraction of the photo and stretched back, which blurs it
+const BLUR_SCALE = 1 / 32;
+
+export const loadBackgroundMode = (): BackgroundMode => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return BACKGROUND_MODES.includes(saved?.backgroundMode) ? saved.backgroundMode : "off";
+  } catch (e) {
+    // Storage blocked or corrupt; send photos as taken
+    return "off";
+  }
+};
+
+export const saveBackgroundMode = (backgroundMode: BackgroundMode) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ backgroundMode }));
+  } catch (e) {
+    // Not persisted; the default applies next visit
+  }
+};
+
+const JPEG_DATA_URL = /^data:image\/jpe?g;base64,/i;
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  // Chunked so large photos don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Removes EXIF, XMP and other APPn segments and comments from a JPEG data URL
+ * without re-encoding it. Anything that isn't a well-formed JPEG comes back
+ * unchanged.
+ */
+export const stripJpegMetadata = (dataUrl: string): string => {
+  const prefix = JPEG_DATA_URL.exec(dataUrl)?.[0];
+  if (!prefix) return dataUrl;
+
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(dataUrl.slice(prefix.length));
+  } catch (e) {
+    return dataUrl;
+  }
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return dataUrl;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  for (;;) {
+    if (offset + 4 > bytes.length || bytes[offset] !== 0xff) return dataUrl;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte before a marker
+      continue;
+    }
+    if (marker === 0xda) {
+      // Start of scan: the rest is image data
+      kept.push(bytes.subarray(offset));
+      break;
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) return dataUrl;
+    // APP1-APP15 hold EXIF (camera, GPS, timestamps), XMP and the like; 0xFE is a comment.
+    // APP0 (JFIF) only describes the pixel format and stays.
+    const isMetadata = (marker >= 0xe1 && marker <= 0xef) || marker === 0xfe;
+    if (!isMetadata) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  const result = new Uint8Array(kept.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of kept) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return prefix + bytesToBase64(result);
+};
+
+const loadBitmap = async (dataUrl: string): Promise<ImageBitmap> =>
+  createImageBitmap(await (await fetch(dataUrl)).blob());
+
+const createContext = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not process the photo.");
+  return [canvas, context];
+};
+
+const cropTo = (bitmap: ImageBitmap, region: CropRect): string => {
+  const [canvas, context] = createContext(region.width, region.height);
+  context.drawImage(bitmap, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+};
+
+const blurAround = (bitmap: ImageBitmap, region: CropRect): string => {
+  const [small, smallContext] = createContext(bitmap.width * BLUR_SCALE, bitmap.height * BLUR_SCALE);
+  smallContext.drawImage(bitmap, 0, 0, small.width, small.height);
+
+  const [canvas, context] = createContext(bitmap.width, bitmap.height);
+  context.imageSmoothingEnabled = true;
+  context.drawImage(small, 0, 0, canvas.width, canvas.height);
+  // The head stays sharp inside an ellipse fitted to the portrait region
+  context.save();
+  context.beginPath();
+  context.ellipse(region.x + region.width / 2, region.y + region.height / 2, region.width / 2, region.height / 2, 0, 0, Math.PI * 2);
+  context.clip();
+  context.drawImage(bitmap, 0, 0);
+  context.restore();
+  return canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+};
+
+/**
+ * The photos exactly as they will be uploaded. With a background mode, each
+ * photo is cropped or blurred around the head; photos where no face is found
+ * (e.g. the back of the head) reuse the front photo's region, since all were
+ * taken from the same spot. Metadata is always stripped.
+ */
+export const prepareForUpload = async (images: string[], mode: BackgroundMode): Promise<string[]> => {
+  if (mode === "off") return images.map(stripJpegMetadata);
+
+  const prepared: string[] = [];
+  // Relative to the photo size, so it carries over between photos
+  let frontRegion: CropRect | null = null;
+  for (const [index, image] of images.entries()) {
+    const bitmap = await loadBitmap(image);
+    try {
+      const found = await getFaceCrop(bitmap);
+      const relative = found
+        ? { x: found.x / bitmap.width, y: found.y / bitmap.height, width: found.width / bitmap.width, height: found.height / bitmap.height }
+        : frontRegion;
+      if (index === 0) frontRegion = relative;
+      if (!relative) {
+        prepared.push(stripJpegMetadata(image));
+        continue;
+      }
+      const region = {
+        x: relative.x * bitmap.width,
+        y: relative.y * bitmap.height,
+        width: relative.width * bitmap.width,
+        height: relative.height * bitmap.height,
+      };
+      prepared.push(mode === "crop" ? cropTo(bitmap, region) : blurAround(bitmap, region));
+    } finally {
+      bitmap.close();
+    }
+  }
+  return prepared;
+};
+
+/**
+ * Deletes everything the app keeps on this device: saved consultations with
+ * their photos and renders, client profiles, cached model responses, usage
+ * records and settings.
+ */
+export const deleteAllData = async (): Promise<void> => {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(STORAGE_PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (e) {
+    // Storage blocked; nothing was saved there either
+  }
+  // Without IndexedDB nothing was stored, so there is nothing to delete
+  if (typeof indexedDB === "undefined") return;
+  await Promise.all([clearSessions(), clearClients(), clearResponseCache(), clearUsage()]);
+};
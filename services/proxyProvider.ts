@@ -0,0 +1,100 @@
+import { AiProvider, AnalysisResult, ModelCall, ModelCallListener } from "../types";
+import { isAbortError } from "./abort";
+import { AnalysisValidationError } from "./analysisValidator";
+
+export interface ProxyProviderOptions {
+  baseUrl?: string;
+}
+
+// Path the Vite dev server (and production reverse proxy) forwards to server/index.ts.
+export const DEFAULT_PROXY_BASE_URL = "/api";
+
+/**
+ * Error returned by the API proxy. `status` mirrors the HTTP status so
+ * isRateLimitError picks up 429s and the caller can back off. `code` is the
+ * proxy's error code, or NETWORK when the proxy couldn't be reached.
+ */
+export class ProxyError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = "ProxyError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+interface ProxyErrorBody {
+  error?: { message?: string; code?: string; issues?: string[] };
+}
+
+const postJson = async <T>(url: string, body: unknown, signal?: AbortSignal, onModelCall?: ModelCallListener): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ProxyError("Could not reach the StyleAI server. Check your connection and try again.", 0, "NETWORK");
+  }
+
+  const payload = await response.json().catch(() => ({}));
+  // The proxy lists the model calls it made, on failures too
+  ((payload as { usage?: ModelCall[] }).usage ?? []).forEach(call => onModelCall?.(call));
+  if (!response.ok) {
+    const error = (payload as ProxyErrorBody).error;
+    // Keep the typed analysis error across the network boundary
+    if (error?.code === "ANALYSIS_INVALID" && error.issues) {
+      throw new AnalysisValidationError(error.issues);
+    }
+    throw new ProxyError(error?.message || `Request failed (${response.status}).`, response.status, error?.code);
+  }
+  return payload as T;
+};
+
+/**
+ * Browser-side provider that forwards every call to the API proxy, so the
+ * Gemini key stays on the server.
+ */
+export const createProxyProvider = (options: ProxyProviderOptions = {}): AiProvider => {
+  const baseUrl = (options.baseUrl ?? DEFAULT_PROXY_BASE_URL).replace(/\/$/, "");
+  let fingerprint: Promise<string> | null = null;
+
+  return {
+    name: "proxy",
+    // The models live behind the proxy, so ask it once per page load
+    getFingerprint: () => {
+      if (!fingerprint) {
+        fingerprint = fetch(`${baseUrl}/health`)
+          .then(response => (response.ok ? response.json() : Promise.reject(new ProxyError("Health check failed.", response.status))))
+          .then((body: { provider?: string; fingerprint?: string }) => body.fingerprint ?? `proxy:${body.provider}`);
+        // Allow a later call to try again if the server was unreachable
+        fingerprint.catch(() => { fingerprint = null; });
+      }
+      return fingerprint;
+    },
+    analyzeFace: async (base64Images, analysisOptions, signal) => {
+      const { analysis } = await postJson<{ analysis: AnalysisResult }>(`${baseUrl}/analyze`, {
+        images: base64Images,
+        constraints: analysisOptions?.constraints,
+        locale: analysisOptions?.locale,
+      }, signal, analysisOptions?.onModelCall);
+      return analysis;
+    },
+    generateHairstyleImage: async (base64Image, hairstyleName, hairstyleDescription, generation, signal) => {
+      const { imageUrl } = await postJson<{ imageUrl: string }>(`${baseUrl}/generate`, {
+        image: base64Image,
+        hairstyleName,
+        hairstyleDescription,
+        options: generation,
+      }, signal, generation?.onModelCall);
+      return imageUrl;
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { abortableDelay } from "./abort";
+
+export interface BackoffOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal; // Stops waiting between retries
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 20000;
+
+/**
+ * Detects quota / rate-limit failures across providers (HTTP 429, RESOURCE_EXHAUSTED).
+ */
+export const isRateLimitError = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") return false;
+  const { status, code, message } = error as { status?: unknown; code?: unknown; message?: unknown };
+  if (status === 429 || code === 429) return true;
+  return typeof message === "string" && /\b429\b|rate.?limit|resource_exhausted|too many requests/i.test(message);
+};
+
+/**
+ * Runs a task and, when it fails with a rate-limit error, retries it with
+ * exponential backoff and jitter. Any other error is re-thrown immediately.
+ */
+export const withRateLimitBackoff = async <T>(
+  task: () => Promise<T>,
+  options: BackoffOptions = {}
+): Promise<T> => {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (!isRateLimitError(error) || attempt >= maxRetries) {
+        throw error;
+      }
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const wait = backoff / 2 + Math.random() * (backoff / 2);
+      console.warn(`Rate limited, retrying in ${Math.round(wait)}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await abortableDelay(wait, options.signal);
+    }
+  }
+};
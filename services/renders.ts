@@ -0,0 +1,46 @@
+import { CaptureAngle, GeneratedImage, RenderVersion } from "../types";
+
+// Same order as capturedImages: [Front, Left, Right]
+export const CAPTURE_ANGLES = [CaptureAngle.FRONT, CaptureAngle.LEFT, CaptureAngle.RIGHT];
+
+// Optional back-of-head photo after the three angles; it informs the analysis but is never rendered
+export const BACK_CAPTURE_INDEX = CAPTURE_ANGLES.length;
+
+export const ANGLE_LABELS: Record<CaptureAngle, string> = {
+  [CaptureAngle.FRONT]: "Front",
+  [CaptureAngle.LEFT]: "Left",
+  [CaptureAngle.RIGHT]: "Right",
+};
+
+export const getAngle = (image: Pick<GeneratedImage, "angle">): CaptureAngle => image.angle ?? CaptureAngle.FRONT;
+
+export const getCaptureIndex = (angle: CaptureAngle): number => CAPTURE_ANGLES.indexOf(angle);
+
+/**
+ * Identifies one style/color combination, i.e. one result card.
+ */
+export const getVariantKey = (image: Pick<GeneratedImage, "hairstyleName" | "color">): string =>
+  image.color ? `${image.hairstyleName}|${image.color.id}|${image.color.technique}` : image.hairstyleName;
+
+/**
+ * Identifies a single render: a variant seen from one angle. Front renders keep
+ * the plain variant key so sessions saved before side views still match.
+ */
+export const getRenderKey = (image: Pick<GeneratedImage, "hairstyleName" | "color" | "angle">): string => {
+  const angle = getAngle(image);
+  return angle === CaptureAngle.FRONT ? getVariantKey(image) : `${getVariantKey(image)}@${angle}`;
+};
+
+/**
+ * Version history of a render. Sessions saved before refinement only have the
+ * image itself, which counts as the single initial version.
+ */
+export const getVersions = (image: Pick<GeneratedImage, "imageUrl" | "versions">): RenderVersion[] => {
+  if (image.versions?.length) return image.versions;
+  return image.imageUrl ? [{ imageUrl: image.imageUrl, createdAt: 0 }] : [];
+};
+
+export const getVersionIndex = (image: Pick<GeneratedImage, "imageUrl" | "versions" | "versionIndex">): number => {
+  const versions = getVersions(image);
+  return Math.min(image.versionIndex ?? versions.length - 1, versions.length - 1);
+};
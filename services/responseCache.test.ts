@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CacheRequest, computeCacheKey, createResponseCache } from "./responseCache";
+import { ResponseStore } from "./responseStore";
+
+// Same contract as the IndexedDB store, kept in a Map
+const createMemoryStore = () => {
+  const entries = new Map<string, { value: unknown; size: number }>();
+  const store: ResponseStore = {
+    get: async key => entries.get(key)?.value,
+    put: async (key, value, size) => {
+      entries.set(key, { value, size });
+    },
+    trim: vi.fn(async () => {}),
+    clear: async () => entries.clear(),
+  };
+  return { store, entries };
+};
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const PHOTO = "data:image/jpeg;base64,UEhPVE8=";
+const request: CacheRequest = { kind: "analysis", images: [PHOTO], params: { locale: "en", constraints: { texture: "Wavy" } } };
+const fingerprint = async () => "test-model:v1";
+
+describe("computeCacheKey", () => {
+  it("depends on the image bytes, not on how they are wrapped", async () => {
+    const key = await computeCacheKey(request, "m");
+    expect(await computeCacheKey({ ...request, images: ["UEhPVE8="] }, "m")).toBe(key);
+    expect(await computeCacheKey({ ...request, images: ["data:image/jpeg;base64,T1RIRVI="] }, "m")).not.toBe(key);
+  });
+
+  it("ignores parameter order but not parameter values", async () => {
+    const key = await computeCacheKey(request, "m");
+    expect(await computeCacheKey({ ...request, params: { constraints: { texture: "Wavy" }, locale: "en" } }, "m")).toBe(key);
+    expect(await computeCacheKey({ ...request, params: { locale: "ar", constraints: { texture: "Wavy" } } }, "m")).not.toBe(key);
+  });
+
+  it("changes with the model fingerprint and the request kind", async () => {
+    const key = await computeCacheKey(request, "m");
+    expect(await computeCacheKey(request, "other-model")).not.toBe(key);
+    expect(await computeCacheKey({ ...request, kind: "image" }, "m")).not.toBe(key);
+  });
+});
+
+describe("createResponseCache", () => {
+  let memory: ReturnType<typeof createMemoryStore>;
+
+  beforeEach(() => {
+    memory = createMemoryStore();
+  });
+
+  it("answers a repeated request from the store", async () => {
+    const cache = createResponseCache({ store: memory.store, maxBytes: 1000 });
+    const task = vi.fn().mockResolvedValue({ faceShape: "Oval" });
+
+    expect(await cache.run(request, task, { fingerprint })).toEqual({ faceShape: "Oval" });
+    await vi.waitFor(() => expect(memory.entries.size).toBe(1));
+    expect(await cache.run(request, task, { fingerprint })).toEqual({ faceShape: "Oval" });
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(memory.store.trim).toHaveBeenCalledWith(1000);
+  });
+
+  it("shares one call between identical requests in flight", async () => {
+    const cache = createResponseCache({ store: memory.store, maxBytes: 1000 });
+    const reply = deferred<string>();
+    const task = vi.fn(() => reply.promise);
+
+    const first = cache.run(request, task, { fingerprint });
+    const second = cache.run(request, task, { fingerprint });
+    reply.resolve("render");
+
+    expect(await Promise.all([first, second])).toEqual(["render", "render"]);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks the model again when bypassed and keeps the fresh answer", async () => {
+    const cache = createResponseCache({ store: memory.store, maxBytes: 1000 });
+    const task = vi.fn().mockResolvedValueOnce("first").mockResolvedValueOnce("second");
+
+    await cache.run(request, task, { fingerprint });
+    await vi.waitFor(() => expect(memory.entries.size).toBe(1));
+    expect(await cache.run(request, task, { fingerprint, bypass: true })).toBe("second");
+    await vi.waitFor(() => expect([...memory.entries.values()][0].value).toBe("second"));
+
+    expect(await cache.run(request, task, { fingerprint })).toBe("second");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not store failures or responses over the budget", async () => {
+    const cache = createResponseCache({ store: memory.store, maxBytes: 10 });
+
+    await expect(cache.run(request, () => Promise.reject(new Error("No image generated in response.")), { fingerprint }))
+      .rejects.toThrow("No image generated in response.");
+    await cache.run(request, async () => "x".repeat(50), { fingerprint });
+
+    expect(memory.entries.size).toBe(0);
+  });
+
+  it("keeps a shared call running until every caller has cancelled", async () => {
+    const cache = createResponseCache({ maxBytes: 0 });
+    const reply = deferred<string>();
+    let taskSignal: AbortSignal | undefined;
+    const task = vi.fn((signal?: AbortSignal) => {
+      taskSignal = signal;
+      return reply.promise;
+    });
+    const firstCaller = new AbortController();
+    const secondCaller = new AbortController();
+
+    const first = cache.run(request, task, { fingerprint, signal: firstCaller.signal });
+    const second = cache.run(request, task, { fingerprint, signal: secondCaller.signal });
+    await vi.waitFor(() => expect(task).toHaveBeenCalled());
+
+    firstCaller.abort();
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    expect(taskSignal?.aborted).toBe(false);
+
+    secondCaller.abort();
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    expect(taskSignal?.aborted).toBe(true);
+  });
+
+  it("runs a request repeated right after a cancel instead of joining the cancelled call", async () => {
+    const cache = createResponseCache({ maxBytes: 0 });
+    const stuck = deferred<string>();
+    const task = vi.fn()
+      .mockImplementationOnce(() => stuck.promise) // Ignores its signal, so it never settles
+      .mockResolvedValueOnce("render");
+    const caller = new AbortController();
+
+    const cancelled = cache.run(request, task, { fingerprint, signal: caller.signal });
+    await vi.waitFor(() => expect(task).toHaveBeenCalled());
+    caller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: "AbortError" });
+
+    expect(await cache.run(request, task, { fingerprint })).toBe("render");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("calls the model directly when the fingerprint is unavailable", async () => {
+    const cache = createResponseCache({ store: memory.store, maxBytes: 1000 });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const task = vi.fn().mockResolvedValue("render");
+    const offline = () => Promise.reject(new Error("Health check failed."));
+
+    expect(await cache.run(request, task, { fingerprint: offline })).toBe("render");
+    expect(await cache.run(request, task, { fingerprint: offline })).toBe("render");
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(memory.entries.size).toBe(0);
+  });
+});
@@ -0,0 +1,177 @@
+import { createAbortError, throwIfAborted } from "./abort";
+import { ResponseStore } from "./responseStore";
+
+/**
+ * Content-addressed cache for model calls. A request's key is a SHA-256 over
+ * the bytes of its images, its parameters and the provider's model/prompt
+ * fingerprint, so a repeated request is answered from the device and identical
+ * requests that are already running share a single call.
+ */
+
+// Bump when the key layout changes so entries written under the old one never match
+const KEY_FORMAT = 1;
+
+export interface CacheRequest {
+  kind: "analysis" | "image";
+  images: (string | undefined)[]; // Hashed by content, in order; undefined marks an unused slot
+  params: unknown; // Everything else that shapes the prompt; must be JSON-serializable
+}
+
+export interface CacheCallOptions {
+  fingerprint: () => Promise<string>; // Model and prompt versions behind the call
+  bypass?: boolean; // Ask the model again; the fresh answer replaces the stored one
+  signal?: AbortSignal;
+}
+
+export interface ResponseCacheOptions {
+  store?: ResponseStore; // Without one, only identical calls in flight are shared
+  maxBytes: number; // Storage budget; 0 turns storing off
+}
+
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiting: number; // Callers still interested; the call is cancelled once none are
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, "0")).join("");
+
+const sha256 = async (data: Uint8Array | string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", typeof data === "string" ? new TextEncoder().encode(data) : data));
+
+// crypto.subtle is only exposed in secure contexts; without it nothing is cached
+const canHash = (): boolean => typeof crypto !== "undefined" && !!crypto.subtle;
+
+// The bytes behind an image string: base64 data URLs and bare base64 are decoded,
+// anything else (e.g. the mock provider's SVG data URLs) is hashed as text.
+const decodeImage = (image: string): Uint8Array | string => {
+  const isBase64Url = /^data:[^,]*;base64,/i.test(image);
+  if (!isBase64Url && image.startsWith("data:")) return image;
+  try {
+    const binary = atob(isBase64Url ? image.slice(image.indexOf(",") + 1) : image);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch (e) {
+    return image;
+  }
+};
+
+// JSON with sorted object keys, so parameter order never changes the key
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+
+export const computeCacheKey = async (request: CacheRequest, fingerprint: string): Promise<string> => {
+  const images = await Promise.all(request.images.map(image => (image ? sha256(decodeImage(image)) : null)));
+  return sha256(stableStringify([KEY_FORMAT, fingerprint, request.kind, images, request.params]));
+};
+
+// Stored responses are JSON-like (analysis objects, image data URLs)
+const estimateSize = (value: unknown): number => JSON.stringify(value)?.length ?? 0;
+
+export const createResponseCache = ({ store, maxBytes }: ResponseCacheOptions) => {
+  const inFlight = new Map<string, Flight<unknown>>();
+  const storing = !!store && maxBytes > 0;
+
+  const lookup = async (key: string): Promise<unknown | undefined> => {
+    if (!storing) return undefined;
+    try {
+      return await store!.get(key);
+    } catch (e) {
+      // e.g. no IndexedDB in this browser; behave as a miss
+      return undefined;
+    }
+  };
+
+  const save = async (key: string, value: unknown) => {
+    if (!storing) return;
+    const size = estimateSize(value);
+    if (size > maxBytes) return;
+    await store!.put(key, value, size);
+    await store!.trim(maxBytes);
+  };
+
+  const join = <T>(flight: Flight<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      flight.waiting++;
+      const onAbort = () => {
+        reject(createAbortError());
+        if (--flight.waiting === 0) flight.controller.abort();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      flight.promise
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener("abort", onAbort));
+    });
+
+  /**
+   * Answers `request` from the cache, from an identical call already running, or
+   * by running `task`. Only successful responses are stored. When no key can be
+   * computed (no Web Crypto, fingerprint unavailable) the task simply runs.
+   */
+  const run = async <T>(
+    request: CacheRequest,
+    task: (signal?: AbortSignal) => Promise<T>,
+    options: CacheCallOptions
+  ): Promise<T> => {
+    const { bypass, signal } = options;
+    throwIfAborted(signal);
+
+    let key: string | null = null;
+    if (canHash()) {
+      try {
+        key = await computeCacheKey(request, await options.fingerprint());
+      } catch (e) {
+        console.warn("Could not compute a cache key; calling the model directly:", e);
+      }
+    }
+    if (!key) return task(signal);
+    const cacheKey = key;
+
+    // A flight every caller cancelled stays registered until its task settles; start afresh instead
+    const running = inFlight.get(cacheKey) as Flight<T> | undefined;
+    if (running && !bypass && !running.controller.signal.aborted) return join(running, signal);
+
+    // Registered before the first await so identical calls made meanwhile join it
+    const controller = new AbortController();
+    const flight: Flight<T> = {
+      controller,
+      waiting: 0,
+      promise: (async () => {
+        if (!bypass) {
+          const hit = await lookup(cacheKey);
+          if (hit !== undefined) return hit as T;
+        }
+        throwIfAborted(controller.signal);
+        const value = await task(controller.signal);
+        save(cacheKey, value).catch(e => console.warn("Could not store the response:", e));
+        return value;
+      })(),
+    };
+    inFlight.set(cacheKey, flight);
+    flight.promise
+      .finally(() => {
+        if (inFlight.get(cacheKey) === flight) inFlight.delete(cacheKey);
+      })
+      .catch(() => {}); // Callers see the error through join
+
+    return join(flight, signal);
+  };
+
+  const clear = async () => {
+    await store?.clear();
+  };
+
+  return { run, clear };
+};
+
+export type ResponseCache = ReturnType<typeof createResponseCache>;
@@ -0,0 +1,63 @@
+import { STORES, openDatabase, withStore } from "./db";
+
+/**
+ * Persistence behind the response cache (services/responseCache.ts). The
+ * IndexedDB store below is what the app uses; the interface keeps the cache
+ * logic independent of it.
+ */
+export interface ResponseStore {
+  get: (key: string) => Promise<unknown | undefined>; // Also marks the entry as recently used
+  put: (key: string, value: unknown, size: number) => Promise<void>;
+  trim: (maxBytes: number) => Promise<void>; // Evicts least recently used entries above the budget
+  clear: () => Promise<void>;
+}
+
+interface CachedResponse {
+  key: string;
+  value: unknown;
+  size: number; // Approximate bytes, see estimateSize in responseCache.ts
+  createdAt: number; // Epoch millis
+  usedAt: number; // Epoch millis of the last hit
+}
+
+export const createIndexedDbResponseStore = (): ResponseStore => ({
+  get: async key => {
+    const record = await withStore<CachedResponse | undefined>(STORES.RESPONSES, "readonly", store => store.get(key));
+    if (!record) return undefined;
+    // Recency only steers eviction, so a failed update is not worth failing the hit for
+    withStore(STORES.RESPONSES, "readwrite", store => store.put({ ...record, usedAt: Date.now() })).catch(() => {});
+    return record.value;
+  },
+
+  put: async (key, value, size) => {
+    const now = Date.now();
+    const record: CachedResponse = { key, value, size, createdAt: now, usedAt: now };
+    await withStore(STORES.RESPONSES, "readwrite", store => store.put(record));
+  },
+
+  trim: async maxBytes => {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.RESPONSES, "readwrite");
+      const store = tx.objectStore(STORES.RESPONSES);
+      let total = 0;
+      // Newest first: keep entries while they fit, delete everything older
+      const request = store.index("usage").openKeyCursor(null, "prev");
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const [, size] = cursor.key as [number, number];
+        total += size;
+        if (total > maxBytes) store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  },
+
+  clear: async () => {
+    await withStore(STORES.RESPONSES, "readwrite", store => store.clear());
+  },
+});
@@ -0,0 +1,69 @@
+import { HairLength, HairTexture, MaintenanceLevel, StyleConstraints } from "../types";
+
+export const LENGTH_ORDER = [HairLength.SHORT, HairLength.MEDIUM, HairLength.LONG];
+export const MAINTENANCE_ORDER = [MaintenanceLevel.LOW, MaintenanceLevel.MEDIUM, MaintenanceLevel.HIGH];
+
+export const hasConstraints = (constraints?: StyleConstraints): boolean =>
+  !!constraints && Object.values(constraints).some(value => value !== undefined && value !== false);
+
+const isOptionalOneOf = <T extends string>(values: T[], value: unknown): value is T | undefined =>
+  value === undefined || values.includes(value as T);
+
+/**
+ * Reads constraints from untrusted JSON, such as a proxy request or an imported
+ * archive. Returns null when any field isn't one of its allowed values.
+ */
+export const parseConstraints = (value: unknown): StyleConstraints | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const { minLength, maxLength, texture, maxMaintenance, workplaceAppropriate } = value as Record<string, unknown>;
+  if (
+    !isOptionalOneOf(Object.values(HairLength), minLength)
+    || !isOptionalOneOf(Object.values(HairLength), maxLength)
+    || !isOptionalOneOf(Object.values(HairTexture), texture)
+    || !isOptionalOneOf(Object.values(MaintenanceLevel), maxMaintenance)
+    || (workplaceAppropriate !== undefined && typeof workplaceAppropriate !== "boolean")
+  ) {
+    return null;
+  }
+  return { minLength, maxLength, texture, maxMaintenance, workplaceAppropriate: workplaceAppropriate as boolean | undefined };
+};
+
+const describeLength = ({ minLength, maxLength }: StyleConstraints): string | null => {
+  if (!minLength && !maxLength) return null;
+
+  const from = LENGTH_ORDER.indexOf(minLength ?? HairLength.SHORT);
+  const to = LENGTH_ORDER.indexOf(maxLength ?? HairLength.LONG);
+  const allowed = LENGTH_ORDER.slice(Math.min(from, to), Math.max(from, to) + 1).map(l => l.toLowerCase());
+  return `Hair length must be ${allowed.join(" or ")}.`;
+};
+
+/**
+ * Turns the client's constraints into prompt lines. Returns an empty string when
+ * nothing is set so prompts stay unchanged for unconstrained consultations.
+ */
+export const describeConstraints = (constraints?: StyleConstraints): string => {
+  if (!constraints || !hasConstraints(constraints)) return "";
+
+  const lines: string[] = [];
+  const length = describeLength(constraints);
+  if (length) lines.push(length);
+
+  if (constraints.texture) {
+    lines.push(
+      `The client's natural hair texture is ${constraints.texture.toLowerCase()}; styles must work with that texture without chemical straightening or perming.`
+    );
+  }
+
+  if (constraints.maxMaintenance) {
+    const allowed = MAINTENANCE_ORDER
+      .slice(0, MAINTENANCE_ORDER.indexOf(constraints.maxMaintenance) + 1)
+      .map(m => m.toLowerCase());
+    lines.push(`Daily styling and upkeep must be ${allowed.join(" or ")} maintenance.`);
+  }
+
+  if (constraints.workplaceAppropriate) {
+    lines.push("Every style must be appropriate for a conservative workplace.");
+  }
+
+  return `\nClient constraints (these must be respected):\n- ${lines.join("\n- ")}`;
+};
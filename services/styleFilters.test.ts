@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { HairLength, HairstyleSuggestion, HairTexture, MaintenanceLevel } from "../types";
+import { DEFAULT_STYLE_FILTERS, applyStyleFilters } from "./styleFilters";
+
+const style = (name: string, length: HairLength, maintenance: MaintenanceLevel, stylingMinutes: number, hairTypes: HairTexture[]): HairstyleSuggestion => ({
+  name,
+  description: `${name} description`,
+  reasoning: `${name} reasoning`,
+  tags: { length, maintenance, stylingMinutes, hairTypes, products: [] },
+});
+
+const suggestions: HairstyleSuggestion[] = [
+  style("Long Layers", HairLength.LONG, MaintenanceLevel.LOW, 10, [HairTexture.STRAIGHT, HairTexture.WAVY]),
+  style("Pixie Cut", HairLength.SHORT, MaintenanceLevel.HIGH, 5, [HairTexture.STRAIGHT]),
+  style("Curly Shag", HairLength.MEDIUM, MaintenanceLevel.MEDIUM, 15, [HairTexture.CURLY, HairTexture.COILY]),
+  { name: "My Style", description: "Mine", reasoning: "Your own request.", custom: true },
+];
+
+describe("applyStyleFilters", () => {
+  it("keeps the model's order by default", () => {
+    expect(applyStyleFilters(suggestions, DEFAULT_STYLE_FILTERS)).toEqual([0, 1, 2, 3]);
+  });
+
+  it("filters on length, maintenance and hair type but always keeps untagged styles", () => {
+    expect(applyStyleFilters(suggestions, { sort: "suggested", length: HairLength.SHORT })).toEqual([1, 3]);
+    expect(applyStyleFilters(suggestions, { sort: "suggested", maxMaintenance: MaintenanceLevel.MEDIUM })).toEqual([0, 2, 3]);
+    expect(applyStyleFilters(suggestions, { sort: "suggested", hairType: HairTexture.CURLY })).toEqual([2, 3]);
+  });
+
+  it("sorts on the tags with untagged styles last", () => {
+    expect(applyStyleFilters(suggestions, { sort: "length" })).toEqual([1, 2, 0, 3]);
+    expect(applyStyleFilters(suggestions, { sort: "maintenance" })).toEqual([0, 2, 1, 3]);
+    expect(applyStyleFilters(suggestions, { sort: "stylingTime" })).toEqual([1, 0, 2, 3]);
+  });
+});
@@ -0,0 +1,53 @@
+import { HairLength, HairstyleSuggestion, HairTexture, MaintenanceLevel } from "../types";
+import { LENGTH_ORDER, MAINTENANCE_ORDER } from "./styleConstraints";
+
+/**
+ * Filtering and sorting for the selection screen, built on each suggestion's
+ * structured tags. Untagged styles (custom ones, or from older consultations)
+ * pass every filter and sort after the tagged ones, so they never vanish.
+ */
+
+export type StyleSort = "suggested" | "length" | "maintenance" | "stylingTime";
+
+export const STYLE_SORTS: StyleSort[] = ["suggested", "length", "maintenance", "stylingTime"];
+
+export interface StyleFilters {
+  length?: HairLength;
+  maxMaintenance?: MaintenanceLevel;
+  hairType?: HairTexture; // Only styles that work with this texture
+  sort: StyleSort;
+}
+
+export const DEFAULT_STYLE_FILTERS: StyleFilters = { sort: "suggested" };
+
+export const hasStyleFilters = ({ length, maxMaintenance, hairType }: StyleFilters): boolean =>
+  !!(length || maxMaintenance || hairType);
+
+const matchesFilters = ({ tags }: HairstyleSuggestion, filters: StyleFilters): boolean => {
+  if (!tags) return true;
+  if (filters.length && tags.length !== filters.length) return false;
+  if (filters.maxMaintenance && MAINTENANCE_ORDER.indexOf(tags.maintenance) > MAINTENANCE_ORDER.indexOf(filters.maxMaintenance)) {
+    return false;
+  }
+  return !filters.hairType || tags.hairTypes.includes(filters.hairType);
+};
+
+const sortKey = ({ tags }: HairstyleSuggestion, sort: StyleSort): number => {
+  if (sort === "suggested") return 0;
+  if (!tags) return Infinity;
+  if (sort === "length") return LENGTH_ORDER.indexOf(tags.length);
+  if (sort === "maintenance") return MAINTENANCE_ORDER.indexOf(tags.maintenance);
+  return tags.stylingMinutes;
+};
+
+/**
+ * Indices into `suggestions` of the styles to show, in display order. Indices
+ * rather than copies, since selections are kept by index. Ties keep the
+ * model's order.
+ */
+export const applyStyleFilters = (suggestions: HairstyleSuggestion[], filters: StyleFilters): number[] =>
+  suggestions
+    .map((suggestion, index) => ({ index, key: sortKey(suggestion, filters.sort), visible: matchesFilters(suggestion, filters) }))
+    .filter(entry => entry.visible)
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .map(entry => entry.index);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { CaptureAngle, FaceShape, GenerationStatus } from "../types";
+import { buildStylistBrief } from "./stylistBrief";
+
+const CAPTURE = "data:image/jpeg;base64,Q0FQVFVSRQ==";
+const RENDER = "data:image/png;base64,UkVOREVS";
+
+const suggestion = { name: "Pixie Cut", description: "Short and textured", reasoning: "Opens up the face" };
+
+describe("buildStylistBrief", () => {
+  it("embeds the capture and renders", () => {
+    const html = buildStylistBrief({
+      capture: CAPTURE,
+      faceShape: FaceShape.OVAL,
+      suggestion,
+      render: { hairstyleName: "Pixie Cut", status: GenerationStatus.DONE, imageUrl: RENDER },
+      sideViews: [{ hairstyleName: "Pixie Cut", angle: CaptureAngle.LEFT, status: GenerationStatus.DONE, imageUrl: RENDER }],
+      locale: "en",
+    });
+    expect(html).toContain(`src="${CAPTURE}"`);
+    expect(html.match(new RegExp(`src="${RENDER}"`, "g"))).toHaveLength(2);
+  });
+
+  it("leaves out image URLs that aren't base64 images instead of breaking out of the attribute", () => {
+    const injected = `data:image/png;base64,AA"><script>alert(1)</script>`;
+    const html = buildStylistBrief({
+      capture: "javascript:alert(1)",
+      faceShape: FaceShape.OVAL,
+      suggestion: { ...suggestion, name: `"><img src=x onerror=alert(1)>` },
+      render: { hairstyleName: "Pixie Cut", status: GenerationStatus.DONE, imageUrl: injected },
+      sideViews: [{ hairstyleName: "Pixie Cut", angle: CaptureAngle.LEFT, status: GenerationStatus.DONE, imageUrl: `x" onerror="alert(1)` }],
+      locale: "en",
+    });
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("javascript:");
+    // The hostile name only appears escaped, as text
+    expect(html).not.toMatch(/<img[^>]*onerror/);
+  });
+});
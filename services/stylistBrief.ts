@@ -0,0 +1,205 @@
+import { AppliedColor, FaceShape, GeneratedImage, HairLength, HairstyleSuggestion, StyleConstraints } from "../types";
+import { isAbortError } from "./abort";
+import { isBase64Image } from "./dataUrl";
+import { formatColorLabel, getHairColor } from "./hairColors";
+import { DEFAULT_LOCALE, Locale, Translate, createTranslator, formatAppliedColor, formatFaceShape, getTextDirection } from "./i18n";
+import { getAngle, getVersionIndex, getVersions } from "./renders";
+
+/**
+ * "Take this to your stylist" brief: a self-contained, printable HTML page built
+ * entirely on-device from the consultation. Images are embedded as data URLs, so
+ * the page (or the PDF saved from it) works without a connection or an account.
+ */
+
+export interface StylistBriefInput {
+  capture: string; // Front capture
+  faceShape: FaceShape;
+  suggestion: HairstyleSuggestion;
+  render: GeneratedImage; // Front render of the chosen variant, at its selected version
+  sideViews?: GeneratedImage[]; // Finished left/right renders of the same variant
+  constraints?: StyleConstraints;
+  createdAt?: number; // Epoch millis; defaults to now
+  locale?: Locale; // Language of the page; the AI-written text is already in it
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+const describeColorNotes = (t: Translate, color: AppliedColor): string => {
+  const swatch = getHairColor(color.id)?.swatch;
+  return `
+    <section>
+      <h2>${t("brief.color")}</h2>
+      <p class="color">
+        ${swatch ? `<span class="swatch" style="background:${escapeHtml(swatch)}"></span>` : ""}
+        <strong>${escapeHtml(formatAppliedColor(t, color))}</strong>
+      </p>
+      <p>${escapeHtml(t(`brief.techniqueNote.${color.technique}`))}</p>
+    </section>`;
+};
+
+const describePreferences = (t: Translate, constraints?: StyleConstraints): string => {
+  if (!constraints) return "";
+  const items: string[] = [];
+  if (constraints.minLength || constraints.maxLength) {
+    const range = [constraints.minLength, constraints.maxLength]
+      .filter((l): l is HairLength => !!l)
+      .map(l => t(`length.${l}`))
+      .join(" – ");
+    items.push(t("brief.prefLength", { range }));
+  }
+  if (constraints.texture) items.push(t("brief.prefTexture", { texture: t(`texture.${constraints.texture}`) }));
+  if (constraints.maxMaintenance) items.push(t("brief.prefMaintenance", { level: t(`maintenance.${constraints.maxMaintenance}`) }));
+  if (constraints.workplaceAppropriate) items.push(t("brief.prefWorkplace"));
+  if (items.length === 0) return "";
+  return `
+    <section>
+      <h2>${t("brief.preferences")}</h2>
+      <ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join("")}</ul>
+    </section>`;
+};
+
+// Refinements the client asked for on the way to the chosen version
+const describeAdjustments = (t: Translate, render: GeneratedImage): string => {
+  const instructions = getVersions(render)
+    .slice(0, getVersionIndex(render) + 1)
+    .map(v => v.instruction)
+    .filter((i): i is string => !!i);
+  if (instructions.length === 0) return "";
+  return `
+    <section>
+      <h2>${t("brief.adjustments")}</h2>
+      <ul>${instructions.map(i => `<li>${escapeHtml(i)}</li>`).join("")}</ul>
+    </section>`;
+};
+
+// Images come from storage that an imported archive can fill, so anything but a
+// base64 image is left out, and what is kept is escaped like every other value.
+const figure = (src: string | undefined, alt: string, caption: string): string =>
+  isBase64Image(src) ? `<figure><img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" /><figcaption>${escapeHtml(caption)}</figcaption></figure>` : "";
+
+export const buildStylistBrief = (input: StylistBriefInput): string => {
+  const { capture, faceShape, suggestion, render } = input;
+  const locale = input.locale ?? DEFAULT_LOCALE;
+  const t = createTranslator(locale);
+  const date = new Date(input.createdAt ?? Date.now()).toLocaleDateString(locale, { dateStyle: "long" });
+  const title = `${suggestion.name}${render.color ? ` · ${formatAppliedColor(t, render.color)}` : ""}`;
+  const sideViews = (input.sideViews ?? []).filter(v => isBase64Image(v.imageUrl));
+
+  return `<!DOCTYPE html>
+<html lang="${locale}" dir="${getTextDirection(locale)}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(t("brief.documentTitle", { style: title }))}</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0 auto; max-width: 760px; padding: 24px; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #18181b; line-height: 1.5; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #18181b; padding-bottom: 8px; margin-bottom: 20px; }
+  header h1 { font-size: 26px; margin: 0; }
+  header span { color: #71717a; font-size: 13px; }
+  .images { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; margin-bottom: 16px; }
+  figure { margin: 0; }
+  figure img { width: 100%; aspect-ratio: 4 / 5; object-fit: cover; border-radius: 8px; display: block; background: #f4f4f5; }
+  figcaption { font-size: 12px; color: #71717a; margin-top: 4px; text-align: center; text-transform: uppercase; letter-spacing: 0.08em; }
+  .sides { grid-template-columns: repeat(${Math.max(2, sideViews.length)}, 1fr); }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.12em; color: #71717a; margin: 18px 0 4px; }
+  p { margin: 0 0 6px; }
+  ul { margin: 0; padding-inline-start: 18px; }
+  .facts { display: flex; gap: 24px; }
+  .color { display: flex; align-items: center; gap: 8px; }
+  .swatch { width: 16px; height: 16px; border-radius: 50%; border: 1px solid #d4d4d8; display: inline-block; }
+  footer { margin-top: 24px; padding-top: 8px; border-top: 1px solid #e4e4e7; font-size: 11px; color: #a1a1aa; }
+  section, .images { break-inside: avoid; }
+</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    <span>${t("brief.title")} · ${escapeHtml(date)}</span>
+  </header>
+  <div class="images">
+    ${figure(capture, "", t("brief.today"))}
+    ${figure(render.imageUrl, suggestion.name, t("brief.goal"))}
+  </div>
+  ${sideViews.length > 0 ? `<div class="images sides">${sideViews.map(v => `
+    ${figure(v.imageUrl, "", t("brief.view", { angle: t(`angle.${getAngle(v)}`) }))}`).join("")}
+  </div>` : ""}
+  <div class="facts">
+    <section><h2>${t("brief.faceShape")}</h2><p><strong>${escapeHtml(formatFaceShape(t, faceShape))}</strong></p></section>
+    <section><h2>${t("brief.style")}</h2><p><strong>${escapeHtml(suggestion.name)}</strong></p></section>
+  </div>
+  <section>
+    <h2>${t("brief.askFor")}</h2>
+    <p>${escapeHtml(suggestion.description)}</p>
+  </section>
+  <section>
+    <h2>${t("brief.whyItSuits")}</h2>
+    <p>${escapeHtml(suggestion.reasoning)}</p>
+  </section>
+  ${render.color ? describeColorNotes(t, render.color) : ""}
+  ${describeAdjustments(t, render)}
+  ${describePreferences(t, input.constraints)}
+  <footer>${escapeHtml(t("brief.disclaimer"))}</footer>
+</body>
+</html>`;
+};
+
+export const getBriefFileName = (input: Pick<StylistBriefInput, "suggestion" | "render">): string => {
+  const parts = [input.suggestion.name, input.render.color ? formatColorLabel(input.render.color) : null];
+  const slug = parts.filter(Boolean).join("-").replace(/[^\w-]+/g, "-").replace(/-+/g, "-").toLowerCase();
+  return `styleai-brief-${slug}.html`;
+};
+
+/**
+ * Opens the browser print dialog for the brief ("Save as PDF" covers the PDF case)
+ * without navigating away from the app.
+ */
+export const printStylistBrief = (html: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("aria-hidden", "true");
+    frame.style.cssText = "position:fixed;right:0;bottom:0;width:0;height:0;border:0;";
+    frame.onload = () => {
+      const target = frame.contentWindow;
+      if (!target) {
+        frame.remove();
+        reject(new Error("Could not prepare the brief for printing."));
+        return;
+      }
+      // afterprint fires once the dialog closes (printed, saved or cancelled)
+      target.addEventListener("afterprint", () => setTimeout(() => frame.remove(), 0), { once: true });
+      target.focus();
+      target.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+/**
+ * Shares the brief as an HTML file through the system share sheet where the
+ * browser supports sharing files, and downloads it otherwise.
+ */
+export const shareStylistBrief = async (html: string, fileName: string, title: string): Promise<void> => {
+  const file = new File([html], fileName, { type: "text/html" });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch (error) {
+      if (isAbortError(error)) return; // User closed the share sheet
+      console.warn("Sharing failed, downloading instead:", error);
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,67 @@
+import { createAbortError } from "./abort";
+
+interface QueuedTask {
+  start: () => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs at most `concurrency` tasks at a time, first in first out. A task whose
+ * signal aborts while it is still waiting is dropped and rejects with an AbortError.
+ */
+export const createTaskQueue = (concurrency: number) => {
+  const waiting: QueuedTask[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < concurrency && waiting.length > 0) {
+      running++;
+      waiting.shift()!.start();
+    }
+  };
+
+  const run = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        const index = waiting.indexOf(entry);
+        if (index === -1) return; // Already started; the task handles its own signal
+        waiting.splice(index, 1);
+        reject(createAbortError());
+      };
+
+      const entry: QueuedTask = {
+        signal,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              running--;
+              next();
+            });
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      waiting.push(entry);
+      next();
+    });
+
+  return {
+    run,
+    get pending() {
+      return waiting.length;
+    },
+    get active() {
+      return running;
+    },
+  };
+};
+
+export type TaskQueue = ReturnType<typeof createTaskQueue>;
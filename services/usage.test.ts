@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { BudgetExceededError, UsageRecord, assertWithinBudget, estimateCost, groupUsage, summarizeUsage } from "./usage";
+
+const NOW = new Date(2026, 4, 12, 15, 0).getTime();
+const YESTERDAY = new Date(2026, 4, 11, 23, 30).getTime();
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  id: Math.random().toString(36),
+  kind: "image",
+  startedAt: NOW,
+  status: "success",
+  retries: 0,
+  calls: [{ model: "gemini-2.5-flash-image", latencyMs: 4000, ok: true, inputTokens: 1000, outputTokens: 1300 }],
+  ...overrides,
+});
+
+describe("estimateCost", () => {
+  it("prices input and output tokens per model", () => {
+    expect(estimateCost({ model: "gemini-2.5-flash", latencyMs: 0, ok: true, inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBeCloseTo(2.8);
+    expect(estimateCost({ model: "gemini-2.5-flash-image", latencyMs: 0, ok: true, inputTokens: 1000, outputTokens: 1300 })).toBeCloseTo(0.0393);
+  });
+
+  it("counts unknown models and missing token counts as free", () => {
+    expect(estimateCost({ model: "mock", latencyMs: 800, ok: true, inputTokens: 1000 })).toBe(0);
+    expect(estimateCost({ model: "gemini-2.5-flash", latencyMs: 800, ok: false })).toBe(0);
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("adds up requests, failures, retries, tokens and latency", () => {
+    const totals = summarizeUsage([
+      record({ retries: 2 }),
+      record({ kind: "analysis", calls: [{ model: "gemini-2.5-flash", latencyMs: 2000, ok: true, inputTokens: 500, outputTokens: 100 }] }),
+      record({ status: "failure", calls: [{ model: "gemini-2.5-flash-image", latencyMs: 1000, ok: false }] }),
+    ]);
+
+    expect(totals).toMatchObject({ requests: 3, failures: 1, retries: 2, images: 1, calls: 3, inputTokens: 1500, outputTokens: 1400, latencyMs: 7000 });
+    expect(totals.cost).toBeCloseTo(0.0393 + 0.0004);
+  });
+});
+
+describe("groupUsage", () => {
+  it("groups by key in first-seen order and skips records without one", () => {
+    const groups = groupUsage(
+      [record({ sessionId: "b" }), record({ sessionId: "a" }), record({ sessionId: "b" }), record({})],
+      r => r.sessionId
+    );
+
+    expect(groups.map(g => [g.key, g.totals.requests])).toEqual([["b", 2], ["a", 1]]);
+  });
+});
+
+describe("assertWithinBudget", () => {
+  const records = [record({ startedAt: YESTERDAY }), record({}), record({})];
+
+  it("only counts today's spend", () => {
+    expect(() => assertWithinBudget(records, 0.08, NOW)).not.toThrow();
+    expect(() => assertWithinBudget(records, 0.07, NOW)).toThrow(BudgetExceededError);
+  });
+
+  it("never blocks without a budget", () => {
+    expect(() => assertWithinBudget(records, 0, NOW)).not.toThrow();
+  });
+});
@@ -0,0 +1,130 @@
+import { ModelCall } from "../types";
+
+/**
+ * Usage accounting for model requests. Every analysis or render that reaches
+ * the provider is recorded with the model calls behind it (see
+ * services/usageStore.ts); the helpers below turn those records into totals,
+ * estimated costs and the daily budget check.
+ */
+
+export type UsageKind = "analysis" | "image";
+
+export interface UsageRecord {
+  id: string;
+  sessionId?: string; // Consultation the request belongs to, when there is one
+  kind: UsageKind;
+  startedAt: number; // Epoch millis
+  status: "success" | "failure";
+  // Extra model calls beyond the first: rate-limit backoff, plus corrective retries after malformed analysis JSON
+  retries: number;
+  calls: ModelCall[];
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  retries: number;
+  images: number; // Renders that came back
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number; // Summed over calls; divide by `calls` for the average
+  cost: number; // Estimated, in USD
+}
+
+export interface UsageGroup {
+  key: string;
+  totals: UsageTotals;
+}
+
+// USD per million tokens, from the public Gemini API price list. Models not
+// listed (e.g. the mock provider) are counted as free.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-image": { input: 0.3, output: 30 },
+  "gemini-2.5-flash-image-preview": { input: 0.3, output: 30 },
+};
+
+export const estimateCost = (call: ModelCall): number => {
+  const price = MODEL_PRICES[call.model];
+  if (!price) return 0;
+  return ((call.inputTokens ?? 0) * price.input + (call.outputTokens ?? 0) * price.output) / 1_000_000;
+};
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  failures: 0,
+  retries: 0,
+  images: 0,
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  latencyMs: 0,
+  cost: 0,
+});
+
+const addRecord = (totals: UsageTotals, record: UsageRecord) => {
+  totals.requests++;
+  if (record.status === "failure") totals.failures++;
+  else if (record.kind === "image") totals.images++;
+  totals.retries += record.retries;
+  for (const call of record.calls) {
+    totals.calls++;
+    totals.inputTokens += call.inputTokens ?? 0;
+    totals.outputTokens += call.outputTokens ?? 0;
+    totals.latencyMs += call.latencyMs;
+    totals.cost += estimateCost(call);
+  }
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageTotals => {
+  const totals = emptyTotals();
+  records.forEach(record => addRecord(totals, record));
+  return totals;
+};
+
+/**
+ * Totals per key, in the order keys first appear in `records`. Records without
+ * a key (e.g. no session) are left out.
+ */
+export const groupUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string | undefined): UsageGroup[] => {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (key === undefined) continue;
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addRecord(groups.get(key)!, record);
+  }
+  return [...groups].map(([key, totals]) => ({ key, totals }));
+};
+
+// Local calendar day as YYYY-MM-DD, so "today" matches the user's clock
+export const getDayKey = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getStartOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export class BudgetExceededError extends Error {
+  constructor(public spent: number, public budget: number) {
+    super(`Daily budget of $${budget.toFixed(2)} reached ($${spent.toFixed(2)} spent today).`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Throws when today's estimated spend in `records` has reached `budget` (USD).
+ * A budget of 0 or less means no limit.
+ */
+export const assertWithinBudget = (records: UsageRecord[], budget: number, now = Date.now()) => {
+  if (budget <= 0) return;
+  const today = getDayKey(now);
+  const spent = summarizeUsage(records.filter(record => getDayKey(record.startedAt) === today)).cost;
+  if (spent >= budget) throw new BudgetExceededError(spent, budget);
+};
@@ -0,0 +1,39 @@
+import { STORES, openDatabase, withStore } from "./db";
+import { UsageRecord } from "./usage";
+
+// Records older than this are dropped whenever a new one is written
+const RETENTION_DAYS = 90;
+
+const pruneUsage = async (before: number): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORES.USAGE, "readwrite");
+    const request = tx.objectStore(STORES.USAGE).index("startedAt").openKeyCursor(IDBKeyRange.upperBound(before, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      tx.objectStore(STORES.USAGE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const recordUsage = async (record: UsageRecord): Promise<void> => {
+  await withStore(STORES.USAGE, "readwrite", store => store.put(record));
+  await pruneUsage(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Lists usage records started at or after `since`, oldest first.
+ */
+export const listUsage = (since = 0): Promise<UsageRecord[]> =>
+  withStore<UsageRecord[]>(STORES.USAGE, "readonly", store =>
+    store.index("startedAt").getAll(IDBKeyRange.lowerBound(since))
+  );
+
+export const clearUsage = async (): Promise<void> => {
+  await withStore(STORES.USAGE, "readwrite", store => store.clear());
+};
@@ -1,42 +1,87 @@
-const CACHE_NAME = 'styleai-v1';
-const urlsToCache = [
-  '/',
-  '/index.html',
-  '/manifest.json'
-];
+// Service worker template. plugins/serviceWorker.ts fills in BUILD at build
+// time with { version, assets } for the emitted bundle.
+const BUILD = __BUILD_MANIFEST__;
+
+const PRECACHE = `styleai-precache-${BUILD.version}`;
+const RUNTIME = 'styleai-runtime';
+const APP_SHELL = '/index.html';
+const OFFLINE_PAGE = '/offline.html';
+
+// Third-party hosts the page loads from (Tailwind, fonts). Cached as they are
+// used so an installed app still renders offline.
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
 
 self.addEventListener('install', (event) => {
+  // No skipWaiting here: the page asks the user before switching versions.
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        return cache.addAll(urlsToCache);
-      })
+    caches.open(PRECACHE).then((cache) => cache.addAll(BUILD.assets))
   );
 });
 
-self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        if (response) {
-          return response;
-        }
-        return fetch(event.request);
-      })
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((cacheNames) => Promise.all(
+        cacheNames
+          .filter((name) => name.startsWith('styleai-') && name !== PRECACHE && name !== RUNTIME)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
   );
 });
 
-self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
-  event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            return caches.delete(cacheName);
-          }
-        })
-      );
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// HTML is network-first so a deploy is picked up immediately; offline it falls
+// back to the app shell this worker precached, whose assets are all cached too.
+const handleNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(PRECACHE);
+    return (await cache.match(APP_SHELL)) || (await cache.match(OFFLINE_PAGE)) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
     })
-  );
-});
\ No newline at end of file
+    .catch(() => cached || Response.error());
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // API calls are never cached
+    if (url.pathname.startsWith('/api/')) return;
+
+    if (request.mode === 'navigate') {
+      event.respondWith(handleNavigation(request));
+      return;
+    }
+
+    // Hashed bundles and public files: served from the precache when listed
+    event.respondWith(
+      caches.match(request, { cacheName: PRECACHE }).then((response) => response || fetch(request))
+    );
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
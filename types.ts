@@ -2,25 +2,238 @@ export interface HairstyleSuggestion {
   name: string;
   description: string;
   reasoning: string;
+  custom?: boolean; // Entered by the user rather than suggested by the model
+  tags?: StyleTags; // Missing on custom styles and on consultations saved before tags existed
+}
+
+export enum HairLength {
+  SHORT = 'Short',
+  MEDIUM = 'Medium',
+  LONG = 'Long'
+}
+
+export enum HairTexture {
+  STRAIGHT = 'Straight',
+  WAVY = 'Wavy',
+  CURLY = 'Curly',
+  COILY = 'Coily'
+}
+
+export enum MaintenanceLevel {
+  LOW = 'Low',
+  MEDIUM = 'Medium',
+  HIGH = 'High'
+}
+
+export enum HairDensity {
+  THIN = 'Thin',
+  MEDIUM = 'Medium',
+  THICK = 'Thick'
+}
+
+export enum Hairline {
+  STRAIGHT = 'Straight',
+  ROUNDED = 'Rounded',
+  WIDOWS_PEAK = 'Widow\'s Peak',
+  RECEDING = 'Receding'
+}
+
+// Width of a facial zone relative to the rest of the face
+export enum Proportion {
+  NARROW = 'Narrow',
+  BALANCED = 'Balanced',
+  WIDE = 'Wide'
+}
+
+// Structured attributes of one suggestion, used to filter and sort the selection screen.
+export interface StyleTags {
+  length: HairLength;
+  maintenance: MaintenanceLevel;
+  stylingMinutes: number; // Typical daily styling time
+  hairTypes: HairTexture[]; // Textures the cut works with
+  products: string[]; // e.g. "sea salt spray"
+}
+
+// Optional limits the client sets before analysis; passed into analysis and generation prompts.
+export interface StyleConstraints {
+  minLength?: HairLength;
+  maxLength?: HairLength;
+  texture?: HairTexture;
+  maxMaintenance?: MaintenanceLevel;
+  workplaceAppropriate?: boolean;
+}
+
+export enum FaceShape {
+  OVAL = 'Oval',
+  SQUARE = 'Square',
+  HEART = 'Heart',
+  ROUND = 'Round',
+  DIAMOND = 'Diamond',
+  OBLONG = 'Oblong'
+}
+
+export interface FaceShapeMatch {
+  shape: FaceShape;
+  confidence: number; // 0 to 1
+}
+
+// What the model read from the captures besides the face shape.
+export interface FaceFeatures {
+  faceShapeConfidence: number; // 0 to 1
+  runnerUpShapes: FaceShapeMatch[]; // Closest other shapes, most likely first
+  hairTexture?: HairTexture;
+  hairDensity?: HairDensity;
+  currentLength?: HairLength;
+  hairline?: Hairline;
+  forehead?: Proportion;
+  cheekbones?: Proportion;
+  jaw?: Proportion;
 }
 
 export interface AnalysisResult {
-  faceShape: string;
+  faceShape: FaceShape;
+  features?: FaceFeatures; // Missing on consultations saved before features existed
   suggestions: HairstyleSuggestion[];
 }
 
+export enum GenerationStatus {
+  PENDING = 'PENDING',
+  DONE = 'DONE',
+  FAILED = 'FAILED'
+}
+
+export enum ColorTechnique {
+  SOLID = 'Solid',
+  HIGHLIGHTS = 'Highlights',
+  BALAYAGE = 'Balayage',
+  OMBRE = 'Ombre'
+}
+
+export interface HairColor {
+  id: string;
+  name: string;
+  swatch: string; // CSS color used for the picker chip
+  category: 'natural' | 'fashion';
+}
+
+// The color applied to one render, kept on the image so variants can be labeled.
+export interface AppliedColor {
+  id: string;
+  name: string;
+  technique: ColorTechnique;
+}
+
+// Which capture a render is based on; matches the order of capturedImages.
+export enum CaptureAngle {
+  FRONT = 'FRONT',
+  LEFT = 'LEFT',
+  RIGHT = 'RIGHT'
+}
+
+// One request to the model API, reported for usage accounting (services/usage.ts).
+export interface ModelCall {
+  model: string;
+  latencyMs: number;
+  ok: boolean; // The API answered; the answer itself may still be unusable
+  inputTokens?: number; // From the response's usage metadata, when the API reports it
+  outputTokens?: number; // Includes generated images and thinking tokens
+  totalTokens?: number;
+}
+
+// Called after every model request, retries included. Not sent over the network;
+// the proxy reports its calls back in the response instead.
+export type ModelCallListener = (call: ModelCall) => void;
+
+export interface AnalysisOptions {
+  constraints?: StyleConstraints;
+  locale?: string; // BCP 47 tag; descriptions and reasoning come back in this language
+  onModelCall?: ModelCallListener;
+}
+
+export interface GenerationOptions {
+  constraints?: StyleConstraints;
+  color?: AppliedColor; // Omitted to keep the client's current color
+  angle?: CaptureAngle; // Defaults to FRONT
+  referenceImage?: string; // Finished front render that side views must match
+  refinement?: Refinement; // Edit an existing render instead of starting from the capture alone
+  onModelCall?: ModelCallListener;
+}
+
+export interface Refinement {
+  instruction: string; // e.g. "shorter on the sides"
+  currentImage: string; // The render being refined
+}
+
+export interface RenderVersion {
+  imageUrl: string;
+  instruction?: string; // Omitted for the initial render
+  createdAt: number; // Epoch millis
+}
+
 export interface GeneratedImage {
   hairstyleName: string;
-  imageUrl: string;
+  color?: AppliedColor;
+  angle?: CaptureAngle; // Omitted for front renders (and sessions saved before side views)
+  status: GenerationStatus;
+  imageUrl?: string; // Set once status is DONE; always the selected version's image
+  error?: string; // Set when status is FAILED
+  versions?: RenderVersion[]; // Initial render followed by refinements, oldest first
+  versionIndex?: number; // Which entry of `versions` is shown
+}
+
+export interface ConsultationSession {
+  id: string;
+  createdAt: number; // Epoch millis
+  capturedImages: string[]; // [Front, Left, Right, Back?]
+  analysis: AnalysisResult;
+  generatedImages: GeneratedImage[];
+  constraints?: StyleConstraints;
+  consentedAt?: number; // Epoch millis when upload consent was given; absent for sessions saved before consent was asked
+  clientId?: string; // Client profile the consultation belongs to, if one was selected
+}
+
+// A salon client; consultations attach to the profile selected when they start
+export interface ClientProfile {
+  id: string;
+  name: string;
+  notes?: string;
+  hairTexture?: HairTexture;
+  createdAt: number; // Epoch millis
+  updatedAt: number; // Epoch millis
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   CAMERA = 'CAMERA',
+  UPLOAD = 'UPLOAD',
   PREVIEW = 'PREVIEW',
   ANALYZING = 'ANALYZING',
   SELECTION = 'SELECTION',
   GENERATING = 'GENERATING',
   RESULTS = 'RESULTS',
+  HISTORY = 'HISTORY',
+  USAGE = 'USAGE',
+  CLIENTS = 'CLIENTS',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+
+/**
+ * Contract every vision/image backend implements. App code talks to the
+ * active provider through services/aiProvider.ts and never to a specific SDK.
+ */
+export interface AiProvider {
+  name: string;
+  // Identifies the models and prompt versions behind the provider; part of every
+  // response cache key, so a model or prompt change never serves old answers.
+  // Defaults to `name` when omitted.
+  getFingerprint?: () => Promise<string>;
+  // `signal` cancels the request; providers reject with an AbortError (see services/abort.ts)
+  analyzeFace: (base64Images: string[], options?: AnalysisOptions, signal?: AbortSignal) => Promise<AnalysisResult>;
+  generateHairstyleImage: (
+    base64Image: string,
+    hairstyleName: string,
+    hairstyleDescription: string,
+    options?: GenerationOptions,
+    signal?: AbortSignal
+  ) => Promise<string>;
+}
@@ -1,23 +1,46 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorker } from './plugins/serviceWorker';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // API proxy (npm run server); keeps GEMINI_API_KEY out of the client bundle
+    const apiProxy = {
+      '/api': {
+        target: env.API_PROXY_URL || 'http://localhost:8787',
+        rewrite: (p: string) => p.replace(/^\/api/, ''),
+      },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
       },
-      plugins: [react()],
+      preview: {
+        proxy: apiProxy,
+      },
+      plugins: [react(), serviceWorker({ template: path.resolve(__dirname, 'sw.js') })],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.MAX_SELECTED_STYLES': JSON.stringify(env.MAX_SELECTED_STYLES || ''),
+        'process.env.GENERATION_CONCURRENCY': JSON.stringify(env.GENERATION_CONCURRENCY || ''),
+        'process.env.RESPONSE_CACHE_MB': JSON.stringify(env.RESPONSE_CACHE_MB || ''),
+        'process.env.DAILY_BUDGET_USD': JSON.stringify(env.DAILY_BUDGET_USD || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./vitest.setup.ts'],
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**', 'dist/**'],
+        restoreMocks: true,
       }
     };
 });
@@ -0,0 +1,12 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+afterEach(() => {
+  // Server tests run in the node environment, without a DOM
+  if (typeof window === 'undefined') return;
+  cleanup();
+  // Routing state lives in the URL; start every test on the idle screen
+  window.history.replaceState(null, '', '/');
+  localStorage.clear();
+});